@@ -1,5 +1,5 @@
 import { useTheme, useFileConverter } from './hooks';
-import { DropZone, FileList, ConversionPanel, PdfPreview, ThemeToggle } from './components';
+import { DropZone, FileList, ConversionPanel, PdfPreview, ResultsList, ThemeToggle } from './components';
 import './index.css';
 
 function App() {
@@ -9,14 +9,23 @@ function App() {
       isConverting,
       overallProgress,
       result,
+      results,
+      archive,
       error,
       options,
       setOptions,
       addFiles,
       removeFile,
+      moveFile,
+      setFileEncoding,
+      setCustomFont,
+      sortFiles,
       clearFiles,
       convert,
+      cancel,
       download,
+      downloadResult,
+      downloadArchive,
       getSuggestion,
    } = useFileConverter();
 
@@ -64,12 +73,24 @@ function App() {
             </section>
 
             {/* Conversion UI */}
-            {result ? (
+            {results && archive ? (
+               /* Show the per-file results when converting one PDF per file */
+               <ResultsList
+                  results={results}
+                  archiveSize={archive.size}
+                  skippedFiles={files.filter(f => f.status === 'error').map(f => f.file.name)}
+                  onDownload={downloadResult}
+                  onDownloadArchive={downloadArchive}
+                  onReset={handleReset}
+               />
+            ) : result ? (
                /* Show preview when conversion is complete */
                <PdfPreview
                   blob={result.blob}
                   filename={result.filename}
                   pageCount={result.pageCount}
+                  skippedFiles={result.skippedFiles}
+                  replacedChars={result.replacedChars}
                   onDownload={download}
                   onReset={handleReset}
                />
@@ -93,6 +114,9 @@ function App() {
                   <FileList
                      files={files}
                      onRemove={removeFile}
+                     onMove={moveFile}
+                     onSort={sortFiles}
+                     onEncodingChange={setFileEncoding}
                      disabled={isConverting}
                   />
 
@@ -102,7 +126,9 @@ function App() {
                      suggestion={getSuggestion()}
                      options={options}
                      onOptionsChange={setOptions}
+                     onFontChange={setCustomFont}
                      onConvert={convert}
+                     onCancel={cancel}
                      onClear={clearFiles}
                      isConverting={isConverting}
                      progress={overallProgress}
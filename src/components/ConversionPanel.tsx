@@ -1,12 +1,62 @@
-import type { ConversionOptions } from '../types';
+import { useState } from 'react';
+import type {
+   CodeTheme,
+   CommentMode,
+   ConversionOptions,
+   CustomPageSize,
+   ImageGrid,
+   ImageLayout,
+   Orientation,
+   OutputMode,
+   PageMargins,
+   PaperSize,
+   PhotoMetadata,
+   RenderMode,
+   RevisionMode,
+} from '../types';
 import './ConversionPanel.css';
 
+// Margins in mm applied to every side by the presets
+const MARGIN_PRESETS = [0, 5, 10, 20];
+
+const MARGIN_SIDES: { side: keyof PageMargins; label: string }[] = [
+   { side: 'top', label: 'Top' },
+   { side: 'right', label: 'Right' },
+   { side: 'bottom', label: 'Bottom' },
+   { side: 'left', label: 'Left' },
+];
+
+/**
+ * The preset that gives these margins, or null for margins set side by side
+ */
+function marginPreset(margins: PageMargins): number | null {
+   const { top, right, bottom, left } = margins;
+   const uniform = top === right && top === bottom && top === left;
+   return uniform && MARGIN_PRESETS.includes(top) ? top : null;
+}
+
+/**
+ * Read a grid dimension from a number input, at least 1
+ */
+function countValue(input: HTMLInputElement): number {
+   return Math.max(1, Math.floor(input.valueAsNumber) || 1);
+}
+
+/**
+ * Read a non-negative length from a number input, treating an empty field as 0
+ */
+function lengthValue(input: HTMLInputElement): number {
+   return Math.max(0, input.valueAsNumber || 0);
+}
+
 interface ConversionPanelProps {
    fileCount: number;
    suggestion: string;
    options: ConversionOptions;
    onOptionsChange: (options: ConversionOptions) => void;
+   onFontChange: (file: File | null) => void;
    onConvert: () => void;
+   onCancel: () => void;
    onClear: () => void;
    isConverting: boolean;
    progress: number;
@@ -17,15 +67,35 @@ export function ConversionPanel({
    suggestion,
    options,
    onOptionsChange,
+   onFontChange,
    onConvert,
+   onCancel,
    onClear,
    isConverting,
    progress,
 }: ConversionPanelProps) {
+   const [customMargins, setCustomMargins] = useState(() => marginPreset(options.margins) === null);
+
    if (fileCount === 0) {
       return null;
    }
 
+   const setCustomSize = (size: Partial<CustomPageSize>) => {
+      onOptionsChange({ ...options, customSize: { ...options.customSize, ...size } });
+   };
+   const setImageGrid = (grid: Partial<ImageGrid>) => {
+      onOptionsChange({ ...options, imageGrid: { ...options.imageGrid, ...grid } });
+   };
+   const setMargin = (side: keyof PageMargins, value: number) => {
+      onOptionsChange({ ...options, margins: { ...options.margins, [side]: value } });
+   };
+   const setMarginPreset = (value: string) => {
+      setCustomMargins(value === 'custom');
+      if (value === 'custom') return;
+      const margin = parseInt(value);
+      onOptionsChange({ ...options, margins: { top: margin, right: margin, bottom: margin, left: margin } });
+   };
+
    return (
       <div className="conversion-panel">
          {/* Suggestion */}
@@ -42,15 +112,167 @@ export function ConversionPanel({
                   id="page-size"
                   className="option-select"
                   value={options.pageSize}
-                  onChange={(e) => onOptionsChange({ ...options, pageSize: e.target.value as 'A4' | 'letter' | 'fit' })}
+                  onChange={(e) => onOptionsChange({ ...options, pageSize: e.target.value as PaperSize })}
                   disabled={isConverting}
                >
+                  <option value="A3">A3</option>
                   <option value="A4">A4</option>
+                  <option value="A5">A5</option>
+                  <option value="B5">B5</option>
                   <option value="letter">Letter</option>
+                  <option value="legal">Legal</option>
+                  <option value="tabloid">Tabloid</option>
+                  <option value="custom">Custom…</option>
                   <option value="fit">Fit to Content</option>
                </select>
             </div>
 
+            {options.pageSize === 'custom' && (
+               <div className="option-group">
+                  <span className="option-label">Custom Size</span>
+                  <div className="option-size">
+                     <input
+                        type="number"
+                        className="option-input"
+                        min="1"
+                        step="any"
+                        value={options.customSize.width}
+                        onChange={(e) => setCustomSize({ width: lengthValue(e.target) })}
+                        disabled={isConverting}
+                        aria-label="Page width"
+                     />
+                     <span className="option-size__by">×</span>
+                     <input
+                        type="number"
+                        className="option-input"
+                        min="1"
+                        step="any"
+                        value={options.customSize.height}
+                        onChange={(e) => setCustomSize({ height: lengthValue(e.target) })}
+                        disabled={isConverting}
+                        aria-label="Page height"
+                     />
+                     <select
+                        className="option-select option-size__unit"
+                        value={options.customSize.unit}
+                        onChange={(e) => setCustomSize({ unit: e.target.value as CustomPageSize['unit'] })}
+                        disabled={isConverting}
+                        aria-label="Unit"
+                     >
+                        <option value="mm">mm</option>
+                        <option value="in">in</option>
+                     </select>
+                  </div>
+               </div>
+            )}
+
+            <div className="option-group">
+               <label htmlFor="orientation" className="option-label">Orientation</label>
+               <select
+                  id="orientation"
+                  className="option-select"
+                  value={options.orientation}
+                  onChange={(e) => onOptionsChange({ ...options, orientation: e.target.value as Orientation })}
+                  disabled={isConverting}
+               >
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                  <option value="auto">Match content</option>
+               </select>
+            </div>
+
+            <div className="option-group">
+               <label htmlFor="image-layout" className="option-label">Images per Page</label>
+               <select
+                  id="image-layout"
+                  className="option-select"
+                  value={options.imageLayout}
+                  onChange={(e) => onOptionsChange({ ...options, imageLayout: e.target.value as ImageLayout })}
+                  disabled={isConverting}
+               >
+                  <option value="single">One</option>
+                  <option value="2up">Two (2-up)</option>
+                  <option value="4up">Four (2 × 2)</option>
+                  <option value="9up">Nine (3 × 3)</option>
+                  <option value="custom">Custom grid…</option>
+               </select>
+               {options.imageLayout === 'custom' && (
+                  <div className="option-size">
+                     <input
+                        type="number"
+                        className="option-input"
+                        min="1"
+                        step="1"
+                        value={options.imageGrid.rows}
+                        onChange={(e) => setImageGrid({ rows: countValue(e.target) })}
+                        disabled={isConverting}
+                        aria-label="Rows"
+                     />
+                     <span className="option-size__by">×</span>
+                     <input
+                        type="number"
+                        className="option-input"
+                        min="1"
+                        step="1"
+                        value={options.imageGrid.columns}
+                        onChange={(e) => setImageGrid({ columns: countValue(e.target) })}
+                        disabled={isConverting}
+                        aria-label="Columns"
+                     />
+                  </div>
+               )}
+               {options.imageLayout !== 'single' && (
+                  <label className="option-field">
+                     <span>Gutter (mm)</span>
+                     <input
+                        type="number"
+                        className="option-input"
+                        min="0"
+                        step="any"
+                        value={options.imageGutter}
+                        onChange={(e) => onOptionsChange({ ...options, imageGutter: lengthValue(e.target) })}
+                        disabled={isConverting}
+                     />
+                  </label>
+               )}
+               <label className="option-checkbox">
+                  <input
+                     type="checkbox"
+                     checked={options.imageCaptions}
+                     onChange={(e) => onOptionsChange({ ...options, imageCaptions: e.target.checked })}
+                     disabled={isConverting}
+                  />
+                  Filename captions
+               </label>
+               <label className="option-checkbox">
+                  <input
+                     type="checkbox"
+                     checked={options.animationFrames}
+                     onChange={(e) => onOptionsChange({ ...options, animationFrames: e.target.checked })}
+                     disabled={isConverting}
+                  />
+                  Every frame of animated GIF/WebP
+               </label>
+            </div>
+
+            <div className="option-group">
+               <label htmlFor="photo-metadata" className="option-label">Photo Metadata</label>
+               <select
+                  id="photo-metadata"
+                  className="option-select"
+                  value={options.photoMetadata}
+                  onChange={(e) => onOptionsChange({ ...options, photoMetadata: e.target.value as PhotoMetadata })}
+                  disabled={isConverting}
+               >
+                  <option value="strip">Remove</option>
+                  <option value="keep">Keep, without location</option>
+                  <option value="keepLocation">Keep, with location</option>
+               </select>
+               <span className="option-hint">
+                  Images are re-encoded. EXIF data (camera, date, GPS) is only kept from JPEG photos.
+               </span>
+            </div>
+
             <div className="option-group">
                <label htmlFor="quality" className="option-label">Quality</label>
                <select
@@ -68,20 +290,194 @@ export function ConversionPanel({
             </div>
 
             <div className="option-group">
-               <label htmlFor="margin" className="option-label">Margin</label>
+               <label htmlFor="margin" className="option-label">Margins</label>
                <select
                   id="margin"
                   className="option-select"
-                  value={options.margin}
-                  onChange={(e) => onOptionsChange({ ...options, margin: parseInt(e.target.value) })}
+                  value={customMargins ? 'custom' : marginPreset(options.margins) ?? 'custom'}
+                  onChange={(e) => setMarginPreset(e.target.value)}
                   disabled={isConverting}
                >
                   <option value="0">None</option>
                   <option value="5">Small (5mm)</option>
                   <option value="10">Medium (10mm)</option>
                   <option value="20">Large (20mm)</option>
+                  <option value="custom">Custom…</option>
+               </select>
+               {customMargins && (
+                  <div className="option-margins">
+                     {MARGIN_SIDES.map(({ side, label }) => (
+                        <label key={side} className="option-field">
+                           <span>{label}</span>
+                           <input
+                              type="number"
+                              className="option-input"
+                              min="0"
+                              step="any"
+                              value={options.margins[side]}
+                              onChange={(e) => setMargin(side, lengthValue(e.target))}
+                              disabled={isConverting}
+                           />
+                        </label>
+                     ))}
+                  </div>
+               )}
+            </div>
+
+            <div className="option-group">
+               <label htmlFor="gutter" className="option-label">Binding Gutter (mm)</label>
+               <input
+                  id="gutter"
+                  type="number"
+                  className="option-input"
+                  min="0"
+                  step="any"
+                  value={options.gutter}
+                  onChange={(e) => onOptionsChange({ ...options, gutter: lengthValue(e.target) })}
+                  disabled={isConverting}
+               />
+               <label className="option-checkbox">
+                  <input
+                     type="checkbox"
+                     checked={options.mirrorMargins}
+                     onChange={(e) => onOptionsChange({ ...options, mirrorMargins: e.target.checked })}
+                     disabled={isConverting}
+                  />
+                  Mirror for double-sided
+               </label>
+            </div>
+
+            <div className="option-group">
+               <label htmlFor="render-mode" className="option-label">Documents</label>
+               <select
+                  id="render-mode"
+                  className="option-select"
+                  value={options.renderMode}
+                  onChange={(e) => onOptionsChange({ ...options, renderMode: e.target.value as RenderMode })}
+                  disabled={isConverting}
+               >
+                  <option value="raster">Exact image</option>
+                  <option value="vector">Selectable text</option>
+               </select>
+            </div>
+
+            <div className="option-group">
+               <label htmlFor="code-theme" className="option-label">Code Colors</label>
+               <select
+                  id="code-theme"
+                  className="option-select"
+                  value={options.codeTheme}
+                  onChange={(e) => onOptionsChange({ ...options, codeTheme: e.target.value as CodeTheme })}
+                  disabled={isConverting}
+               >
+                  <option value="light">Light</option>
+                  <option value="print">Print-friendly</option>
                </select>
             </div>
+
+            <div className="option-group">
+               <span className="option-label">Source Code</span>
+               <label className="option-checkbox">
+                  <input
+                     type="checkbox"
+                     checked={options.lineNumbers}
+                     onChange={(e) => onOptionsChange({ ...options, lineNumbers: e.target.checked })}
+                     disabled={isConverting}
+                  />
+                  Line numbers
+               </label>
+            </div>
+
+            <div className="option-group">
+               <span className="option-label">Text Font</span>
+               {options.customFont ? (
+                  <div className="option-font">
+                     <span className="option-font__name" title={options.customFont.name}>{options.customFont.name}</span>
+                     <button
+                        type="button"
+                        className="option-font__remove"
+                        onClick={() => onFontChange(null)}
+                        disabled={isConverting}
+                        aria-label="Use the default font"
+                     >
+                        ×
+                     </button>
+                  </div>
+               ) : (
+                  <label
+                     className="option-file"
+                     title="TrueType fonts only: most .otf fonts have PostScript outlines, which cannot be embedded"
+                  >
+                     <input
+                        type="file"
+                        accept=".ttf,font/ttf"
+                        onChange={(e) => {
+                           onFontChange(e.target.files?.[0] ?? null);
+                           e.target.value = '';
+                        }}
+                        disabled={isConverting}
+                     />
+                     Upload TTF
+                  </label>
+               )}
+            </div>
+
+            <div className="option-group">
+               <label htmlFor="revisions" className="option-label">Tracked Changes</label>
+               <select
+                  id="revisions"
+                  className="option-select"
+                  value={options.revisions}
+                  onChange={(e) => onOptionsChange({ ...options, revisions: e.target.value as RevisionMode })}
+                  disabled={isConverting}
+               >
+                  <option value="accept">Accept all</option>
+                  <option value="reject">Reject all</option>
+                  <option value="markup">Show markup</option>
+               </select>
+            </div>
+
+            <div className="option-group">
+               <label htmlFor="comments" className="option-label">Comments</label>
+               <select
+                  id="comments"
+                  className="option-select"
+                  value={options.comments}
+                  onChange={(e) => onOptionsChange({ ...options, comments: e.target.value as CommentMode })}
+                  disabled={isConverting}
+               >
+                  <option value="hide">Hide</option>
+                  <option value="margin">In the margin</option>
+                  <option value="endnotes">As endnotes</option>
+               </select>
+            </div>
+
+            <div className="option-group">
+               <label htmlFor="output-mode" className="option-label">Output</label>
+               <select
+                  id="output-mode"
+                  className="option-select"
+                  value={options.outputMode}
+                  onChange={(e) => onOptionsChange({ ...options, outputMode: e.target.value as OutputMode })}
+                  disabled={isConverting}
+               >
+                  <option value="single">Single PDF</option>
+                  <option value="perFile">One PDF per file (ZIP)</option>
+               </select>
+            </div>
+
+            <div className="option-group">
+               <span className="option-label">On Failure</span>
+               <label className="option-checkbox">
+                  <input
+                     type="checkbox"
+                     checked={options.skipFailed}
+                     onChange={(e) => onOptionsChange({ ...options, skipFailed: e.target.checked })}
+                     disabled={isConverting}
+                  />
+                  Skip failed files
+               </label>
+            </div>
          </div>
 
          {/* Progress bar */}
@@ -103,14 +499,23 @@ export function ConversionPanel({
 
          {/* Actions */}
          <div className="conversion-panel__actions">
-            <button
-               type="button"
-               className="btn btn--secondary"
-               onClick={onClear}
-               disabled={isConverting}
-            >
-               Clear All
-            </button>
+            {isConverting ? (
+               <button
+                  type="button"
+                  className="btn btn--secondary"
+                  onClick={onCancel}
+               >
+                  Cancel
+               </button>
+            ) : (
+               <button
+                  type="button"
+                  className="btn btn--secondary"
+                  onClick={onClear}
+               >
+                  Clear All
+               </button>
+            )}
             <button
                type="button"
                className="btn btn--primary"
@@ -1,6 +1,10 @@
 import { useCallback, useRef, useState } from 'react';
+import { EXTENSION_TO_TYPE } from '../types';
 import './DropZone.css';
 
+// File picker filter: any image, plus every extension the converters know
+const ACCEPTED_FILES = ['image/*', ...Object.keys(EXTENSION_TO_TYPE)].join(',');
+
 interface DropZoneProps {
    onFilesAdded: (files: FileList) => void;
    disabled?: boolean;
@@ -76,7 +80,7 @@ export function DropZone({ onFilesAdded, disabled }: DropZoneProps) {
             ref={inputRef}
             type="file"
             multiple
-            accept="image/*,.txt,.html,.htm,.md,.markdown,.docx"
+            accept={ACCEPTED_FILES}
             onChange={handleFileChange}
             className="drop-zone__input"
             aria-hidden="true"
@@ -94,7 +98,7 @@ export function DropZone({ onFilesAdded, disabled }: DropZoneProps) {
                <strong>Drop files here</strong> or click to browse
             </p>
             <p className="drop-zone__hint">
-               Supports images (PNG, JPG, GIF, TIFF), text, HTML, Markdown, DOCX
+               Supports images (PNG, JPG, GIF, TIFF, HEIC, AVIF, BMP, ICO), SVG, text, HTML, Markdown, DOCX, source code
             </p>
          </div>
       </div>
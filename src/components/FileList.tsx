@@ -1,17 +1,30 @@
-import type { ConvertibleFile } from '../types';
-import { formatFileSize } from '../utils';
+import { useState } from 'react';
+import type { ConvertibleFile, ConversionErrorCode, ConversionStage, GeoLocation, SortKey } from '../types';
+import { formatFileSize, isTextFile, TEXT_ENCODINGS } from '../utils';
 import './FileList.css';
 
 interface FileListProps {
    files: ConvertibleFile[];
    onRemove: (id: string) => void;
+   onMove: (id: string, toIndex: number) => void;
+   onSort: (key: SortKey) => void;
+   onEncodingChange: (id: string, encoding: string | undefined) => void;
    disabled?: boolean;
 }
 
+const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+   { key: 'name', label: 'Name' },
+   { key: 'modified', label: 'Modified' },
+   { key: 'captureDate', label: 'Photo date' },
+   { key: 'size', label: 'Size' },
+];
+
 function getFileIcon(type: string): string {
    switch (type) {
       case 'image':
          return '🖼️';
+      case 'svg':
+         return '📐';
       case 'text':
          return '📄';
       case 'html':
@@ -20,6 +33,8 @@ function getFileIcon(type: string): string {
          return '📝';
       case 'docx':
          return '📑';
+      case 'code':
+         return '💻';
       default:
          return '📎';
    }
@@ -40,72 +55,254 @@ function getStatusIcon(status: string): string {
    }
 }
 
-export function FileList({ files, onRemove, disabled }: FileListProps) {
+function getStageLabel(stage: ConversionStage | undefined): string {
+   switch (stage) {
+      case 'reading':
+         return 'Reading';
+      case 'decoding':
+         return 'Decoding image';
+      case 'extracting':
+         return 'Extracting document';
+      case 'layout':
+         return 'Laying out text';
+      case 'rendering':
+         return 'Rendering';
+      default:
+         return 'Converting';
+   }
+}
+
+function getAutoEncodingLabel(detected: string | undefined): string {
+   if (!detected) return 'Auto-detect';
+   const known = TEXT_ENCODINGS.find(e => e.value === detected);
+   return `Auto: ${known ? known.label : detected.toUpperCase()}`;
+}
+
+function formatCaptureDate(time: number): string {
+   return new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function formatLocation({ latitude, longitude }: GeoLocation): string {
+   const lat = `${Math.abs(latitude).toFixed(5)}° ${latitude < 0 ? 'S' : 'N'}`;
+   const lon = `${Math.abs(longitude).toFixed(5)}° ${longitude < 0 ? 'W' : 'E'}`;
+   return `${lat}, ${lon}`;
+}
+
+function getErrorHint(code: ConversionErrorCode | undefined): string {
+   switch (code) {
+      case 'read-failed':
+         return 'The file could not be read. Make sure it still exists and add it again.';
+      case 'image-decode-failed':
+         return 'Image decode failed. Re-export it as PNG or JPEG and try again.';
+      case 'corrupt-docx':
+         return 'Corrupt DOCX. Open it in Word and save it again as .docx.';
+      case 'invalid-svg':
+         return 'Invalid SVG. Open it in a drawing program and save it again as plain SVG.';
+      case 'render-failed':
+         return 'The document could not be rendered. Try converting it on its own.';
+      case 'unsupported-type':
+         return 'This file type is not supported. Remove it from the queue.';
+      default:
+         return '';
+   }
+}
+
+export function FileList({ files, onRemove, onMove, onSort, onEncodingChange, disabled }: FileListProps) {
+   const [dragId, setDragId] = useState<string | null>(null);
+   const [dropIndex, setDropIndex] = useState<number | null>(null);
+   const [announcement, setAnnouncement] = useState('');
+
    if (files.length === 0) {
       return null;
    }
 
+   const moveTo = (file: ConvertibleFile, toIndex: number) => {
+      if (toIndex < 0 || toIndex >= files.length) return;
+      onMove(file.id, toIndex);
+      setAnnouncement(`${file.file.name} moved to position ${toIndex + 1} of ${files.length}`);
+   };
+
+   const handleHandleKeyDown = (e: React.KeyboardEvent, file: ConvertibleFile, index: number) => {
+      const targets: Record<string, number> = {
+         ArrowUp: index - 1,
+         ArrowDown: index + 1,
+         Home: 0,
+         End: files.length - 1,
+      };
+      if (e.key in targets) {
+         e.preventDefault();
+         moveTo(file, targets[e.key]);
+      }
+   };
+
+   const handleDrop = (e: React.DragEvent, index: number) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const file = files.find(f => f.id === dragId);
+      if (file) moveTo(file, index);
+      setDragId(null);
+      setDropIndex(null);
+   };
+
    return (
-      <div className="file-list" role="list" aria-label="Selected files">
-         {files.map((file) => (
-            <div
-               key={file.id}
-               className={`file-item file-item--${file.status}`}
-               role="listitem"
-            >
-               {/* Preview or icon */}
-               <div className="file-item__preview">
-                  {file.preview ? (
-                     <img
-                        src={file.preview}
-                        alt={`Preview of ${file.file.name}`}
-                        className="file-item__image"
-                     />
-                  ) : (
-                     <span className="file-item__icon" aria-hidden="true">
-                        {getFileIcon(file.type)}
-                     </span>
-                  )}
-               </div>
+      <div className="file-list">
+         {files.length > 1 && (
+            <div className="file-list__toolbar" role="group" aria-label="Sort files">
+               <span className="file-list__toolbar-label">Sort by</span>
+               {SORT_OPTIONS.map(({ key, label }) => (
+                  <button
+                     key={key}
+                     type="button"
+                     className="file-list__sort"
+                     onClick={() => onSort(key)}
+                     disabled={disabled}
+                  >
+                     {label}
+                  </button>
+               ))}
+            </div>
+         )}
 
-               {/* File info */}
-               <div className="file-item__info">
-                  <p className="file-item__name" title={file.file.name}>
-                     {file.file.name}
-                  </p>
-                  <p className="file-item__meta">
-                     <span className="file-item__size">
-                        {formatFileSize(file.file.size)}
-                     </span>
-                     <span className="file-item__type">{file.type.toUpperCase()}</span>
-                  </p>
-               </div>
+         <div className="file-list__items" role="list" aria-label="Selected files">
+            {files.map((file, index) => (
+               <div
+                  key={file.id}
+                  className={`file-item file-item--${file.status}${dragId === file.id ? ' file-item--dragging' : ''}${dropIndex === index && dragId !== file.id ? ' file-item--drop-target' : ''}`}
+                  role="listitem"
+                  draggable={!disabled}
+                  onDragStart={(e) => {
+                     e.dataTransfer.effectAllowed = 'move';
+                     e.dataTransfer.setData('text/plain', file.id);
+                     setDragId(file.id);
+                  }}
+                  onDragOver={(e) => {
+                     if (!dragId) return;
+                     e.preventDefault();
+                     e.stopPropagation();
+                     setDropIndex(index);
+                  }}
+                  onDrop={(e) => handleDrop(e, index)}
+                  onDragEnd={() => {
+                     setDragId(null);
+                     setDropIndex(null);
+                  }}
+               >
+                  {/* Reorder handle */}
+                  <button
+                     type="button"
+                     className="file-item__handle"
+                     onKeyDown={(e) => handleHandleKeyDown(e, file, index)}
+                     disabled={disabled}
+                     aria-label={`Reorder ${file.file.name}, position ${index + 1} of ${files.length}. Use arrow keys to move.`}
+                     title="Drag or use arrow keys to reorder"
+                  >
+                     <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                        <circle cx="9" cy="6" r="1.5" />
+                        <circle cx="15" cy="6" r="1.5" />
+                        <circle cx="9" cy="12" r="1.5" />
+                        <circle cx="15" cy="12" r="1.5" />
+                        <circle cx="9" cy="18" r="1.5" />
+                        <circle cx="15" cy="18" r="1.5" />
+                     </svg>
+                  </button>
+
+                  {/* Preview or icon */}
+                  <div className="file-item__preview">
+                     {file.preview ? (
+                        <img
+                           src={file.preview}
+                           alt={`Preview of ${file.file.name}`}
+                           className="file-item__image"
+                        />
+                     ) : (
+                        <span className="file-item__icon" aria-hidden="true">
+                           {getFileIcon(file.type)}
+                        </span>
+                     )}
+                  </div>
+
+                  {/* File info */}
+                  <div className="file-item__info">
+                     <p className="file-item__name" title={file.file.name}>
+                        {file.file.name}
+                     </p>
+                     <p className="file-item__meta">
+                        <span className="file-item__size">
+                           {formatFileSize(file.file.size)}
+                        </span>
+                        <span className="file-item__type">{file.type.toUpperCase()}</span>
+                        {isTextFile(file.type) && (
+                           <select
+                              className="file-item__encoding"
+                              value={file.encoding ?? ''}
+                              onChange={(e) => onEncodingChange(file.id, e.target.value || undefined)}
+                              disabled={disabled}
+                              aria-label={`Character encoding of ${file.file.name}`}
+                              title="Character encoding"
+                           >
+                              <option value="">{getAutoEncodingLabel(file.detectedEncoding)}</option>
+                              {TEXT_ENCODINGS.map(({ value, label }) => (
+                                 <option key={value} value={value}>{label}</option>
+                              ))}
+                           </select>
+                        )}
+                        {file.status === 'converting' && (
+                           <span className="file-item__stage">
+                              {getStageLabel(file.stage)} {Math.round(file.progress)}%
+                           </span>
+                        )}
+                     </p>
+                     {(file.captureDate !== undefined || file.camera || file.location) && (
+                        <p className="file-item__photo">
+                           {file.camera && <span title="Camera">📷 {file.camera}</span>}
+                           {file.captureDate !== undefined && (
+                              <span title="Taken">{formatCaptureDate(file.captureDate)}</span>
+                           )}
+                           {file.location && (
+                              <span className="file-item__location" title="GPS location in the photo's metadata">
+                                 📍 {formatLocation(file.location)}
+                              </span>
+                           )}
+                        </p>
+                     )}
+                     {file.status === 'error' && file.error && (
+                        <p className="file-item__error" role="alert">
+                           {file.error}
+                           {getErrorHint(file.errorCode) && (
+                              <span className="file-item__hint">{getErrorHint(file.errorCode)}</span>
+                           )}
+                        </p>
+                     )}
+                  </div>
 
-               {/* Status */}
-               <div className="file-item__status" aria-label={`Status: ${file.status}`}>
-                  {file.status === 'converting' ? (
-                     <div className="file-item__spinner" aria-label="Converting..." />
-                  ) : (
-                     <span>{getStatusIcon(file.status)}</span>
-                  )}
+                  {/* Status */}
+                  <div className="file-item__status" aria-label={`Status: ${file.status}`}>
+                     {file.status === 'converting' ? (
+                        <div className="file-item__spinner" aria-label="Converting..." />
+                     ) : (
+                        <span>{getStatusIcon(file.status)}</span>
+                     )}
+                  </div>
+
+                  {/* Remove button */}
+                  <button
+                     type="button"
+                     className="file-item__remove"
+                     onClick={() => onRemove(file.id)}
+                     disabled={disabled || file.status === 'converting'}
+                     aria-label={`Remove ${file.file.name}`}
+                     title="Remove file"
+                  >
+                     <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <line x1="18" y1="6" x2="6" y2="18" />
+                        <line x1="6" y1="6" x2="18" y2="18" />
+                     </svg>
+                  </button>
                </div>
+            ))}
+         </div>
 
-               {/* Remove button */}
-               <button
-                  type="button"
-                  className="file-item__remove"
-                  onClick={() => onRemove(file.id)}
-                  disabled={disabled || file.status === 'converting'}
-                  aria-label={`Remove ${file.file.name}`}
-                  title="Remove file"
-               >
-                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                     <line x1="18" y1="6" x2="6" y2="18" />
-                     <line x1="6" y1="6" x2="18" y2="18" />
-                  </svg>
-               </button>
-            </div>
-         ))}
+         <span className="file-list__announcement" aria-live="polite">{announcement}</span>
       </div>
    );
 }
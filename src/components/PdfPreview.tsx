@@ -5,11 +5,13 @@ interface PdfPreviewProps {
    blob: Blob;
    filename: string;
    pageCount: number;
+   skippedFiles?: string[];
+   replacedChars?: string[];
    onDownload: () => void;
    onReset: () => void;
 }
 
-export function PdfPreview({ blob, filename, pageCount, onDownload, onReset }: PdfPreviewProps) {
+export function PdfPreview({ blob, filename, pageCount, skippedFiles, replacedChars, onDownload, onReset }: PdfPreviewProps) {
    const previewUrl = useMemo(() => URL.createObjectURL(blob), [blob]);
 
    return (
@@ -22,6 +24,16 @@ export function PdfPreview({ blob, filename, pageCount, onDownload, onReset }: P
                   <p className="pdf-preview__meta">
                      {pageCount} page{pageCount !== 1 ? 's' : ''} • {(blob.size / 1024).toFixed(1)} KB
                   </p>
+                  {skippedFiles && skippedFiles.length > 0 && (
+                     <p className="pdf-preview__skipped">
+                        Skipped {skippedFiles.length} failed file{skippedFiles.length !== 1 ? 's' : ''}: {skippedFiles.join(', ')}
+                     </p>
+                  )}
+                  {replacedChars && replacedChars.length > 0 && (
+                     <p className="pdf-preview__replaced">
+                        Characters the PDF cannot show, such as emoji, were replaced with �: {replacedChars.join(' ')}
+                     </p>
+                  )}
                </div>
             </div>
             <div className="pdf-preview__actions">
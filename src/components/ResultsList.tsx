@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import type { ConversionResult } from '../types';
+import { formatFileSize } from '../utils';
+import './ResultsList.css';
+
+interface ResultsListProps {
+   results: ConversionResult[];
+   archiveSize: number;
+   skippedFiles?: string[];
+   onDownload: (result: ConversionResult) => void;
+   onDownloadArchive: () => void;
+   onReset: () => void;
+}
+
+export function ResultsList({
+   results,
+   archiveSize,
+   skippedFiles,
+   onDownload,
+   onDownloadArchive,
+   onReset,
+}: ResultsListProps) {
+   const [selected, setSelected] = useState<ConversionResult | null>(results[0] ?? null);
+   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+   // Create the preview URL, releasing the previous one when switching documents
+   useEffect(() => {
+      if (!selected) return;
+      const url = URL.createObjectURL(selected.blob);
+      setPreviewUrl(url);
+      return () => URL.revokeObjectURL(url);
+   }, [selected]);
+
+   const totalPages = results.reduce((sum, r) => sum + r.pageCount, 0);
+   const replacedChars = [...new Set(results.flatMap(r => r.replacedChars ?? []))];
+
+   return (
+      <div className="results-list">
+         <div className="results-list__header">
+            <div className="results-list__info">
+               <span className="results-list__icon">🗂️</span>
+               <div>
+                  <h3 className="results-list__title">
+                     {results.length} PDF{results.length !== 1 ? 's' : ''}
+                  </h3>
+                  <p className="results-list__meta">
+                     {totalPages} page{totalPages !== 1 ? 's' : ''} • ZIP {formatFileSize(archiveSize)}
+                  </p>
+                  {skippedFiles && skippedFiles.length > 0 && (
+                     <p className="results-list__skipped">
+                        Skipped {skippedFiles.length} failed file{skippedFiles.length !== 1 ? 's' : ''}: {skippedFiles.join(', ')}
+                     </p>
+                  )}
+                  {replacedChars.length > 0 && (
+                     <p className="results-list__replaced">
+                        Characters the PDF cannot show, such as emoji, were replaced with �: {replacedChars.join(' ')}
+                     </p>
+                  )}
+               </div>
+            </div>
+            <div className="results-list__actions">
+               <button
+                  type="button"
+                  className="btn btn--secondary btn--small"
+                  onClick={onReset}
+               >
+                  Convert More
+               </button>
+               <button
+                  type="button"
+                  className="btn btn--primary btn--small"
+                  onClick={onDownloadArchive}
+               >
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                     <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                     <polyline points="7 10 12 15 17 10" />
+                     <line x1="12" y1="15" x2="12" y2="3" />
+                  </svg>
+                  Download ZIP
+               </button>
+            </div>
+         </div>
+
+         <ul className="results-list__items" aria-label="Converted files">
+            {results.map((result) => (
+               <li
+                  key={result.filename}
+                  className={`result-item ${selected === result ? 'result-item--selected' : ''}`}
+               >
+                  <button
+                     type="button"
+                     className="result-item__preview"
+                     onClick={() => setSelected(result)}
+                     aria-pressed={selected === result}
+                     title="Preview"
+                  >
+                     <span className="result-item__name">{result.filename}</span>
+                     <span className="result-item__meta">
+                        {result.pageCount} page{result.pageCount !== 1 ? 's' : ''} • {formatFileSize(result.blob.size)}
+                     </span>
+                  </button>
+                  <button
+                     type="button"
+                     className="result-item__download"
+                     onClick={() => onDownload(result)}
+                     aria-label={`Download ${result.filename}`}
+                     title="Download PDF"
+                  >
+                     <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                        <polyline points="7 10 12 15 17 10" />
+                        <line x1="12" y1="15" x2="12" y2="3" />
+                     </svg>
+                  </button>
+               </li>
+            ))}
+         </ul>
+
+         {previewUrl && selected && (
+            <div className="results-list__container">
+               <iframe
+                  src={previewUrl}
+                  title={`Preview of ${selected.filename}`}
+                  className="results-list__iframe"
+               />
+            </div>
+         )}
+      </div>
+   );
+}
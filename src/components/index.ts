@@ -3,3 +3,4 @@ export { FileList } from './FileList';
 export { ConversionPanel } from './ConversionPanel';
 export { PdfPreview } from './PdfPreview';
 export { ThemeToggle } from './ThemeToggle';
+export { ResultsList } from './ResultsList';
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCcitt } from './ccitt';
+
+// An 8×2 image: a white row, then a row with pixels 2 to 5 black
+const STRIPE = [0x00, 0x3c];
+
+describe('decodeCcitt', () => {
+   it('decodes Modified Huffman rows, each starting on a byte', () => {
+      // White 8 | pad; white 2, black 4, white 2 | pad
+      const data = new Uint8Array([0b10011000, 0b01110110, 0b11100000]);
+      expect([...decodeCcitt(data, 8, 2, 'mh')]).toEqual(STRIPE);
+   });
+
+   it('decodes one-dimensional Group 3 rows after end-of-line codes', () => {
+      // EOL, white 8; EOL, white 2, black 4, white 2
+      const data = new Uint8Array([0x00, 0x19, 0x80, 0x0b, 0xb7]);
+      expect([...decodeCcitt(data, 8, 2, 'g3')]).toEqual(STRIPE);
+   });
+
+   it('decodes Group 4 rows against the row above', () => {
+      // Row 1: horizontal (white 2, black 4), V0 to the edge. Row 2: V0, V0, V0 (the same row again).
+      const data = new Uint8Array([0b00101110, 0b11111100]);
+      expect([...decodeCcitt(data, 8, 2, 'g4')]).toEqual([0x3c, 0x3c]);
+   });
+
+   it('decodes make-up codes for long runs', () => {
+      // 80 pixels: white 64 (make-up) + white 0, black 16
+      const bits = '11011' + '00110101' + '0000010111';
+      const data = new Uint8Array(Math.ceil(bits.length / 8));
+      for (let i = 0; i < bits.length; i++) {
+         if (bits[i] === '1') data[i >> 3] |= 0x80 >> (i & 7);
+      }
+      expect([...decodeCcitt(data, 80, 1, 'mh')]).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff]);
+   });
+
+   it('leaves the rows after damaged data white', () => {
+      // Row 1 as above; row 2 is a run of zeros that is no valid code
+      const data = new Uint8Array([0b01110110, 0b11100000, 0x00, 0x00]);
+      expect([...decodeCcitt(data, 8, 2, 'mh')]).toEqual([0x3c, 0x00]);
+   });
+});
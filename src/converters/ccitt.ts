@@ -0,0 +1,273 @@
+/**
+ * CCITT fax decoding (ITU-T T.4 and T.6) for bilevel TIFF images:
+ * Modified Huffman, Group 3 one- and two-dimensional, and Group 4
+ */
+
+export type CcittMode = 'mh' | 'g3' | 'g3-2d' | 'g4';
+
+// Run-length codes by run length, as bit strings: terminating codes for 0-63,
+// make-up codes for multiples of 64 up to 1728, and extended make-up codes shared by both colors
+const WHITE_TERMINATING = [
+   '00110101', '000111', '0111', '1000', '1011', '1100', '1110', '1111',
+   '10011', '10100', '00111', '01000', '001000', '000011', '110100', '110101',
+   '101010', '101011', '0100111', '0001100', '0001000', '0010111', '0000011', '0000100',
+   '0101000', '0101011', '0010011', '0100100', '0011000', '00000010', '00000011', '00011010',
+   '00011011', '00010010', '00010011', '00010100', '00010101', '00010110', '00010111', '00101000',
+   '00101001', '00101010', '00101011', '00101100', '00101101', '00000100', '00000101', '00001010',
+   '00001011', '01010010', '01010011', '01010100', '01010101', '00100100', '00100101', '01011000',
+   '01011001', '01011010', '01011011', '01001010', '01001011', '00110010', '00110011', '00110100',
+];
+const WHITE_MAKEUP = [
+   '11011', '10010', '010111', '0110111', '00110110', '00110111', '01100100', '01100101', '01101000',
+   '01100111', '011001100', '011001101', '011010010', '011010011', '011010100', '011010101', '011010110',
+   '011010111', '011011000', '011011001', '011011010', '011011011', '010011000', '010011001', '010011010',
+   '011000', '010011011',
+];
+const BLACK_TERMINATING = [
+   '0000110111', '010', '11', '10', '011', '0011', '0010', '00011',
+   '000101', '000100', '0000100', '0000101', '0000111', '00000100', '00000111', '000011000',
+   '0000010111', '0000011000', '0000001000', '00001100111', '00001101000', '00001101100', '00000110111', '00000101000',
+   '00000010111', '00000011000', '000011001010', '000011001011', '000011001100', '000011001101', '000001101000', '000001101001',
+   '000001101010', '000001101011', '000011010010', '000011010011', '000011010100', '000011010101', '000011010110', '000011010111',
+   '000001101100', '000001101101', '000011011010', '000011011011', '000001010100', '000001010101', '000001010110', '000001010111',
+   '000001100100', '000001100101', '000001010010', '000001010011', '000000100100', '000000110111', '000000111000', '000000100111',
+   '000000101000', '000001011000', '000001011001', '000000101011', '000000101100', '000001011010', '000001100110', '000001100111',
+];
+const BLACK_MAKEUP = [
+   '0000001111', '000011001000', '000011001001', '000001011011', '000000110011', '000000110100', '000000110101',
+   '0000001101100', '0000001101101', '0000001001010', '0000001001011', '0000001001100', '0000001001101', '0000001110010',
+   '0000001110011', '0000001110100', '0000001110101', '0000001110110', '0000001110111', '0000001010010', '0000001010011',
+   '0000001010100', '0000001010101', '0000001011010', '0000001011011', '0000001100100', '0000001100101',
+];
+const EXTENDED_MAKEUP = [
+   '00000001000', '00000001100', '00000001101', '000000010010', '000000010011', '000000010100', '000000010101',
+   '000000010110', '000000010111', '000000011100', '000000011101', '000000011110', '000000011111',
+];
+
+// Two-dimensional coding modes; vertical modes carry the offset of a1 from b1
+type CodingMode = { kind: 'pass' } | { kind: 'horizontal' } | { kind: 'vertical'; offset: number };
+
+const MODE_CODES: [string, CodingMode][] = [
+   ['1', { kind: 'vertical', offset: 0 }],
+   ['011', { kind: 'vertical', offset: 1 }],
+   ['000011', { kind: 'vertical', offset: 2 }],
+   ['0000011', { kind: 'vertical', offset: 3 }],
+   ['010', { kind: 'vertical', offset: -1 }],
+   ['000010', { kind: 'vertical', offset: -2 }],
+   ['0000010', { kind: 'vertical', offset: -3 }],
+   ['001', { kind: 'horizontal' }],
+   ['0001', { kind: 'pass' }],
+];
+
+// Longest code in any table, in bits
+const MAX_CODE_BITS = 13;
+
+// An end-of-line code is eleven zeros and a one, optionally after zero fill bits
+const EOL_ZEROS = 11;
+
+/**
+ * Key of a code in a lookup table: its bits behind a marker bit, so that codes
+ * of different lengths with the same value stay apart
+ */
+function codeKey(bits: string): number {
+   return parseInt('1' + bits, 2);
+}
+
+/**
+ * Build a run-length lookup table for one color
+ */
+function runTable(terminating: string[], makeup: string[]): Map<number, number> {
+   const table = new Map<number, number>();
+   terminating.forEach((bits, run) => table.set(codeKey(bits), run));
+   makeup.forEach((bits, i) => table.set(codeKey(bits), (i + 1) * 64));
+   EXTENDED_MAKEUP.forEach((bits, i) => table.set(codeKey(bits), 1792 + i * 64));
+   return table;
+}
+
+const WHITE_RUNS = runTable(WHITE_TERMINATING, WHITE_MAKEUP);
+const BLACK_RUNS = runTable(BLACK_TERMINATING, BLACK_MAKEUP);
+const MODES = new Map(MODE_CODES.map(([bits, mode]) => [codeKey(bits), mode]));
+
+/**
+ * Reads a fax stream bit by bit, most significant bit first
+ */
+interface BitReader {
+   data: Uint8Array;
+   position: number; // in bits
+}
+
+/**
+ * Read one bit, or -1 past the end of the data
+ */
+function readBit(reader: BitReader): number {
+   const byte = reader.data[reader.position >> 3];
+   if (byte === undefined) return -1;
+   return (byte >> (7 - (reader.position++ & 7))) & 1;
+}
+
+/**
+ * Read bits until they form a code in the table; undefined if none matches
+ */
+function readCode<T>(reader: BitReader, table: Map<number, T>): T | undefined {
+   let key = 1;
+   for (let length = 0; length < MAX_CODE_BITS; length++) {
+      const bit = readBit(reader);
+      if (bit < 0) return undefined;
+
+      key = (key << 1) | bit;
+      const value = table.get(key);
+      if (value !== undefined) return value;
+   }
+   return undefined;
+}
+
+/**
+ * Read a run length of one color: any make-up codes, then a terminating code. -1 on bad data.
+ */
+function readRun(reader: BitReader, black: boolean): number {
+   const table = black ? BLACK_RUNS : WHITE_RUNS;
+   let total = 0;
+
+   for (;;) {
+      const run = readCode(reader, table);
+      if (run === undefined) return -1;
+      total += run;
+      if (run < 64) return total;
+   }
+}
+
+/**
+ * Skip an end-of-line code and the fill bits before it, if one comes next
+ */
+function skipEol(reader: BitReader): boolean {
+   const start = reader.position;
+   let zeros = 0;
+   let bit = readBit(reader);
+   while (bit === 0) {
+      zeros++;
+      bit = readBit(reader);
+   }
+
+   if (bit === 1 && zeros >= EOL_ZEROS) return true;
+   reader.position = start;
+   return false;
+}
+
+/**
+ * Decode a one-dimensional row into its changing elements:
+ * the positions where color changes, starting from white
+ */
+function decodeRow1d(reader: BitReader, width: number): number[] | null {
+   const changes: number[] = [];
+   let x = 0;
+   let black = false;
+
+   while (x < width) {
+      const run = readRun(reader, black);
+      if (run < 0) return null;
+
+      x = Math.min(x + run, width);
+      changes.push(x);
+      black = !black;
+   }
+
+   return changes;
+}
+
+/**
+ * Decode a two-dimensional row against the changing elements of the row above
+ */
+function decodeRow2d(reader: BitReader, reference: number[], width: number): number[] | null {
+   // Changes at the right edge stand in for those past the end of the reference row
+   const ref = [...reference, width, width, width];
+   const changes: number[] = [];
+   let a0 = -1;
+   let black = false;
+   let start = 0;
+
+   while (a0 < width) {
+      // b1: the first change on the reference row right of a0 to the opposite color.
+      // Changes alternate, starting with white to black, so the color follows the index.
+      let i = start;
+      while (i < ref.length - 3 && ref[i] <= a0) i++;
+      if ((i & 1) !== (black ? 1 : 0)) i++;
+      const b1 = ref[i];
+      const b2 = ref[i + 1];
+      start = Math.max(0, i - 1);
+
+      const mode = readCode(reader, MODES);
+      if (!mode) return null;
+
+      if (mode.kind === 'pass') {
+         a0 = b2;
+      } else if (mode.kind === 'horizontal') {
+         const first = readRun(reader, black);
+         const second = first < 0 ? -1 : readRun(reader, !black);
+         if (second < 0) return null;
+
+         const a1 = Math.min(Math.max(a0, 0) + first, width);
+         const a2 = Math.min(a1 + second, width);
+         changes.push(a1, a2);
+         a0 = a2;
+      } else {
+         const a1 = Math.min(Math.max(b1 + mode.offset, 0), width);
+         changes.push(a1);
+         a0 = a1;
+         black = !black;
+      }
+   }
+
+   return changes;
+}
+
+/**
+ * Set the black pixels of a row, one bit per pixel with 1 for black
+ */
+function fillRow(output: Uint8Array, rowStart: number, changes: number[], width: number): void {
+   let x = 0;
+   let black = false;
+
+   for (const change of [...changes, width]) {
+      const end = Math.min(change, width);
+      if (black) {
+         for (let p = x; p < end; p++) output[rowStart + (p >> 3)] |= 0x80 >> (p & 7);
+      }
+      x = Math.max(x, end);
+      black = !black;
+   }
+}
+
+/**
+ * Decode CCITT fax data into rows of packed pixels, one bit each (1 for black),
+ * every row starting on a byte. Decoding stops at damaged data, leaving the
+ * remaining rows white.
+ */
+export function decodeCcitt(data: Uint8Array, width: number, rows: number, mode: CcittMode): Uint8Array {
+   const rowBytes = Math.ceil(width / 8);
+   const output = new Uint8Array(rowBytes * rows);
+   const reader: BitReader = { data, position: 0 };
+   let reference: number[] = [];
+
+   for (let row = 0; row < rows; row++) {
+      let changes: number[] | null;
+
+      if (mode === 'mh') {
+         // Modified Huffman rows start on a byte boundary and have no end-of-line codes
+         reader.position = (reader.position + 7) & ~7;
+         changes = decodeRow1d(reader, width);
+      } else if (mode === 'g4') {
+         changes = decodeRow2d(reader, reference, width);
+      } else {
+         skipEol(reader);
+         // In two-dimensional Group 3, a tag bit says how the row is coded
+         const oneDimensional = mode === 'g3' || readBit(reader) === 1;
+         changes = oneDimensional ? decodeRow1d(reader, width) : decodeRow2d(reader, reference, width);
+      }
+
+      if (!changes) break;
+      fillRow(output, row * rowBytes, changes, width);
+      reference = changes;
+   }
+
+   return output;
+}
@@ -0,0 +1,241 @@
+import type { ConversionOptions } from '../types';
+import { createCanvas, getContext2d, releaseCanvas, escapeHtml } from '../utils';
+import type { PdfPage } from './pdfAssembler';
+import { detectLanguage, highlightCode, languageName } from './highlight';
+import { renderHtmlPages } from './htmlToPdf';
+import { CJK_CHARS } from './fonts';
+import { contentWidth, pageBoxFor } from './pageGeometry';
+
+/**
+ * Piece of highlighted code, with the highlight classes it is nested in (outermost first)
+ */
+interface CodeSegment {
+   text: string;
+   classes: string[];
+}
+
+/**
+ * One printed row of a listing. Rows a long line wraps onto have no number.
+ */
+interface CodeRow {
+   number?: number;
+   segments: CodeSegment[];
+}
+
+// Pixels per mm at 96 DPI
+const PX_PER_MM = 96 / 25.4;
+
+// Listing font, also used to measure how many characters fit on a row
+const FONT_FAMILY = "Consolas, 'Courier New', monospace";
+const FONT_SIZE = 12; // px
+const LINE_HEIGHT = 18; // px
+const TAB_WIDTH = 4;
+
+// Horizontal space around the line numbers: padding on both sides, the rule, and the gap before the code (px)
+const GUTTER_PADDING = 8;
+const GUTTER_RULE = 1;
+const GUTTER_GAP = 8;
+
+// Shown in the gutter of the rows a long line wraps onto
+const WRAP_INDICATOR = '\u21aa';
+
+// CJK characters take two columns in a monospace font
+const WIDE_CHAR = new RegExp(`^[${CJK_CHARS}]$`);
+
+// Characters highlight.js escapes in its output
+const HTML_ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#x27;': "'" };
+
+/**
+ * Replace tabs with spaces up to the next tab stop
+ */
+function expandTabs(line: string): string {
+   if (!line.includes('\t')) return line;
+
+   let expanded = '';
+   for (const char of line) {
+      expanded += char === '\t' ? ' '.repeat(TAB_WIDTH - (expanded.length % TAB_WIDTH)) : char;
+   }
+   return expanded;
+}
+
+/**
+ * Split code into lines with tabs expanded, not counting an empty line after a final line break
+ */
+function splitLines(code: string): { lines: string[]; lineCount: number } {
+   const lines = code.replace(/\r\n?/g, '\n').split('\n').map(expandTabs);
+   return { lines, lineCount: lines[lines.length - 1] === '' ? lines.length - 1 : lines.length };
+}
+
+/**
+ * Number of columns a line takes up
+ */
+function lineColumns(line: string): number {
+   let columns = 0;
+   for (const char of line) {
+      columns += WIDE_CHAR.test(char) ? 2 : 1;
+   }
+   return columns;
+}
+
+/**
+ * Highlight code and flatten the markup into segments of text
+ */
+function highlightSegments(code: string, language: string | null): CodeSegment[] {
+   const html = language ? highlightCode(code, language) : null;
+   if (html === null) return [{ text: code, classes: [] }];
+
+   const segments: CodeSegment[] = [];
+   const classes: string[] = [];
+   for (const [token, className] of html.matchAll(/<span class="([^"]*)">|<\/span>|[^<]+/g)) {
+      if (className !== undefined) {
+         classes.push(className);
+      } else if (token === '</span>') {
+         classes.pop();
+      } else {
+         segments.push({ text: token.replace(/&(?:amp|lt|gt|quot|#x27);/g, entity => HTML_ENTITIES[entity]), classes: [...classes] });
+      }
+   }
+   return segments;
+}
+
+/**
+ * Split segments into numbered lines, wrapping lines longer than the given number of columns
+ */
+function layoutRows(segments: CodeSegment[], columns: number): CodeRow[] {
+   const rows: CodeRow[] = [];
+   let lineNumber = 1;
+   let row: CodeRow = { number: lineNumber, segments: [] };
+   let width = 0;
+
+   const append = (char: string, classes: string[]) => {
+      const last = row.segments[row.segments.length - 1];
+      if (last && last.classes === classes) {
+         last.text += char;
+      } else {
+         row.segments.push({ text: char, classes });
+      }
+   };
+
+   for (const segment of segments) {
+      for (const char of segment.text) {
+         if (char === '\n') {
+            rows.push(row);
+            row = { number: ++lineNumber, segments: [] };
+            width = 0;
+            continue;
+         }
+
+         const charWidth = lineColumns(char);
+         if (width > 0 && width + charWidth > columns) {
+            rows.push(row);
+            row = { segments: [] };
+            width = 0;
+         }
+
+         append(char, segment.classes);
+         width += charWidth;
+      }
+   }
+
+   // A final line break does not start another line
+   if (row.segments.length > 0 || rows.length === 0) rows.push(row);
+   return rows;
+}
+
+/**
+ * Width of one character of the listing font in px
+ */
+function measureCharWidth(): number {
+   const canvas = createCanvas(1, 1);
+   try {
+      const ctx = getContext2d(canvas);
+      ctx.font = `${FONT_SIZE}px ${FONT_FAMILY}`;
+      return ctx.measureText('0'.repeat(100)).width / 100;
+   } finally {
+      releaseCanvas(canvas);
+   }
+}
+
+/**
+ * Width of the line number gutter in px
+ */
+function gutterWidth(lineCount: number, charWidth: number, options: ConversionOptions): number {
+   return (options.lineNumbers ? String(lineCount).length : 1) * charWidth;
+}
+
+/**
+ * Number of characters that fit on a row beside the gutter
+ */
+function rowColumns(lineCount: number, charWidth: number, options: ConversionOptions): number {
+   const width = contentWidth(pageBoxFor(options)) * PX_PER_MM;
+   const gutter = gutterWidth(lineCount, charWidth, options) + GUTTER_PADDING * 2 + GUTTER_RULE + GUTTER_GAP;
+   return Math.max(1, Math.floor((width - gutter) / charWidth));
+}
+
+/**
+ * Rebuild the highlight markup around a segment
+ */
+function segmentHtml(segment: CodeSegment): string {
+   return segment.classes.reduceRight((inner, className) => `<span class="${className}">${inner}</span>`, escapeHtml(segment.text));
+}
+
+/**
+ * Render a source file as an HTML listing: a header with the filename and language,
+ * then the highlighted code with line numbers and wrapped long lines marked in the gutter
+ */
+export function codeToHtml(code: string, fileName: string, options: ConversionOptions): string {
+   const language = detectLanguage(fileName);
+   const { lines, lineCount } = splitLines(code);
+
+   // Wrap at the number of characters that fit beside the gutter
+   const charWidth = measureCharWidth();
+   const columns = rowColumns(lineCount, charWidth, options);
+
+   const rows = layoutRows(highlightSegments(lines.join('\n'), language), columns);
+   const rowsHtml = rows.map((row) => {
+      const gutter = row.number === undefined ? WRAP_INDICATOR : options.lineNumbers ? String(row.number) : '';
+      return `<span class="code-line"><span class="code-line__gutter">${gutter}</span>`
+         + `<span class="code-line__text">${row.segments.map(segmentHtml).join('')}</span></span>`;
+   });
+
+   const details = [language ? languageName(language) : null, `${lineCount} ${lineCount === 1 ? 'line' : 'lines'}`];
+   return `
+    <style>
+      .code-file__header { display: flex; align-items: baseline; gap: 12px; margin: 0 0 8px; padding-bottom: 6px; border-bottom: 2px solid #ddd; }
+      .code-file__name { font-weight: bold; color: #111; word-break: break-all; }
+      .code-file__details { flex: none; margin-left: auto; font-size: 12px; color: #666; }
+      .code-listing { margin: 0; padding: 8px 0; border-left: none; border-right: none; border-radius: 0; font-size: ${FONT_SIZE}px; line-height: ${LINE_HEIGHT}px; }
+      .code-listing code { font-family: ${FONT_FAMILY}; }
+      .code-line { display: flex; min-height: ${LINE_HEIGHT}px; }
+      .code-line__gutter { flex: none; width: ${gutterWidth(lineCount, charWidth, options)}px; padding: 0 ${GUTTER_PADDING}px; margin-right: ${GUTTER_GAP}px; border-right: ${GUTTER_RULE}px solid #ddd; text-align: right; color: #999; }
+      .code-line__text { white-space: pre; }
+    </style>
+    <div class="code-file__header">
+      <span class="code-file__name">${escapeHtml(fileName)}</span>
+      <span class="code-file__details">${details.filter(Boolean).join(' · ')}</span>
+    </div>
+    <pre class="code-listing"><code class="hljs">${rowsHtml.join('')}</code></pre>
+  `;
+}
+
+/**
+ * Render a source file into PDF pages as a highlighted listing.
+ * Automatic orientation turns the page on its side when lines would wrap on an upright one.
+ */
+export function renderCodePages(
+   code: string,
+   fileName: string,
+   options: ConversionOptions,
+   onProgress?: (progress: number) => void,
+   signal?: AbortSignal
+): Promise<PdfPage[]> {
+   let pageOptions = options;
+   if (options.orientation === 'auto') {
+      const { lines, lineCount } = splitLines(code);
+      const portrait: ConversionOptions = { ...options, orientation: 'portrait' };
+      const fits = lines.reduce((max, line) => Math.max(max, lineColumns(line)), 0) <= rowColumns(lineCount, measureCharWidth(), portrait);
+      pageOptions = fits ? portrait : { ...options, orientation: 'landscape' };
+   }
+
+   return renderHtmlPages(codeToHtml(code, fileName, pageOptions), pageOptions, onProgress, signal);
+}
@@ -0,0 +1,387 @@
+import type { CommentMode, RevisionMode } from '../types';
+import { escapeHtml } from '../utils';
+import { contentChildren, R_NS, wAttr, wChild, wChildren, wVal, type Relationship } from './docxXml';
+import {
+   headingLevel,
+   mergeProps,
+   paragraphCss,
+   parseParagraphProps,
+   parseRunProps,
+   resolveStyle,
+   runCss,
+   type DocxStyles,
+   type RunProps,
+} from './docxStyles';
+import { createListCounter, type DocxNumbering } from './docxNumbering';
+import { renderDocxTable } from './docxTable';
+import { renderDrawing, renderPicture } from './docxImages';
+import { noteAnchors, type NoteCounter, type NoteKind, type NoteReference } from './docxNotes';
+
+/**
+ * What all parts of a document share: styles, lists, note numbering and how review markup is shown
+ */
+export interface DocxDocument {
+   styles: DocxStyles;
+   numbering: DocxNumbering;
+   notes: NoteCounter;
+   revisions: RevisionMode;
+   comments: CommentMode;
+}
+
+/**
+ * Everything the body mapper needs while mapping one part (the body, a header, the notes)
+ */
+export interface DocxContext extends DocxDocument {
+   relationships: Map<string, Relationship>;
+   images: Map<string, string>; // data URLs by relationship id
+   nextListItem: ReturnType<typeof createListCounter>;
+   note?: NoteReference; // the note being mapped, inside footnotes.xml or endnotes.xml
+   openComments: Set<string>; // comments whose range covers the current position
+   marginNotes: NoteReference[]; // comments referenced since the last margin notes were placed
+}
+
+/**
+ * A complex field (w:fldChar begin … separate … end) being read
+ */
+interface OpenField {
+   instruction: string;
+   hasResult: boolean;
+}
+
+// A run-level page break; a zero-height block so the paginator sees it
+const PAGE_BREAK = '<span style="display: block; break-before: page"></span>';
+
+// How tracked changes are shown in markup mode
+const INSERTION_CSS = 'color: #1d6fa5; text-decoration: underline';
+const DELETION_CSS = 'color: #b3261e; text-decoration: line-through';
+
+// Background of text that has a comment on it
+const COMMENT_HIGHLIGHT = 'background-color: #fff1a8';
+
+/**
+ * Create the mapping context for one part of a document
+ */
+export function createDocxContext(
+   document: DocxDocument,
+   part: { relationships: Map<string, Relationship>; images: Map<string, string> }
+): DocxContext {
+   return {
+      ...document,
+      relationships: part.relationships,
+      images: part.images,
+      nextListItem: createListCounter(document.numbering),
+      openComments: new Set(),
+      marginNotes: [],
+   };
+}
+
+/**
+ * Whether an insertion or deletion shows: accepting keeps insertions, rejecting keeps deletions
+ */
+function revisionShown(kind: 'ins' | 'del', revisions: RevisionMode): boolean {
+   return revisions === 'markup' || (revisions === 'accept') === (kind === 'ins');
+}
+
+/**
+ * Whether a table row shows: rows can be inserted or deleted as a whole (w:trPr/w:ins, w:trPr/w:del)
+ */
+function rowShown(row: Element, revisions: RevisionMode): boolean {
+   const trPr = wChild(row, 'trPr');
+   const kind = wChild(trPr, 'ins') ? 'ins' : wChild(trPr, 'del') ? 'del' : null;
+   return !kind || revisionShown(kind, revisions);
+}
+
+/**
+ * The properties in effect for a run or paragraph. Rejecting revisions rolls back
+ * formatting changes, whose w:rPrChange or w:pPrChange holds the previous properties.
+ */
+function currentProps(props: Element | null, context: DocxContext): Element | null {
+   if (context.revisions !== 'reject' || !props) return props;
+
+   const change = wChild(props, `${props.localName}Change`);
+   return wChild(change, props.localName) ?? props;
+}
+
+/**
+ * The page field a field instruction shows, if any ("PAGE", "NUMPAGES \* Arabic", ...).
+ * These are filled in per page when headers and footers are drawn.
+ */
+function pageField(instruction: string): 'page' | 'pages' | null {
+   const name = instruction.trim().split(/\s+/)[0]?.toUpperCase();
+   if (name === 'PAGE') return 'page';
+   if (name === 'NUMPAGES' || name === 'SECTIONPAGES') return 'pages';
+   return null;
+}
+
+/**
+ * A link from a note reference in the text to the note
+ */
+function noteMark(kind: NoteKind, reference: Element, context: DocxContext): string {
+   const note = context.notes.reference(kind, wAttr(reference, 'id') ?? '');
+   const anchors = noteAnchors(note);
+
+   // With a custom mark, the mark is the text of the runs that follow
+   const label = ['1', 'true', 'on'].includes(wAttr(reference, 'customMarkFollows') ?? '') ? '' : note.label;
+   return `<a id="${anchors.mark}" href="#${anchors.note}">${escapeHtml(label)}</a>`;
+}
+
+/**
+ * A bracketed link from the end of a comment's range to the comment, which is
+ * also queued as a margin note when comments go in the margin
+ */
+function commentMark(reference: Element, context: DocxContext): string {
+   if (context.comments === 'hide') return '';
+
+   const comment = context.notes.reference('comment', wAttr(reference, 'id') ?? '');
+   if (context.comments === 'margin') context.marginNotes.push(comment);
+
+   const anchors = noteAnchors(comment);
+   return `<a id="${anchors.mark}" href="#${anchors.note}" style="vertical-align: super; font-size: 0.7em">`
+      + `[${escapeHtml(comment.label)}]</a>`;
+}
+
+/**
+ * Wrap markup in a span carrying inline CSS, if there is any
+ */
+function styledSpan(css: string, html: string): string {
+   return css ? `<span style="${css}">${html}</span>` : html;
+}
+
+/**
+ * Map the content of a run (text, tabs, breaks, pictures) to HTML
+ */
+function renderRun(run: Element, context: DocxContext, paragraphRun: RunProps): string {
+   const rPr = currentProps(wChild(run, 'rPr'), context);
+   const props = mergeProps(
+      resolveStyle(context.styles, wVal(rPr, 'rStyle')).run,
+      parseRunProps(rPr, context.styles.themeFonts)
+   );
+   if (mergeProps(paragraphRun, props).hidden) return '';
+
+   let html = '';
+   for (const child of contentChildren(run)) {
+      switch (child.localName) {
+         case 't':
+         case 'delText':
+            html += escapeHtml(child.textContent ?? '');
+            break;
+         case 'tab':
+            html += '\t';
+            break;
+         case 'br':
+            html += wAttr(child, 'type') === 'page' ? PAGE_BREAK : '<br>';
+            break;
+         case 'cr':
+            html += '<br>';
+            break;
+         case 'noBreakHyphen':
+            html += '\u2011';
+            break;
+         case 'softHyphen':
+            html += '\u00ad';
+            break;
+         case 'drawing':
+            html += renderDrawing(child, context.images);
+            break;
+         case 'pict':
+            html += renderPicture(child, context.images);
+            break;
+         case 'footnoteReference':
+         case 'endnoteReference':
+            html += noteMark(child.localName === 'footnoteReference' ? 'footnote' : 'endnote', child, context);
+            break;
+         case 'footnoteRef':
+         case 'endnoteRef':
+            // The note's own mark links back to where it is referenced
+            if (context.note) html += `<a href="#${noteAnchors(context.note).mark}">${escapeHtml(context.note.label)}</a>`;
+            break;
+         case 'commentReference':
+            html += commentMark(child, context);
+            break;
+         case 'sym': {
+            // Symbol-font characters live in the private-use area; keep only ordinary ones
+            const code = parseInt(wAttr(child, 'char') ?? '', 16);
+            if (code && (code < 0xe000 || code > 0xf8ff)) html += escapeHtml(String.fromCodePoint(code));
+            break;
+         }
+      }
+   }
+
+   const highlight = context.comments !== 'hide' && context.openComments.size > 0 ? COMMENT_HIGHLIGHT : '';
+   return html && styledSpan([runCss(props), highlight].filter(Boolean).join('; '), html);
+}
+
+/**
+ * Map inserted or deleted content according to the revision mode
+ */
+function renderRevision(kind: 'ins' | 'del', element: Element, context: DocxContext, paragraphRun: RunProps): string {
+   if (!revisionShown(kind, context.revisions)) return '';
+
+   const content = renderInline(contentChildren(element), context, paragraphRun);
+   if (context.revisions !== 'markup' || !content) return content;
+
+   const author = wAttr(element, 'author');
+   const title = author ? ` title="${escapeHtml(author)}"` : '';
+   return `<${kind} style="${kind === 'ins' ? INSERTION_CSS : DELETION_CSS}"${title}>${content}</${kind}>`;
+}
+
+/**
+ * Track where commented ranges start and end, so the text they cover can be highlighted
+ */
+function trackCommentRange(element: Element, context: DocxContext): void {
+   const id = wAttr(element, 'id') ?? '';
+   if (element.localName === 'commentRangeStart') context.openComments.add(id);
+   else context.openComments.delete(id);
+}
+
+/**
+ * Map the inline content of a paragraph (runs, links, fields, content controls).
+ * Field instructions are dropped and their last calculated result is shown,
+ * except page fields, which are marked so they can be filled in per page.
+ */
+function renderInline(elements: Element[], context: DocxContext, paragraphRun: RunProps): string {
+   let html = '';
+   const fields: OpenField[] = [];
+
+   for (const element of elements) {
+      switch (element.localName) {
+         case 'r': {
+            const field = fields[fields.length - 1];
+            const fieldChar = wAttr(wChild(element, 'fldChar'), 'fldCharType');
+
+            if (fieldChar === 'begin') {
+               fields.push({ instruction: '', hasResult: false });
+            } else if (fieldChar === 'separate' && field) {
+               field.hasResult = true;
+               const name = pageField(field.instruction);
+               if (name) html += `<span data-field="${name}">`;
+            } else if (fieldChar === 'end' && field) {
+               fields.pop();
+               const name = pageField(field.instruction);
+               if (name) html += field.hasResult ? '</span>' : `<span data-field="${name}"></span>`;
+            } else if (field && !field.hasResult) {
+               field.instruction += wChildren(element, 'instrText').map(text => text.textContent ?? '').join('');
+            } else {
+               html += renderRun(element, context, paragraphRun);
+            }
+            break;
+         }
+         case 'hyperlink': {
+            const content = renderInline(contentChildren(element), context, paragraphRun);
+            const rel = context.relationships.get(element.getAttributeNS(R_NS, 'id') ?? '');
+            const anchor = wAttr(element, 'anchor');
+            const href = rel?.external ? rel.target : anchor ? `#${anchor}` : null;
+            html += href ? `<a href="${escapeHtml(href)}">${content}</a>` : content;
+            break;
+         }
+         case 'sdt':
+            html += renderInline(contentChildren(wChild(element, 'sdtContent')), context, paragraphRun);
+            break;
+         case 'fldSimple': {
+            const content = renderInline(contentChildren(element), context, paragraphRun);
+            const name = pageField(wAttr(element, 'instr') ?? '');
+            html += name ? `<span data-field="${name}">${content}</span>` : content;
+            break;
+         }
+         case 'bookmarkStart': {
+            // Target of internal links (including table of contents entries); _GoBack only marks the last edit
+            const name = wAttr(element, 'name');
+            if (name && name !== '_GoBack') html += `<a id="${escapeHtml(name)}"></a>`;
+            break;
+         }
+         case 'ins':
+         case 'moveTo':
+            html += renderRevision('ins', element, context, paragraphRun);
+            break;
+         case 'del':
+         case 'moveFrom':
+            html += renderRevision('del', element, context, paragraphRun);
+            break;
+         case 'commentRangeStart':
+         case 'commentRangeEnd':
+            trackCommentRange(element, context);
+            break;
+         case 'smartTag':
+         case 'customXml':
+            html += renderInline(contentChildren(element), context, paragraphRun);
+            break;
+      }
+   }
+
+   return html;
+}
+
+/**
+ * Map a paragraph to a heading or <p>, with its list label if it is numbered
+ */
+function renderParagraph(paragraph: Element, context: DocxContext): string {
+   const { styles } = context;
+   const markProps = wChild(wChild(paragraph, 'pPr'), 'rPr');
+   const pPr = currentProps(wChild(paragraph, 'pPr'), context);
+   const styleId = wVal(pPr, 'pStyle') ?? styles.defaultParagraphStyle;
+   const style = resolveStyle(styles, styleId);
+   const direct = parseParagraphProps(pPr);
+
+   let props = mergeProps(styles.defaultParagraph, style.paragraph, direct);
+   const paragraphRun = mergeProps(styles.defaultRun, style.run);
+
+   const content = renderInline(contentChildren(paragraph).filter(c => c.localName !== 'pPr'), context, paragraphRun);
+
+   // A paragraph that was inserted or deleted as a whole disappears along with its mark
+   const markRevision = wChild(markProps, 'ins') ? 'ins' : wChild(markProps, 'del') ? 'del' : null;
+   if (!content && markRevision && !revisionShown(markRevision, context.revisions)) return '';
+
+   // List items take their indent from the list level, then from the paragraph itself
+   let label = '';
+   const item = props.numId && props.numId !== '0' ? context.nextListItem(props.numId, props.ilvl ?? 0) : null;
+   if (item) {
+      props = mergeProps(styles.defaultParagraph, style.paragraph, item.level.paragraph, direct);
+
+      // Bullets are mapped to ordinary characters, so drop the symbol font
+      const labelRun = item.level.format === 'bullet' ? { ...item.level.run, font: undefined } : item.level.run;
+      const hanging = props.firstLine !== undefined && props.firstLine < 0 ? -props.firstLine : 0;
+      const width = hanging > 0 ? `display: inline-block; min-width: ${hanging}pt; text-indent: 0` : 'margin-right: 0.5em';
+      label = `<span style="${[runCss(labelRun), width].filter(Boolean).join('; ')}">${escapeHtml(item.label)}</span>`;
+   }
+
+   const level = headingLevel(styles, styleId, props);
+   const tag = level ? `h${level}` : 'p';
+   const css = [paragraphCss(props), runCss(paragraphRun), 'white-space: pre-wrap'].filter(Boolean).join('; ');
+
+   return `<${tag} style="${css}">${label}${content || '<br>'}</${tag}>`;
+}
+
+/**
+ * Map block-level content (paragraphs, tables, content controls) to HTML
+ */
+export function renderBlocks(elements: Element[], context: DocxContext): string {
+   const html: string[] = [];
+
+   for (const element of elements) {
+      switch (element.localName) {
+         case 'p':
+            html.push(renderParagraph(element, context));
+            break;
+         case 'tbl':
+            html.push(renderDocxTable(
+               element,
+               context.styles,
+               cell => renderBlocks(contentChildren(cell), context),
+               row => rowShown(row, context.revisions)
+            ));
+            break;
+         case 'sdt':
+            html.push(renderBlocks(contentChildren(wChild(element, 'sdtContent')), context));
+            break;
+         case 'customXml':
+            html.push(renderBlocks(contentChildren(element), context));
+            break;
+         case 'commentRangeStart':
+         case 'commentRangeEnd':
+            trackCommentRange(element, context);
+            break;
+      }
+   }
+
+   return html.join('\n');
+}
@@ -1,199 +1,380 @@
 import * as JSZip from 'jszip';
-import type { ConversionOptions, ConversionResult } from '../types';
-import { readAsArrayBuffer } from '../utils';
-import { htmlToPdf } from './htmlToPdf';
+import type { ConversionOptions } from '../types';
+import { readAsArrayBuffer, throwIfAborted, ConversionError, escapeHtml } from '../utils';
+import { addPageRegions, type PageRegions, type RunningContent } from './pageRegions';
+import { layoutHtmlPages, type HtmlLayout } from './htmlToPdf';
+import type { PdfPage } from './pdfAssembler';
+import {
+   contentChildren,
+   parseRelationships,
+   parseXml,
+   R_NS,
+   wAttr,
+   wChild,
+   wChildren,
+   wToggle,
+   wVal,
+   type Relationship,
+} from './docxXml';
+import { parseStyles } from './docxStyles';
+import { parseNumbering } from './docxNumbering';
+import { createDocxContext, renderBlocks, type DocxDocument } from './docxBody';
+import { loadDocxImages } from './docxImages';
+import {
+   commentHeading,
+   createNoteCounter,
+   renderMarginNote,
+   renderNotes,
+   withMarginColumn,
+   type NoteReference,
+} from './docxNotes';
 
 /**
- * Extract text content from DOCX document.xml
+ * A section of a DOCX document as HTML, with its page setup as an @page rule
+ * and the headers and footers to draw on its pages
  */
-function extractTextFromXml(xml: string): string {
-   // Remove namespaces for easier parsing
-   const cleanXml = xml.replace(/<[^:>]+:/g, '<').replace(/<\/[^:>]+:/g, '</');
+export interface DocxSection {
+   html: string;
+   regions?: PageRegions;
+}
 
-   const paragraphs: string[] = [];
+/**
+ * A DOCX document as HTML, one entry per section, in order
+ */
+export interface DocxContent {
+   sections: DocxSection[];
+}
 
-   // Match paragraph elements
-   const pMatches = cleanXml.match(/<p[^>]*>[\s\S]*?<\/p>/g) || [];
+/**
+ * Rendered body blocks of a section, up to and including the one whose w:sectPr ends it.
+ * sectPrs lists that w:sectPr and those of any continuous sections merged into it.
+ */
+interface SectionBlocks {
+   blocks: string[];
+   sectPrs: Element[];
+   hasMarginNotes: boolean;
+}
 
-   for (const pMatch of pMatches) {
-      // Extract text from <t> elements within paragraph
-      const textMatches = pMatch.match(/<t[^>]*>([^<]*)<\/t>/g) || [];
-      const paragraphText = textMatches
-         .map(t => t.replace(/<t[^>]*>/, '').replace(/<\/t>/, ''))
-         .join('');
+/**
+ * Header or footer part ids by type (default, first, even), for one kind of running content
+ */
+type RunningReferences = Map<string, string>;
 
-      if (paragraphText.trim()) {
-         paragraphs.push(paragraphText);
-      } else {
-         // Empty paragraph = line break
-         paragraphs.push('');
-      }
-   }
+/**
+ * A parsed XML part with the relationships and images it refers to
+ */
+interface DocxPart {
+   root: Element;
+   relationships: Map<string, Relationship>;
+   images: Map<string, string>;
+}
 
-   return paragraphs.join('\n');
+// Word's default header and footer distance from the page edge: 0.5in (twips)
+const DEFAULT_REGION_DISTANCE = 720;
+
+// Twips (twentieths of a point) per mm
+const TWIPS_PER_MM = 1440 / 25.4;
+
+/**
+ * Read a part of the package as text, or null if it is missing
+ */
+async function readPart(zip: JSZip, path: string | undefined): Promise<string | null> {
+   const part = path ? zip.file(path) : null;
+   return part ? part.async('string') : null;
 }
 
 /**
- * Extract images from DOCX word/media folder
+ * Read and parse a part along with its own relationships ("word/_rels/header1.xml.rels") and images
  */
-async function extractImages(zip: JSZip): Promise<Map<string, string>> {
-   const images = new Map<string, string>();
-   const mediaFolder = zip.folder('word/media');
+async function loadPart(zip: JSZip, path: string): Promise<DocxPart | null> {
+   const xml = await readPart(zip, path);
+   if (xml === null) return null;
 
-   if (!mediaFolder) return images;
+   const slash = path.lastIndexOf('/');
+   const name = path.slice(slash + 1);
+   const root = parseXml(xml, name).documentElement;
+   const relationships = parseRelationships(await readPart(zip, `${path.slice(0, slash + 1)}_rels/${name}.rels`));
+   const images = await loadDocxImages(zip, root, relationships);
 
-   const imageFiles = Object.keys(zip.files).filter(
-      name => name.startsWith('word/media/') && /\.(png|jpg|jpeg|gif|webp)$/i.test(name)
-   );
+   return { root, relationships, images };
+}
 
-   for (const imagePath of imageFiles) {
-      try {
-         const file = zip.file(imagePath);
-         if (file) {
-            const data = await file.async('base64');
-            const ext = imagePath.split('.').pop()?.toLowerCase() || 'png';
-            const mimeType = ext === 'jpg' ? 'jpeg' : ext;
-            images.set(imagePath, `data:image/${mimeType};base64,${data}`);
-         }
-      } catch {
-         // Skip failed images
-      }
+/**
+ * Find the target of the document's relationship of a given type (styles, numbering, theme, ...)
+ */
+function findPart(relationships: Map<string, Relationship>, type: string, fallback: string): string {
+   for (const rel of relationships.values()) {
+      if (!rel.external && rel.type.endsWith(`/${type}`)) return rel.target;
    }
+   return fallback;
+}
 
-   return images;
+/**
+ * Read a length attribute in twips; negative margins (exact rather than minimum) count as positive
+ */
+function twips(element: Element | null, name: string): number | undefined {
+   const value = parseFloat(wAttr(element, name) ?? '');
+   return isNaN(value) ? undefined : Math.abs(value);
 }
 
 /**
- * Convert extracted content to basic HTML
+ * An @page rule for the section's paper size and margins, so pages match the document
  */
-function contentToHtml(text: string, images: Map<string, string>): string {
-   // Escape HTML entities
-   let html = text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;');
-
-   // Convert paragraphs
-   html = html
-      .split('\n')
-      .map(line => `<p>${line || '&nbsp;'}</p>`)
-      .join('\n');
-
-   // Add images at the end if any
-   if (images.size > 0) {
-      html += '<div style="margin-top: 24px;">';
-      html += '<h3>Extracted Images</h3>';
-      for (const [, dataUrl] of images) {
-         html += `<img src="${dataUrl}" style="max-width: 100%; margin: 8px 0;" alt="Extracted image" />`;
-      }
-      html += '</div>';
+function pageSetupStyle(sectPr: Element | null): string {
+   const pgSz = wChild(sectPr, 'pgSz');
+   const pgMar = wChild(sectPr, 'pgMar');
+   const rules: string[] = [];
+
+   const width = twips(pgSz, 'w');
+   const height = twips(pgSz, 'h');
+   if (width && height) rules.push(`size: ${width / 20}pt ${height / 20}pt`);
+
+   for (const side of ['top', 'right', 'bottom', 'left']) {
+      const margin = twips(pgMar, side);
+      if (margin !== undefined) rules.push(`margin-${side}: ${margin / 20}pt`);
    }
 
-   return html;
+   return rules.length > 0 ? `<style>@page { ${rules.join('; ')} }</style>` : '';
 }
 
 /**
- * Extract content from DOCX and convert to PDF
- * Note: This is a basic extraction without formatting preservation
+ * Update the header or footer references in effect with those a section gives.
+ * A section that leaves out a type keeps the previous section's part for it.
  */
-export async function docxToPdf(
-   file: File,
-   options: ConversionOptions,
-   onProgress?: (progress: number) => void
-): Promise<ConversionResult> {
-   onProgress?.(10);
+function inheritReferences(
+   inherited: RunningReferences,
+   sectPr: Element,
+   kind: 'header' | 'footer'
+): RunningReferences {
+   const references = new Map(inherited);
+   for (const reference of wChildren(sectPr, `${kind}Reference`)) {
+      references.set(wAttr(reference, 'type') ?? 'default', reference.getAttributeNS(R_NS, 'id') ?? '');
+   }
+   return references;
+}
+
+/**
+ * Map the header or footer parts a section refers to. The first-page variant is used only
+ * when the section has a title page, and the even-page variant only when the document
+ * has different odd and even headers; a missing variant then leaves those pages blank.
+ */
+async function readRunningContent(
+   zip: JSZip,
+   sectPr: Element | null,
+   references: RunningReferences,
+   documentPart: DocxPart,
+   docx: DocxDocument,
+   evenAndOddHeaders: boolean
+): Promise<RunningContent | undefined> {
+   const render = async (type: string): Promise<string | undefined> => {
+      const rel = documentPart.relationships.get(references.get(type) ?? '');
+      const part = rel && !rel.external ? await loadPart(zip, rel.target) : null;
+      if (!part) return undefined;
+
+      return renderBlocks(contentChildren(part.root), createDocxContext(docx, part));
+   };
+
+   const content: RunningContent = { default: await render('default') };
+   if (wToggle(sectPr, 'titlePg')) content.first = await render('first') ?? '';
+   if (evenAndOddHeaders) content.even = await render('even') ?? '';
 
+   return content.default || content.first || content.even ? content : undefined;
+}
+
+/**
+ * Heading used to separate documents when several are combined
+ */
+export function docxHeading(filename: string): string {
+   return `<h1 style="border-bottom: 2px solid #ddd; padding-bottom: 8px;">${escapeHtml(filename)}</h1>`;
+}
+
+/**
+ * Extract the content of a DOCX file as HTML markup, one part per section, with its
+ * footnotes and endnotes after the body, and each section's headers and footers as
+ * page regions. Tracked changes and comments are shown as the options ask.
+ */
+export async function docxToHtml(
+   file: File,
+   options: Pick<ConversionOptions, 'revisions' | 'comments'>,
+   signal?: AbortSignal
+): Promise<DocxContent> {
    // Read DOCX as ArrayBuffer
    const arrayBuffer = await readAsArrayBuffer(file);
-   onProgress?.(20);
+   throwIfAborted(signal);
 
    // Parse as ZIP
-   const zip = await JSZip.loadAsync(arrayBuffer);
-   onProgress?.(30);
+   let zip: JSZip;
+   try {
+      zip = await JSZip.loadAsync(arrayBuffer);
+   } catch {
+      throw new ConversionError('corrupt-docx', 'Invalid DOCX file: not a valid ZIP archive');
+   }
+   throwIfAborted(signal);
 
    // Extract document.xml
-   const documentXml = zip.file('word/document.xml');
-   if (!documentXml) {
-      throw new Error('Invalid DOCX file: missing document.xml');
+   const documentPart = await loadPart(zip, 'word/document.xml');
+   if (!documentPart) {
+      throw new ConversionError('corrupt-docx', 'Invalid DOCX file: missing document.xml');
    }
+   throwIfAborted(signal);
+
+   const { relationships } = documentPart;
+   const [stylesXml, numberingXml, themeXml, settingsXml] = await Promise.all([
+      readPart(zip, findPart(relationships, 'styles', 'word/styles.xml')),
+      readPart(zip, findPart(relationships, 'numbering', 'word/numbering.xml')),
+      readPart(zip, findPart(relationships, 'theme', 'word/theme/theme1.xml')),
+      readPart(zip, findPart(relationships, 'settings', 'word/settings.xml')),
+   ]);
+   throwIfAborted(signal);
+
+   const styles = parseStyles(stylesXml, themeXml);
+   const docx: DocxDocument = {
+      styles,
+      numbering: parseNumbering(numberingXml, styles.themeFonts),
+      notes: createNoteCounter(),
+      revisions: options.revisions,
+      comments: options.comments,
+   };
+   const { notes } = docx;
+
+   const commentsPart = options.comments !== 'hide'
+      ? await loadPart(zip, findPart(relationships, 'comments', 'word/comments.xml'))
+      : null;
+   const renderComment = (comment: Element, reference: NoteReference) =>
+      commentHeading(comment, reference) + renderBlocks(contentChildren(comment), createDocxContext(docx, commentsPart!));
+
+   // Each section ends with the paragraph carrying its w:sectPr; the last one's is the body's own.
+   // Comments in the margin are placed level with the top-level block they were referenced from.
+   const context = createDocxContext(docx, documentPart);
+   const body = wChild(documentPart.root, 'body');
+   const sectionBlocks: SectionBlocks[] = [{ blocks: [], sectPrs: [], hasMarginNotes: false }];
+
+   for (const block of contentChildren(body)) {
+      const section = sectionBlocks[sectionBlocks.length - 1];
+      if (block.localName === 'sectPr') {
+         section.sectPrs.push(block);
+         continue;
+      }
 
-   const xmlContent = await documentXml.async('string');
-   onProgress?.(40);
-
-   // Extract text content
-   const text = extractTextFromXml(xmlContent);
-   onProgress?.(50);
-
-   // Extract images
-   const images = await extractImages(zip);
-   onProgress?.(60);
-
-   // Convert to HTML
-   const html = contentToHtml(text, images);
-
-   // Create a fake HTML file for the htmlToPdf converter
-   const htmlBlob = new Blob([html], { type: 'text/html' });
-   const htmlFile = new File([htmlBlob], file.name.replace('.docx', '.html'), { type: 'text/html' });
+      const blockHtml = renderBlocks([block], context);
+      const marginNotes = context.marginNotes.splice(0).map(reference => {
+         const comment = wChildren(commentsPart?.root, 'comment').find(c => wAttr(c, 'id') === reference.id);
+         return comment ? renderMarginNote(reference, renderComment(comment, reference)) : '';
+      }).join('');
 
-   // Convert HTML to PDF
-   const result = await htmlToPdf(htmlFile, options, (progress) => {
-      onProgress?.(60 + progress * 0.4);
-   });
+      section.hasMarginNotes ||= marginNotes !== '';
+      section.blocks.push(marginNotes + blockHtml);
 
-   return {
-      ...result,
-      filename: file.name.replace('.docx', '.pdf'),
-   };
-}
+      const sectPr = block.localName === 'p' ? wChild(wChild(block, 'pPr'), 'sectPr') : null;
+      if (sectPr) {
+         section.sectPrs.push(sectPr);
+         sectionBlocks.push({ blocks: [], sectPrs: [], hasMarginNotes: false });
+      }
+   }
 
-/**
- * Convert multiple DOCX files to a single PDF
- */
-export async function docxsToSinglePdf(
-   files: File[],
-   options: ConversionOptions,
-   onProgress?: (progress: number) => void
-): Promise<ConversionResult> {
-   if (files.length === 0) {
-      throw new Error('No files to convert');
+   // A continuous section carries on down the same page, so it joins the section before it.
+   // A section with no content (a body sectPr straight after a section break) prints nothing.
+   const groups: SectionBlocks[] = [];
+   for (const section of sectionBlocks) {
+      const previous = groups[groups.length - 1];
+      if (previous && section.blocks.length === 0) continue;
+
+      if (previous && wVal(section.sectPrs[0], 'type') === 'continuous') {
+         previous.blocks.push(...section.blocks);
+         previous.sectPrs.push(...section.sectPrs);
+         previous.hasMarginNotes ||= section.hasMarginNotes;
+      } else {
+         groups.push(section);
+      }
    }
 
-   // For multiple files, we'll extract all content and combine
-   const allHtmlParts: string[] = [];
+   const sectionHtml = groups.map(({ blocks, hasMarginNotes }) =>
+      hasMarginNotes ? withMarginColumn(blocks.join('\n')) : blocks.join('\n')
+   );
+   const notesHtml: string[] = [];
 
-   for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      onProgress?.((i / files.length) * 50);
+   // Notes come after the body, numbered in the order the text refers to them
+   for (const kind of ['footnote', 'endnote'] as const) {
+      if (!notes.references.some(reference => reference.kind === kind)) continue;
 
-      const arrayBuffer = await readAsArrayBuffer(file);
-      const zip = await JSZip.loadAsync(arrayBuffer);
+      const part = await loadPart(zip, findPart(relationships, `${kind}s`, `word/${kind}s.xml`));
+      if (!part) continue;
 
-      const documentXml = zip.file('word/document.xml');
-      if (!documentXml) continue;
+      notesHtml.push(renderNotes(kind, part.root, notes.references, (note, reference) =>
+         renderBlocks(contentChildren(note), { ...createDocxContext(docx, part), note: reference })
+      ));
+   }
 
-      const xmlContent = await documentXml.async('string');
-      const text = extractTextFromXml(xmlContent);
-      const images = await extractImages(zip);
+   if (commentsPart && options.comments === 'endnotes') {
+      notesHtml.push(renderNotes('comment', commentsPart.root, notes.references, renderComment));
+   }
+   throwIfAborted(signal);
+
+   // Notes and comments follow the body, at the end of the last section
+   sectionHtml[sectionHtml.length - 1] = [sectionHtml[sectionHtml.length - 1], ...notesHtml].join('\n');
+
+   // Each section takes its page setup from the last w:sectPr merged into it
+   const evenAndOddHeaders = settingsXml !== null
+      && wToggle(parseXml(settingsXml, 'settings.xml').documentElement, 'evenAndOddHeaders') === true;
+   let headerReferences: RunningReferences = new Map();
+   let footerReferences: RunningReferences = new Map();
+   const sections: DocxSection[] = [];
+
+   for (let i = 0; i < groups.length; i++) {
+      for (const sectPr of groups[i].sectPrs) {
+         headerReferences = inheritReferences(headerReferences, sectPr, 'header');
+         footerReferences = inheritReferences(footerReferences, sectPr, 'footer');
+      }
 
-      // Add file separator
-      allHtmlParts.push(`<h1 style="border-bottom: 2px solid #ddd; padding-bottom: 8px;">${file.name}</h1>`);
-      allHtmlParts.push(contentToHtml(text, images));
-      allHtmlParts.push('<div style="page-break-after: always;"></div>');
+      const sectPr = groups[i].sectPrs[groups[i].sectPrs.length - 1] ?? null;
+      const pgMar = wChild(sectPr, 'pgMar');
+      const [header, footer] = await Promise.all([
+         readRunningContent(zip, sectPr, headerReferences, documentPart, docx, evenAndOddHeaders),
+         readRunningContent(zip, sectPr, footerReferences, documentPart, docx, evenAndOddHeaders),
+      ]);
+      throwIfAborted(signal);
+
+      sections.push({
+         html: pageSetupStyle(sectPr) + sectionHtml[i],
+         regions: header || footer ? {
+            header,
+            footer,
+            headerDistance: (twips(pgMar, 'header') ?? DEFAULT_REGION_DISTANCE) / TWIPS_PER_MM,
+            footerDistance: (twips(pgMar, 'footer') ?? DEFAULT_REGION_DISTANCE) / TWIPS_PER_MM,
+         } : undefined,
+      });
    }
 
-   onProgress?.(50);
+   return { sections };
+}
 
-   // Combine and convert
-   const combinedHtml = allHtmlParts.join('\n');
-   const htmlBlob = new Blob([combinedHtml], { type: 'text/html' });
-   const htmlFile = new File([htmlBlob], 'combined.html', { type: 'text/html' });
+/**
+ * Render a DOCX document into PDF pages, each section on its own pages with its own
+ * page setup, headers and footers. Page numbers run on through the whole document.
+ */
+export async function renderDocxPages(
+   content: DocxContent,
+   options: ConversionOptions,
+   onProgress?: (progress: number) => void,
+   signal?: AbortSignal
+): Promise<PdfPage[]> {
+   const { sections } = content;
+   const layouts: HtmlLayout[] = [];
+
+   for (let i = 0; i < sections.length; i++) {
+      layouts.push(await layoutHtmlPages(sections[i].html, options, (progress) => {
+         onProgress?.(((i + progress / 100) / sections.length) * 100);
+      }, signal));
+   }
 
-   const result = await htmlToPdf(htmlFile, options, (progress) => {
-      onProgress?.(50 + progress * 0.5);
-   });
+   const count = layouts.reduce((total, layout) => total + layout.pages.length, 0);
+   let first = 1;
+   for (let i = 0; i < sections.length; i++) {
+      const { pages, pageBox } = layouts[i];
+      const regions = sections[i].regions;
+      if (regions) await addPageRegions(pages, regions, pageBox, options, signal, { first, count });
+      first += pages.length;
+   }
 
-   return {
-      ...result,
-      filename: 'converted-documents.pdf',
-   };
+   return layouts.flatMap(layout => layout.pages);
 }
@@ -0,0 +1,113 @@
+import type JSZip from 'jszip';
+import { escapeHtml } from '../utils';
+import { R_NS, type Relationship } from './docxXml';
+
+const DRAWINGML_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const WP_NS = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const VML_NS = 'urn:schemas-microsoft-com:vml';
+
+// EMUs (English Metric Units) per point
+const EMU_PER_PT = 12700;
+
+// Image formats the browser can draw, by file extension
+const IMAGE_MIME_TYPES: Record<string, string> = {
+   png: 'image/png',
+   jpg: 'image/jpeg',
+   jpeg: 'image/jpeg',
+   gif: 'image/gif',
+   bmp: 'image/bmp',
+   webp: 'image/webp',
+   svg: 'image/svg+xml',
+};
+
+/**
+ * Relationship ids of every image a part refers to (DrawingML blips and legacy VML image data)
+ */
+function referencedImageIds(root: Element): Set<string> {
+   const ids = new Set<string>();
+
+   for (const blip of Array.from(root.getElementsByTagNameNS(DRAWINGML_NS, 'blip'))) {
+      const id = blip.getAttributeNS(R_NS, 'embed');
+      if (id) ids.add(id);
+   }
+   for (const imageData of Array.from(root.getElementsByTagNameNS(VML_NS, 'imagedata'))) {
+      const id = imageData.getAttributeNS(R_NS, 'id');
+      if (id) ids.add(id);
+   }
+
+   return ids;
+}
+
+/**
+ * Load the images a part refers to as data URLs, keyed by relationship id.
+ * Media that nothing refers to is never read.
+ */
+export async function loadDocxImages(
+   zip: JSZip,
+   root: Element,
+   relationships: Map<string, Relationship>
+): Promise<Map<string, string>> {
+   const images = new Map<string, string>();
+
+   await Promise.all(Array.from(referencedImageIds(root)).map(async id => {
+      const rel = relationships.get(id);
+      const file = rel && !rel.external ? zip.file(rel.target) : null;
+      const mimeType = IMAGE_MIME_TYPES[rel?.target.split('.').pop()?.toLowerCase() ?? ''];
+      if (!file || !mimeType) return;
+
+      try {
+         images.set(id, `data:${mimeType};base64,${await file.async('base64')}`);
+      } catch {
+         // Skip unreadable images
+      }
+   }));
+
+   return images;
+}
+
+/**
+ * An <img> at a size in pt, keeping that aspect ratio when it has to shrink to fit
+ */
+function imageTag(src: string, width: number, height: number, alt: string): string {
+   const size = width > 0 && height > 0
+      ? `width: ${width.toFixed(2)}pt; aspect-ratio: ${width.toFixed(2)} / ${height.toFixed(2)}; `
+      : '';
+   return `<img src="${src}" alt="${escapeHtml(alt)}" style="${size}max-width: 100%; height: auto; vertical-align: bottom">`;
+}
+
+/**
+ * Map a w:drawing (inline or anchored picture) to an <img> sized from wp:extent
+ */
+export function renderDrawing(drawing: Element, images: Map<string, string>): string {
+   const blip = drawing.getElementsByTagNameNS(DRAWINGML_NS, 'blip')[0];
+   const src = images.get(blip?.getAttributeNS(R_NS, 'embed') ?? '');
+   if (!src) return '';
+
+   const extent = drawing.getElementsByTagNameNS(WP_NS, 'extent')[0];
+   const width = parseFloat(extent?.getAttribute('cx') ?? '') / EMU_PER_PT;
+   const height = parseFloat(extent?.getAttribute('cy') ?? '') / EMU_PER_PT;
+   const description = drawing.getElementsByTagNameNS(WP_NS, 'docPr')[0];
+   const alt = description?.getAttribute('descr') || description?.getAttribute('title') || '';
+
+   return imageTag(src, width || 0, height || 0, alt);
+}
+
+/**
+ * Map a legacy VML picture (w:pict) to an <img> sized from its shape's style
+ */
+export function renderPicture(picture: Element, images: Map<string, string>): string {
+   const imageData = picture.getElementsByTagNameNS(VML_NS, 'imagedata')[0];
+   const src = images.get(imageData?.getAttributeNS(R_NS, 'id') ?? '');
+   if (!src) return '';
+
+   // Shape style: "width:120pt;height:80pt" (units other than pt are rare)
+   const style = imageData.parentElement?.getAttribute('style') ?? '';
+   const length = (name: string) => {
+      const match = style.match(new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([\\d.]+)(pt|in|px)?`, 'i'));
+      if (!match) return 0;
+      const value = parseFloat(match[1]);
+      return match[2] === 'in' ? value * 72 : match[2] === 'px' ? value * 0.75 : value;
+   };
+
+   return imageTag(src, length('width'), length('height'), imageData.getAttribute('o:title') ?? '');
+}
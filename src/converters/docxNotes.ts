@@ -0,0 +1,116 @@
+import { escapeHtml } from '../utils';
+import { wAttr, wChildren } from './docxXml';
+import { formatNumber } from './docxNumbering';
+
+export type NoteKind = 'footnote' | 'endnote' | 'comment';
+
+/**
+ * A footnote, endnote or comment referenced from the document, with the mark it is shown with
+ */
+export interface NoteReference {
+   kind: NoteKind;
+   id: string;
+   label: string;
+}
+
+// Number formats Word uses for each kind of note by default
+const NOTE_FORMATS: Record<NoteKind, string> = {
+   footnote: 'decimal',
+   endnote: 'lowerRoman',
+   comment: 'decimal',
+};
+
+// Margin notes go in a column on the right: the text keeps 70% of the width, and each
+// note is 40% of that wide, pulled right by 3/7 of it (the 30% the text gave up)
+const MARGIN_COLUMN_CSS = 'margin-right: 30%';
+const MARGIN_NOTE_CSS = 'float: right; clear: right; width: 40%; margin-right: -42.857%; box-sizing: border-box; '
+   + 'padding: 2pt 4pt; border-left: 2pt solid #e0b400; background-color: #fffbe6; font-size: 8pt; break-inside: avoid';
+
+// Separator notes (the rule above the notes) are part of the page layout, not content
+const SEPARATOR_TYPES = ['separator', 'continuationSeparator', 'continuationNotice'];
+
+/**
+ * Element ids of a note and of its reference mark, for links between the two
+ */
+export function noteAnchors(reference: NoteReference): { note: string; mark: string } {
+   return {
+      note: `${reference.kind}-${reference.label}`,
+      mark: `${reference.kind}-ref-${reference.label}`,
+   };
+}
+
+/**
+ * Numbers notes in the order the document refers to them
+ */
+export function createNoteCounter() {
+   const references: NoteReference[] = [];
+
+   const reference = (kind: NoteKind, id: string): NoteReference => {
+      const existing = references.find(r => r.kind === kind && r.id === id);
+      if (existing) return existing;
+
+      const count = references.filter(r => r.kind === kind).length + 1;
+      const added = { kind, id, label: formatNumber(count, NOTE_FORMATS[kind]) };
+      references.push(added);
+      return added;
+   };
+
+   return { references, reference };
+}
+
+export type NoteCounter = ReturnType<typeof createNoteCounter>;
+
+/**
+ * The first line of a comment: its mark, linking back to the text, then the author and date
+ */
+export function commentHeading(comment: Element, reference: NoteReference): string {
+   const author = wAttr(comment, 'author');
+   const date = wAttr(comment, 'date')?.slice(0, 10); // ISO timestamp; the day is enough
+   const details = [author, date].filter((text): text is string => !!text).map(escapeHtml).join(', ');
+
+   return `<p style="margin: 0 0 2pt; font-weight: bold">`
+      + `<a href="#${noteAnchors(reference).mark}">[${escapeHtml(reference.label)}]</a>${details ? ` ${details}` : ''}</p>`;
+}
+
+/**
+ * Map the referenced notes of one kind to a section for the end of the document,
+ * in reference order. Each note links back to its mark in the text.
+ */
+export function renderNotes(
+   kind: NoteKind,
+   root: Element,
+   references: NoteReference[],
+   renderNote: (note: Element, reference: NoteReference) => string
+): string {
+   const notes = new Map<string, Element>();
+   for (const note of wChildren(root, kind)) {
+      const type = wAttr(note, 'type');
+      if (type && SEPARATOR_TYPES.includes(type)) continue;
+      notes.set(wAttr(note, 'id') ?? '', note);
+   }
+
+   const html = references
+      .filter(reference => reference.kind === kind && notes.has(reference.id))
+      .map(reference => `<div id="${noteAnchors(reference).note}">${renderNote(notes.get(reference.id)!, reference)}</div>`);
+
+   if (html.length === 0) return '';
+
+   return '<section>'
+      + '<hr style="width: 33%; margin: 12pt 0 6pt; border: none; border-top: 0.75pt solid #000">'
+      + html.join('\n')
+      + '</section>';
+}
+
+/**
+ * A note floated into the margin column, level with the block it was referenced from
+ */
+export function renderMarginNote(reference: NoteReference, html: string): string {
+   return `<aside id="${noteAnchors(reference).note}" style="${MARGIN_NOTE_CSS}">${html}</aside>`;
+}
+
+/**
+ * Narrow content to make room for the margin notes placed in it
+ */
+export function withMarginColumn(html: string): string {
+   return `<div style="${MARGIN_COLUMN_CSS}">${html}</div>`;
+}
@@ -0,0 +1,147 @@
+import { parseXml, wAttr, wChild, wChildren, wNumber, wVal } from './docxXml';
+import { parseParagraphProps, parseRunProps, type DocxStyles, type ParagraphProps, type RunProps } from './docxStyles';
+
+/**
+ * One level of a list definition from numbering.xml
+ */
+export interface NumberingLevel {
+   start: number;
+   format: string;
+   text: string;
+   paragraph: ParagraphProps;
+   run: RunProps;
+}
+
+/**
+ * List definitions of a document: the nine levels of each w:num instance
+ */
+export type DocxNumbering = Map<string, NumberingLevel[]>;
+
+// Private-use characters from symbol fonts that bullets are usually drawn with
+const SYMBOL_BULLETS: Record<string, string> = {
+   '\uf0b7': '•',
+   '\uf0a7': '▪',
+   '\uf0d8': '➢',
+   '\uf076': '❖',
+   '\uf0fc': '✓',
+   '\uf075': '◆',
+};
+
+const ROMAN_NUMERALS: [number, string][] = [
+   [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+   [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+];
+
+/**
+ * Read a w:lvl element
+ */
+function parseLevel(lvl: Element, themeFonts: DocxStyles['themeFonts']): NumberingLevel {
+   return {
+      start: wNumber(lvl, 'start') ?? 1,
+      format: wVal(lvl, 'numFmt') ?? 'decimal',
+      text: wVal(lvl, 'lvlText') ?? '',
+      paragraph: parseParagraphProps(wChild(lvl, 'pPr')),
+      run: parseRunProps(wChild(lvl, 'rPr'), themeFonts),
+   };
+}
+
+/**
+ * Parse numbering.xml into the levels of each list instance
+ */
+export function parseNumbering(xml: string | null, themeFonts: DocxStyles['themeFonts']): DocxNumbering {
+   const numbering: DocxNumbering = new Map();
+   if (!xml) return numbering;
+
+   const root = parseXml(xml, 'numbering.xml').documentElement;
+
+   const abstracts = new Map<string, NumberingLevel[]>();
+   for (const abstract of wChildren(root, 'abstractNum')) {
+      const levels: NumberingLevel[] = [];
+      for (const lvl of wChildren(abstract, 'lvl')) {
+         levels[parseInt(wAttr(lvl, 'ilvl') ?? '0')] = parseLevel(lvl, themeFonts);
+      }
+      abstracts.set(wAttr(abstract, 'abstractNumId') ?? '', levels);
+   }
+
+   for (const num of wChildren(root, 'num')) {
+      const numId = wAttr(num, 'numId');
+      const levels = abstracts.get(wVal(num, 'abstractNumId') ?? '');
+      if (!numId || !levels) continue;
+
+      // An instance can restart or redefine individual levels
+      const instance = [...levels];
+      for (const override of wChildren(num, 'lvlOverride')) {
+         const ilvl = parseInt(wAttr(override, 'ilvl') ?? '0');
+         const lvl = wChild(override, 'lvl');
+         const start = wNumber(override, 'startOverride');
+
+         if (lvl) instance[ilvl] = parseLevel(lvl, themeFonts);
+         if (start !== undefined && instance[ilvl]) instance[ilvl] = { ...instance[ilvl], start };
+      }
+
+      numbering.set(numId, instance);
+   }
+
+   return numbering;
+}
+
+/**
+ * Format a counter value in a list number format
+ */
+export function formatNumber(value: number, format: string): string {
+   switch (format) {
+      case 'lowerLetter':
+      case 'upperLetter': {
+         // a..z, then aa..zz, as Word does
+         const letter = String.fromCharCode(97 + ((value - 1) % 26)).repeat(Math.floor((value - 1) / 26) + 1);
+         return format === 'upperLetter' ? letter.toUpperCase() : letter;
+      }
+      case 'lowerRoman':
+      case 'upperRoman': {
+         let rest = value;
+         let roman = '';
+         for (const [amount, numeral] of ROMAN_NUMERALS) {
+            for (; rest >= amount; rest -= amount) roman += numeral;
+         }
+         return format === 'upperRoman' ? roman.toUpperCase() : roman;
+      }
+      case 'decimalZero':
+         return value < 10 ? `0${value}` : String(value);
+      case 'none':
+         return '';
+      default:
+         return String(value);
+   }
+}
+
+/**
+ * Tracks list counters through a document and builds each item's label
+ */
+export function createListCounter(numbering: DocxNumbering) {
+   const counters = new Map<string, number[]>();
+
+   return (numId: string, ilvl: number): { label: string; level: NumberingLevel } | null => {
+      const levels = numbering.get(numId);
+      const level = levels?.[ilvl];
+      if (!levels || !level) return null;
+
+      // Advance this level and restart the levels below it
+      const counts = counters.get(numId) ?? [];
+      counts[ilvl] = counts[ilvl] === undefined ? level.start : counts[ilvl] + 1;
+      counts.length = ilvl + 1;
+      counters.set(numId, counts);
+
+      if (level.format === 'bullet') {
+         const bullet = level.text ? SYMBOL_BULLETS[level.text] ?? level.text : '•';
+         return { label: bullet, level };
+      }
+
+      const label = level.text.replace(/%(\d)/g, (_, n: string) => {
+         const index = parseInt(n) - 1;
+         const parent = levels[index];
+         return parent ? formatNumber(counts[index] ?? parent.start, parent.format) : '';
+      });
+      return { label, level };
+   };
+}
+
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { runCss } from './docxStyles';
+
+describe('runCss', () => {
+   it('names the font with a generic fallback', () => {
+      expect(runCss({ font: 'Times New Roman' })).toBe("font-family: 'Times New Roman', serif");
+      expect(runCss({ font: 'Consolas' })).toBe("font-family: 'Consolas', monospace");
+   });
+
+   it('drops characters that could break out of the style attribute', () => {
+      const css = runCss({ font: 'x"><img src=x onerror=alert(1)>' });
+      expect(css).not.toMatch(/["<>=()]/);
+      expect(css).toBe("font-family: 'ximg srcx onerroralert1', sans-serif");
+   });
+
+   it('falls back to the generic family when nothing of the name is left', () => {
+      expect(runCss({ font: '";}' })).toBe('font-family: sans-serif');
+   });
+});
@@ -0,0 +1,412 @@
+import { parseXml, wAttr, wChild, wChildren, wNumber, wToggle, wVal } from './docxXml';
+
+/**
+ * Character formatting from a w:rPr, with sizes in pt. Absent keys are inherited.
+ */
+export interface RunProps {
+   bold?: boolean;
+   italic?: boolean;
+   underline?: boolean;
+   strike?: boolean;
+   caps?: boolean;
+   smallCaps?: boolean;
+   hidden?: boolean;
+   vertAlign?: 'superscript' | 'subscript';
+   size?: number;
+   color?: string;
+   highlight?: string;
+   shading?: string;
+   font?: string;
+}
+
+/**
+ * Paragraph formatting from a w:pPr, with lengths in pt. Absent keys are inherited.
+ */
+export interface ParagraphProps {
+   align?: 'left' | 'center' | 'right' | 'justify';
+   spaceBefore?: number;
+   spaceAfter?: number;
+   line?: number; // multiple of single spacing ('auto') or pt ('exact' / 'atLeast')
+   lineRule?: 'auto' | 'exact' | 'atLeast';
+   indentLeft?: number;
+   indentRight?: number;
+   firstLine?: number; // negative for a hanging indent
+   keepLines?: boolean;
+   pageBreakBefore?: boolean;
+   shading?: string;
+   borders?: Partial<Record<BorderSide, string>>;
+   numId?: string;
+   ilvl?: number;
+   outlineLevel?: number;
+}
+
+type BorderSide = 'top' | 'right' | 'bottom' | 'left';
+
+/**
+ * A style from styles.xml, before its basedOn chain is applied
+ */
+interface StyleDefinition {
+   type: string;
+   name: string;
+   basedOn: string | null;
+   element: Element;
+   paragraph: ParagraphProps;
+   run: RunProps;
+}
+
+/**
+ * Styles of a document, with document defaults and theme fonts
+ */
+export interface DocxStyles {
+   defaultRun: RunProps;
+   defaultParagraph: ParagraphProps;
+   defaultParagraphStyle: string | null;
+   definitions: Map<string, StyleDefinition>;
+   themeFonts: { major?: string; minor?: string };
+   resolved: Map<string, { paragraph: ParagraphProps; run: RunProps }>;
+}
+
+// w:highlight color names
+const HIGHLIGHT_COLORS: Record<string, string> = {
+   black: '#000000',
+   blue: '#0000ff',
+   cyan: '#00ffff',
+   green: '#00ff00',
+   magenta: '#ff00ff',
+   red: '#ff0000',
+   yellow: '#ffff00',
+   white: '#ffffff',
+   darkBlue: '#000080',
+   darkCyan: '#008080',
+   darkGreen: '#008000',
+   darkMagenta: '#800080',
+   darkRed: '#800000',
+   darkYellow: '#808000',
+   darkGray: '#808080',
+   lightGray: '#c0c0c0',
+};
+
+// Word's single line spacing is a little taller than the font size
+const SINGLE_LINE_HEIGHT = 1.15;
+
+const DRAWINGML_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+
+/**
+ * Convert twentieths of a point (twips) to pt
+ */
+function twipsToPt(value: number | undefined): number | undefined {
+   return value === undefined ? undefined : value / 20;
+}
+
+/**
+ * Read a hex color attribute ("FF0000"), ignoring "auto"
+ */
+export function hexColor(value: string | null): string | undefined {
+   return value && /^[0-9a-f]{6}$/i.test(value) ? `#${value}` : undefined;
+}
+
+/**
+ * Read a border element (w:top, w:insideH, ...) as a CSS border.
+ * Returns 'none' for an explicit nil border and undefined when absent, so it can be inherited.
+ */
+export function parseBorder(border: Element | null): string | undefined {
+   const style = wAttr(border, 'val');
+   if (!border || !style) return undefined;
+   if (style === 'none' || style === 'nil') return 'none';
+
+   // w:sz is in eighths of a point
+   const width = Math.max(0.5, (parseFloat(wAttr(border, 'sz') ?? '4') || 4) / 8);
+   const line = style === 'double' ? 'double' : style === 'dotted' ? 'dotted' : /dash/i.test(style) ? 'dashed' : 'solid';
+   return `${width}pt ${line} ${hexColor(wAttr(border, 'color')) ?? '#000000'}`;
+}
+
+/**
+ * Copy the defined keys of each override onto the base
+ */
+export function mergeProps<T extends object>(base: T, ...overrides: (T | undefined)[]): T {
+   const result = { ...base };
+   for (const override of overrides) {
+      if (!override) continue;
+      for (const [key, value] of Object.entries(override)) {
+         if (value !== undefined) (result as Record<string, unknown>)[key] = value;
+      }
+   }
+   return result;
+}
+
+/**
+ * Read character formatting from a w:rPr element
+ */
+export function parseRunProps(rPr: Element | null, themeFonts: DocxStyles['themeFonts'] = {}): RunProps {
+   if (!rPr) return {};
+
+   const underline = wVal(rPr, 'u');
+   const vertAlign = wVal(rPr, 'vertAlign');
+   const halfPoints = wNumber(rPr, 'sz');
+   const fonts = wChild(rPr, 'rFonts');
+   const fontTheme = wAttr(fonts, 'asciiTheme');
+   const strike = wToggle(rPr, 'strike');
+   const doubleStrike = wToggle(rPr, 'dstrike');
+
+   return {
+      bold: wToggle(rPr, 'b'),
+      italic: wToggle(rPr, 'i'),
+      underline: underline === null ? undefined : underline !== 'none',
+      strike: strike === undefined && doubleStrike === undefined ? undefined : Boolean(strike || doubleStrike),
+      caps: wToggle(rPr, 'caps'),
+      smallCaps: wToggle(rPr, 'smallCaps'),
+      hidden: wToggle(rPr, 'vanish'),
+      vertAlign: vertAlign === 'superscript' || vertAlign === 'subscript' ? vertAlign : undefined,
+      size: halfPoints === undefined ? undefined : halfPoints / 2,
+      color: hexColor(wVal(rPr, 'color')),
+      highlight: HIGHLIGHT_COLORS[wVal(rPr, 'highlight') ?? ''],
+      shading: hexColor(wAttr(wChild(rPr, 'shd'), 'fill')),
+      font: fontTheme
+         ? (fontTheme.startsWith('major') ? themeFonts.major : themeFonts.minor)
+         : wAttr(fonts, 'ascii') ?? wAttr(fonts, 'hAnsi') ?? undefined,
+   };
+}
+
+/**
+ * Read paragraph formatting from a w:pPr element
+ */
+export function parseParagraphProps(pPr: Element | null): ParagraphProps {
+   if (!pPr) return {};
+
+   const spacing = wChild(pPr, 'spacing');
+   const indent = wChild(pPr, 'ind');
+   const numPr = wChild(pPr, 'numPr');
+   const attrNumber = (element: Element | null, ...names: string[]) => {
+      for (const name of names) {
+         const value = parseFloat(wAttr(element, name) ?? '');
+         if (!isNaN(value)) return value;
+      }
+      return undefined;
+   };
+
+   let align: ParagraphProps['align'];
+   switch (wVal(pPr, 'jc')) {
+      case 'left': case 'start': align = 'left'; break;
+      case 'center': align = 'center'; break;
+      case 'right': case 'end': align = 'right'; break;
+      case 'both': case 'distribute': case 'justify': align = 'justify'; break;
+   }
+
+   const line = attrNumber(spacing, 'line');
+   const lineRule = wAttr(spacing, 'lineRule');
+   const hanging = attrNumber(indent, 'hanging');
+   const firstLine = hanging !== undefined ? -hanging : attrNumber(indent, 'firstLine');
+
+   const borders: ParagraphProps['borders'] = {};
+   for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+      const border = parseBorder(wChild(wChild(pPr, 'pBdr'), side));
+      if (border && border !== 'none') borders[side] = border;
+   }
+
+   return {
+      align,
+      spaceBefore: twipsToPt(attrNumber(spacing, 'before')),
+      spaceAfter: twipsToPt(attrNumber(spacing, 'after')),
+      line: line === undefined ? undefined : lineRule === 'exact' || lineRule === 'atLeast' ? line / 20 : line / 240,
+      lineRule: line === undefined ? undefined : lineRule === 'exact' || lineRule === 'atLeast' ? lineRule : 'auto',
+      indentLeft: twipsToPt(attrNumber(indent, 'left', 'start')),
+      indentRight: twipsToPt(attrNumber(indent, 'right', 'end')),
+      firstLine: twipsToPt(firstLine),
+      keepLines: wToggle(pPr, 'keepLines'),
+      pageBreakBefore: wToggle(pPr, 'pageBreakBefore'),
+      shading: hexColor(wAttr(wChild(pPr, 'shd'), 'fill')),
+      borders: Object.keys(borders).length > 0 ? borders : undefined,
+      numId: wVal(numPr, 'numId') ?? undefined,
+      ilvl: wNumber(numPr, 'ilvl'),
+      outlineLevel: wNumber(pPr, 'outlineLvl'),
+   };
+}
+
+/**
+ * Read the major (headings) and minor (body) Latin fonts from the theme
+ */
+function parseThemeFonts(themeXml: string | null): DocxStyles['themeFonts'] {
+   if (!themeXml) return {};
+
+   const doc = parseXml(themeXml, 'theme');
+   const typeface = (scheme: string) => {
+      const font = doc.getElementsByTagNameNS(DRAWINGML_NS, scheme)[0];
+      const latin = font && Array.from(font.children).find(c => c.localName === 'latin');
+      return latin?.getAttribute('typeface') || undefined;
+   };
+
+   return { major: typeface('majorFont'), minor: typeface('minorFont') };
+}
+
+/**
+ * Parse styles.xml (and the theme's fonts) into style definitions
+ */
+export function parseStyles(stylesXml: string | null, themeXml: string | null): DocxStyles {
+   const themeFonts = parseThemeFonts(themeXml);
+   const styles: DocxStyles = {
+      defaultRun: {},
+      defaultParagraph: {},
+      defaultParagraphStyle: null,
+      definitions: new Map(),
+      themeFonts,
+      resolved: new Map(),
+   };
+   if (!stylesXml) return styles;
+
+   const root = parseXml(stylesXml, 'styles.xml').documentElement;
+   const docDefaults = wChild(root, 'docDefaults');
+   styles.defaultRun = parseRunProps(wChild(wChild(docDefaults, 'rPrDefault'), 'rPr'), themeFonts);
+   styles.defaultParagraph = parseParagraphProps(wChild(wChild(docDefaults, 'pPrDefault'), 'pPr'));
+
+   for (const style of wChildren(root, 'style')) {
+      const id = wAttr(style, 'styleId');
+      if (!id) continue;
+
+      const type = wAttr(style, 'type') ?? 'paragraph';
+      if (type === 'paragraph' && ['1', 'true', 'on'].includes(wAttr(style, 'default') ?? '')) {
+         styles.defaultParagraphStyle = id;
+      }
+
+      styles.definitions.set(id, {
+         type,
+         name: wVal(style, 'name') ?? id,
+         basedOn: wVal(style, 'basedOn'),
+         element: style,
+         paragraph: parseParagraphProps(wChild(style, 'pPr')),
+         run: parseRunProps(wChild(style, 'rPr'), themeFonts),
+      });
+   }
+
+   return styles;
+}
+
+/**
+ * Resolve a style through its basedOn chain
+ */
+export function resolveStyle(styles: DocxStyles, id: string | null): { paragraph: ParagraphProps; run: RunProps } {
+   if (!id) return { paragraph: {}, run: {} };
+
+   const cached = styles.resolved.get(id);
+   if (cached) return cached;
+
+   // Guard against basedOn cycles while resolving
+   styles.resolved.set(id, { paragraph: {}, run: {} });
+
+   const definition = styles.definitions.get(id);
+   let result = { paragraph: {} as ParagraphProps, run: {} as RunProps };
+   if (definition) {
+      const base = resolveStyle(styles, definition.basedOn);
+      result = {
+         paragraph: mergeProps(base.paragraph, definition.paragraph),
+         run: mergeProps(base.run, definition.run),
+      };
+   }
+
+   styles.resolved.set(id, result);
+   return result;
+}
+
+/**
+ * Style elements of a style and the styles it is based on, most specific first
+ */
+export function styleChain(styles: DocxStyles, id: string | null): Element[] {
+   const chain: Element[] = [];
+   for (let definition = id ? styles.definitions.get(id) : undefined; definition; ) {
+      if (chain.includes(definition.element)) break;
+      chain.push(definition.element);
+      definition = definition.basedOn ? styles.definitions.get(definition.basedOn) : undefined;
+   }
+   return chain;
+}
+
+/**
+ * Display name of a style ("heading 1", "Title", ...)
+ */
+export function styleName(styles: DocxStyles, id: string | null): string {
+   return (id && styles.definitions.get(id)?.name) || '';
+}
+
+/**
+ * Heading level (1–6) of a paragraph, from its outline level or its style name
+ */
+export function headingLevel(styles: DocxStyles, styleId: string | null, props: ParagraphProps): number | null {
+   if (props.outlineLevel !== undefined && props.outlineLevel < 9) {
+      return Math.min(6, props.outlineLevel + 1);
+   }
+
+   const name = styleName(styles, styleId).toLowerCase();
+   if (name === 'title') return 1;
+
+   const match = name.match(/^heading\s*(\d)$/);
+   return match ? Math.min(6, Math.max(1, parseInt(match[1]))) : null;
+}
+
+/**
+ * CSS font-family for a Word font, with a generic fallback.
+ * The name ends up inside a style attribute, so anything beyond letters, digits, spaces, '-' and '_' is dropped.
+ */
+function fontFamilyCss(font: string): string {
+   const generic = /courier|consolas|mono/i.test(font)
+      ? 'monospace'
+      : /times|cambria|georgia|garamond|palatino|book antiqua|serif/i.test(font) ? 'serif' : 'sans-serif';
+   const name = font.replace(/[^\p{L}\p{N} _-]/gu, '').trim();
+   return name ? `'${name}', ${generic}` : generic;
+}
+
+/**
+ * Inline CSS for character formatting
+ */
+export function runCss(props: RunProps): string {
+   const css: string[] = [];
+   const decorations = [props.underline && 'underline', props.strike && 'line-through'].filter(Boolean);
+
+   if (props.bold) css.push('font-weight: bold');
+   if (props.italic) css.push('font-style: italic');
+   if (decorations.length > 0) css.push(`text-decoration: ${decorations.join(' ')}`);
+   if (props.caps) css.push('text-transform: uppercase');
+   if (props.smallCaps) css.push('font-variant: small-caps');
+   if (props.font) css.push(`font-family: ${fontFamilyCss(props.font)}`);
+   if (props.color) css.push(`color: ${props.color}`);
+
+   const background = props.highlight ?? props.shading;
+   if (background) css.push(`background-color: ${background}`);
+
+   if (props.vertAlign) {
+      css.push(`vertical-align: ${props.vertAlign === 'superscript' ? 'super' : 'sub'}`);
+      if (props.size) css.push(`font-size: ${props.size * 0.65}pt`);
+   } else if (props.size) {
+      css.push(`font-size: ${props.size}pt`);
+   }
+
+   return css.join('; ');
+}
+
+/**
+ * Inline CSS for paragraph formatting
+ */
+export function paragraphCss(props: ParagraphProps): string {
+   const css: string[] = [
+      `margin: ${props.spaceBefore ?? 0}pt ${props.indentRight ?? 0}pt ${props.spaceAfter ?? 0}pt ${props.indentLeft ?? 0}pt`,
+   ];
+
+   if (props.align) css.push(`text-align: ${props.align}`);
+   if (props.firstLine) css.push(`text-indent: ${props.firstLine}pt`);
+
+   if (props.line !== undefined && props.lineRule === 'auto') {
+      css.push(`line-height: ${(props.line * SINGLE_LINE_HEIGHT).toFixed(3)}`);
+   } else if (props.line !== undefined) {
+      css.push(`line-height: ${props.line}pt`);
+   } else {
+      css.push(`line-height: ${SINGLE_LINE_HEIGHT}`);
+   }
+
+   if (props.shading) css.push(`background-color: ${props.shading}`);
+   for (const [side, border] of Object.entries(props.borders ?? {})) {
+      css.push(`border-${side}: ${border}`, `padding-${side}: 2pt`);
+   }
+
+   if (props.pageBreakBefore) css.push('break-before: page');
+   if (props.keepLines) css.push('break-inside: avoid');
+
+   return css.join('; ');
+}
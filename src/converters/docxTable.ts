@@ -0,0 +1,203 @@
+import { wAttr, wChild, wChildren, wNumber, wToggle, wVal } from './docxXml';
+import { hexColor, parseBorder, styleChain, type DocxStyles } from './docxStyles';
+
+type Side = 'top' | 'right' | 'bottom' | 'left';
+
+// Element names of each side; newer documents use start/end for left/right
+const SIDE_NAMES: Record<Side, string[]> = {
+   top: ['top'],
+   right: ['right', 'end'],
+   bottom: ['bottom'],
+   left: ['left', 'start'],
+};
+
+const SIDES: Side[] = ['top', 'right', 'bottom', 'left'];
+
+// Word's default cell margins (pt)
+const DEFAULT_CELL_MARGIN: Record<Side, number> = { top: 0, right: 5.4, bottom: 0, left: 5.4 };
+
+/**
+ * A cell placed on the table grid, after horizontal and vertical merges
+ */
+interface GridCell {
+   element: Element;
+   column: number;
+   span: number;
+   rowSpan: number;
+}
+
+/**
+ * Find a side's child element in a border or margin group (w:tblBorders, w:tcMar, ...)
+ */
+function sideChild(group: Element | null, side: Side): Element | null {
+   for (const name of SIDE_NAMES[side]) {
+      const child = wChild(group, name);
+      if (child) return child;
+   }
+   return null;
+}
+
+/**
+ * Read a width element (w:w in twips, or a percentage) as pt; undefined for other types
+ */
+function twipsWidth(element: Element | null): number | undefined {
+   const type = wAttr(element, 'type');
+   const value = parseFloat(wAttr(element, 'w') ?? '');
+   if (isNaN(value) || (type !== null && type !== 'dxa')) return undefined;
+   return value / 20;
+}
+
+/**
+ * Table properties from the table itself, then its style and the styles that style is based on
+ */
+function tablePropertySources(table: Element, styles: DocxStyles): Element[] {
+   const tblPr = wChild(table, 'tblPr');
+   const sources = styleChain(styles, wVal(tblPr, 'tblStyle')).map(style => wChild(style, 'tblPr'));
+   return [tblPr, ...sources].filter((e): e is Element => e !== null);
+}
+
+/**
+ * Look up a side of a table-level group (borders or cell margins) through the property sources
+ */
+function tableSide<T>(
+   sources: Element[],
+   group: string,
+   side: Side | 'insideH' | 'insideV',
+   read: (element: Element | null) => T | undefined
+): T | undefined {
+   for (const source of sources) {
+      const groupElement = wChild(source, group);
+      const child = side === 'insideH' || side === 'insideV' ? wChild(groupElement, side) : sideChild(groupElement, side);
+      const value = read(child);
+      if (value !== undefined) return value;
+   }
+   return undefined;
+}
+
+/**
+ * Lay the rows' cells out on the grid, folding vertically merged cells into
+ * the cell that starts the merge
+ */
+function buildGrid(rows: Element[]): GridCell[][] {
+   const mergeOrigins = new Map<number, GridCell>();
+
+   return rows.map(row => {
+      const cells: GridCell[] = [];
+      let column = wNumber(wChild(row, 'trPr'), 'gridBefore') ?? 0;
+
+      for (const element of wChildren(row, 'tc')) {
+         const tcPr = wChild(element, 'tcPr');
+         const span = Math.max(1, wNumber(tcPr, 'gridSpan') ?? 1);
+         const vMerge = wChild(tcPr, 'vMerge');
+         const origin = mergeOrigins.get(column);
+
+         if (vMerge && wAttr(vMerge, 'val') !== 'restart' && origin) {
+            origin.rowSpan++;
+         } else {
+            const cell: GridCell = { element, column, span, rowSpan: 1 };
+            cells.push(cell);
+            if (vMerge) mergeOrigins.set(column, cell);
+            else mergeOrigins.delete(column);
+         }
+
+         column += span;
+      }
+
+      return cells;
+   });
+}
+
+/**
+ * Map a table to HTML with its grid, merged cells, shading and borders.
+ * Leading rows marked as header rows go into <thead> so they repeat on each page.
+ * Rows left out by the filter (such as deleted rows) are dropped before the grid is built.
+ */
+export function renderDocxTable(
+   table: Element,
+   styles: DocxStyles,
+   renderCell: (cell: Element) => string,
+   includeRow: (row: Element) => boolean = () => true
+): string {
+   const sources = tablePropertySources(table, styles);
+   const tblPr = wChild(table, 'tblPr');
+   const rows = wChildren(table, 'tr').filter(includeRow);
+   if (rows.length === 0) return '';
+
+   const grid = buildGrid(rows);
+
+   const columns = wChildren(wChild(table, 'tblGrid'), 'gridCol').map(col => (parseFloat(wAttr(col, 'w') ?? '') || 0) / 20);
+   const columnCount = Math.max(columns.length, ...grid.flat().map(cell => cell.column + cell.span));
+   const gridWidth = columns.reduce((sum, width) => sum + width, 0);
+
+   // Table width: explicit, then the sum of the grid; columns are proportional so the table can shrink to fit the page
+   const tblW = wChild(tblPr, 'tblW');
+   const fixedWidth = twipsWidth(tblW);
+   let width = fixedWidth ? `${fixedWidth}pt` : gridWidth > 0 ? `${gridWidth}pt` : '100%';
+   if (wAttr(tblW, 'type') === 'pct') {
+      // Fiftieths of a percent, or a literal percentage
+      const value = wAttr(tblW, 'w') ?? '';
+      width = `${value.endsWith('%') ? parseFloat(value) : parseFloat(value) / 50}%`;
+   }
+
+   const tableCss = [`width: ${width}`, 'max-width: 100%', 'border-collapse: collapse', 'margin: 0 0 8pt'];
+   if (gridWidth > 0) tableCss.push('table-layout: fixed');
+   if (wVal(tblPr, 'jc') === 'center') tableCss.push('margin-left: auto', 'margin-right: auto');
+   const indent = twipsWidth(wChild(tblPr, 'tblInd'));
+   if (indent) tableCss.push(`margin-left: ${indent}pt`);
+
+   const colgroup = gridWidth > 0
+      ? `<colgroup>${columns.map(w => `<col style="width: ${((w / gridWidth) * 100).toFixed(3)}%">`).join('')}</colgroup>`
+      : '';
+
+   const tableBorder = (side: Side | 'insideH' | 'insideV') => tableSide(sources, 'tblBorders', side, parseBorder);
+   const tableMargin = (side: Side) => tableSide(sources, 'tblCellMar', side, twipsWidth) ?? DEFAULT_CELL_MARGIN[side];
+
+   const renderRow = (row: Element, rowIndex: number) => {
+      const trPr = wChild(row, 'trPr');
+      const height = parseFloat(wAttr(wChild(trPr, 'trHeight'), 'val') ?? '');
+      const rowCss = isNaN(height) ? '' : ` style="height: ${height / 20}pt"`;
+
+      const cells = grid[rowIndex].map(cell => {
+         const tcPr = wChild(cell.element, 'tcPr');
+         const css: string[] = [];
+
+         // Cell borders override the table's outer or inside borders
+         for (const side of SIDES) {
+            const outer = side === 'top' ? rowIndex === 0
+               : side === 'bottom' ? rowIndex + cell.rowSpan >= rows.length
+               : side === 'left' ? cell.column === 0
+               : cell.column + cell.span >= columnCount;
+            const inside = side === 'top' || side === 'bottom' ? 'insideH' : 'insideV';
+            const border = parseBorder(sideChild(wChild(tcPr, 'tcBorders'), side)) ?? tableBorder(outer ? side : inside);
+            css.push(`border-${side}: ${border ?? 'none'}`);
+         }
+
+         for (const side of SIDES) {
+            const margin = twipsWidth(sideChild(wChild(tcPr, 'tcMar'), side)) ?? tableMargin(side);
+            css.push(`padding-${side}: ${margin}pt`);
+         }
+
+         const shading = hexColor(wAttr(wChild(tcPr, 'shd'), 'fill'));
+         if (shading) css.push(`background-color: ${shading}`);
+
+         const vAlign = wVal(tcPr, 'vAlign');
+         css.push(`vertical-align: ${vAlign === 'center' ? 'middle' : vAlign === 'bottom' ? 'bottom' : 'top'}`);
+
+         const spans = (cell.span > 1 ? ` colspan="${cell.span}"` : '') + (cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : '');
+         return `<td${spans} style="${css.join('; ')}">${renderCell(cell.element)}</td>`;
+      });
+
+      return `<tr${rowCss}>${cells.join('')}</tr>`;
+   };
+
+   // Only the unbroken run of header rows at the top repeats
+   let headerRows = 0;
+   while (headerRows < rows.length && wToggle(wChild(rows[headerRows], 'trPr'), 'tblHeader')) headerRows++;
+
+   const head = rows.slice(0, headerRows).map((row, i) => renderRow(row, i)).join('');
+   const body = rows.slice(headerRows).map((row, i) => renderRow(row, headerRows + i)).join('');
+
+   return `<table style="${tableCss.join('; ')}">${colgroup}`
+      + (head ? `<thead>${head}</thead>` : '')
+      + `<tbody>${body}</tbody></table>`;
+}
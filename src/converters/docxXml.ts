@@ -0,0 +1,133 @@
+import { ConversionError } from '../utils';
+
+// WordprocessingML namespaces
+export const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+export const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const MC_NS = 'http://schemas.openxmlformats.org/markup-compatibility/2006';
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+/**
+ * Parse an XML part of the package
+ */
+export function parseXml(xml: string, part: string): Document {
+   const doc = new DOMParser().parseFromString(xml, 'application/xml');
+   if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new ConversionError('corrupt-docx', `Invalid DOCX file: ${part} is not well-formed`);
+   }
+   return doc;
+}
+
+/**
+ * Direct children of an element in the WordprocessingML namespace, optionally filtered by name
+ */
+export function wChildren(element: Element | null | undefined, name?: string): Element[] {
+   if (!element) return [];
+   return Array.from(element.children).filter(
+      child => child.namespaceURI === W_NS && (name === undefined || child.localName === name)
+   );
+}
+
+/**
+ * First direct child with the given WordprocessingML name
+ */
+export function wChild(element: Element | null | undefined, name: string): Element | null {
+   return wChildren(element, name)[0] ?? null;
+}
+
+/**
+ * Read a w:-prefixed attribute
+ */
+export function wAttr(element: Element | null | undefined, name: string): string | null {
+   return element?.getAttributeNS(W_NS, name) ?? null;
+}
+
+/**
+ * Read the w:val of a child property element ("<w:jc w:val="center"/>")
+ */
+export function wVal(element: Element | null | undefined, name: string): string | null {
+   return wAttr(wChild(element, name), 'val');
+}
+
+/**
+ * Read a numeric w:val, or undefined when absent or malformed
+ */
+export function wNumber(element: Element | null | undefined, name: string): number | undefined {
+   const value = parseFloat(wVal(element, name) ?? '');
+   return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Read an on/off property: present means on unless its w:val says otherwise.
+ * Returns undefined when the property is absent, so it can be inherited.
+ */
+export function wToggle(element: Element | null | undefined, name: string): boolean | undefined {
+   const property = wChild(element, name);
+   if (!property) return undefined;
+
+   const value = wAttr(property, 'val');
+   return value === null || !['0', 'false', 'off', 'none'].includes(value);
+}
+
+/**
+ * WordprocessingML children of an element, with markup-compatibility blocks
+ * (mc:AlternateContent) replaced by the content of their first alternative
+ */
+export function contentChildren(element: Element | null | undefined): Element[] {
+   if (!element) return [];
+
+   return Array.from(element.children).flatMap(child => {
+      if (child.namespaceURI === MC_NS && child.localName === 'AlternateContent') {
+         const alternative = Array.from(child.children).find(c => c.localName === 'Choice')
+            ?? Array.from(child.children).find(c => c.localName === 'Fallback');
+         return contentChildren(alternative);
+      }
+      return child.namespaceURI === W_NS ? [child] : [];
+   });
+}
+
+/**
+ * A link from a document part to another part (path inside the package) or an external URL
+ */
+export interface Relationship {
+   target: string;
+   type: string;
+   external: boolean;
+}
+
+/**
+ * Parse a .rels part into a map of relationship id → target; part paths are resolved against word/
+ */
+export function parseRelationships(xml: string | null): Map<string, Relationship> {
+   const relationships = new Map<string, Relationship>();
+   if (!xml) return relationships;
+
+   const doc = parseXml(xml, 'relationships');
+   for (const rel of Array.from(doc.getElementsByTagNameNS(REL_NS, 'Relationship'))) {
+      const id = rel.getAttribute('Id');
+      const target = rel.getAttribute('Target');
+      if (!id || !target) continue;
+
+      const external = rel.getAttribute('TargetMode') === 'External';
+      relationships.set(id, {
+         target: external ? target : resolvePartPath('word/', target),
+         type: rel.getAttribute('Type') ?? '',
+         external,
+      });
+   }
+
+   return relationships;
+}
+
+/**
+ * Resolve a relative part path ("media/image1.png", "../customXml/item.xml") against a folder
+ */
+function resolvePartPath(folder: string, target: string): string {
+   if (target.startsWith('/')) return target.slice(1);
+
+   const parts = folder.split('/').filter(Boolean);
+   for (const segment of target.split('/')) {
+      if (segment === '..') parts.pop();
+      else if (segment !== '.') parts.push(segment);
+   }
+   return parts.join('/');
+}
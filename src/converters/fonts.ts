@@ -0,0 +1,261 @@
+import { jsPDF, type Font } from 'jspdf';
+import type { EmbeddedFont } from '../types';
+import { readAsArrayBuffer } from '../utils';
+import dejaVuSansUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url';
+import dejaVuSansMonoUrl from 'dejavu-fonts-ttf/ttf/DejaVuSansMono.ttf?url';
+import notoSansScUrl from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url';
+import notoSansKrUrl from '@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf?url';
+
+export type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+/**
+ * Part of a line drawn in a single font
+ */
+export interface FontSpan {
+   text: string;
+   font: string;
+   fontStyle: FontStyle;
+}
+
+/**
+ * A fallback font shipped with the app, fetched the first time some text needs it
+ */
+interface BundledFont {
+   name: string;
+   url: string;
+   chars: RegExp; // characters that may need this font
+}
+
+// Characters the standard PDF fonts can encode (Windows-1252), as a regex class body
+const WIN_ANSI_CHARS = '\\t\\x20-\\x7e\\xa0-\\xff\\u0152\\u0153\\u0160\\u0161\\u0178\\u017d\\u017e\\u0192\\u02c6\\u02dc'
+   + '\\u2013\\u2014\\u2018-\\u201a\\u201c-\\u201e\\u2020-\\u2022\\u2026\\u2030\\u2039\\u203a\\u20ac\\u2122';
+
+// Chinese, Japanese and Korean characters, which lines may break between
+export const CJK_CHARS = '\\u1100-\\u11ff\\u2e80-\\u9fff\\uac00-\\ud7af\\uf900-\\ufaff\\ufe30-\\ufe4f\\uff00-\\uffef';
+
+const STANDARD_FONTS = new Set(['courier', 'helvetica', 'times']);
+const STANDARD_CHAR = new RegExp(`^[${WIN_ANSI_CHARS}]$`);
+const NEEDS_FALLBACK = new RegExp(`[^${WIN_ANSI_CHARS}\\n\\r]`);
+
+const DEJAVU_CHARS = new RegExp(`[^${WIN_ANSI_CHARS}${CJK_CHARS}\\n\\r]`);
+const DEJAVU_SANS: BundledFont = { name: 'DejaVuSans', url: dejaVuSansUrl, chars: DEJAVU_CHARS };
+const DEJAVU_SANS_MONO: BundledFont = { name: 'DejaVuSansMono', url: dejaVuSansMonoUrl, chars: DEJAVU_CHARS };
+const NOTO_SANS_SC: BundledFont = {
+   name: 'NotoSansSC',
+   url: notoSansScUrl,
+   chars: /[\u2e80-\u9fff\uf900-\ufaff\ufe30-\ufe4f\uff00-\uffef]/,
+};
+const NOTO_SANS_KR: BundledFont = {
+   name: 'NotoSansKR',
+   url: notoSansKrUrl,
+   chars: /[\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]/,
+};
+
+// Fallbacks in order of preference, for fixed-width and proportional text
+const MONOSPACE_FALLBACKS = [DEJAVU_SANS_MONO, DEJAVU_SANS, NOTO_SANS_SC, NOTO_SANS_KR];
+const PROPORTIONAL_FALLBACKS = [DEJAVU_SANS, NOTO_SANS_SC, NOTO_SANS_KR];
+const BUNDLED_FONTS = [DEJAVU_SANS_MONO, DEJAVU_SANS, NOTO_SANS_SC, NOTO_SANS_KR];
+
+// Drawn in place of characters no font can show (jsPDF cannot encode characters beyond U+FFFF)
+const REPLACEMENT_CHAR = '\ufffd';
+
+// Characters beyond U+FFFF (emoji and other astral characters), which are always replaced
+const ASTRAL_CHARS = /[\u{10000}-\u{10ffff}]/gu;
+
+// Spaces and punctuation stay in the font of the text around them
+const NEUTRAL_CHAR = /^[\s\p{P}]$/u;
+
+const RTL_CHAR = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/;
+const STRONG_CHAR = /\p{L}/u;
+
+// jsPDF ships a Unicode bidi engine but leaves it out of its type definitions
+interface BidiEngine {
+   doBidiReorder(text: string): string;
+}
+const BidiEngine = (jsPDF as unknown as { __bidiEngine__: new (options: object) => BidiEngine }).__bidiEngine__;
+
+const loadedFonts = new Map<string, Promise<EmbeddedFont>>();
+
+/**
+ * Fetch a bundled font once per thread
+ */
+function loadBundledFont(font: BundledFont): Promise<EmbeddedFont> {
+   let loading = loadedFonts.get(font.name);
+   if (!loading) {
+      loading = fetch(font.url).then(async (response) => {
+         if (!response.ok) throw new Error(`The ${font.name} font could not be loaded`);
+         return { name: font.name, data: new Uint8Array(await response.arrayBuffer()) };
+      });
+      // Let a failed download be retried
+      loading.catch(() => loadedFonts.delete(font.name));
+      loadedFonts.set(font.name, loading);
+   }
+   return loading;
+}
+
+/**
+ * Whether text has characters the standard PDF fonts cannot encode
+ */
+export function needsFallbackFonts(text: string): boolean {
+   return NEEDS_FALLBACK.test(text);
+}
+
+/**
+ * Characters in text that are drawn as U+FFFD whatever the font, since jsPDF
+ * encodes text in 16-bit units. Emoji are the common case.
+ */
+export function unencodableChars(text: string): string[] {
+   return text.match(ASTRAL_CHARS) ?? [];
+}
+
+/**
+ * Load the bundled fonts that may be needed to show text in any font
+ */
+export function loadFallbackFonts(text: string): Promise<EmbeddedFont[]> {
+   if (!needsFallbackFonts(text)) return Promise.resolve([]);
+   return Promise.all(BUNDLED_FONTS.filter(font => font.chars.test(text)).map(loadBundledFont));
+}
+
+/**
+ * Add a font to a document, unless it is there already
+ */
+export function registerFont(pdf: jsPDF, font: EmbeddedFont): void {
+   if (pdf.getFontList()[font.name]) return;
+
+   // jsPDF takes font files as binary strings
+   let binary = '';
+   for (let i = 0; i < font.data.length; i += 0x8000) {
+      binary += String.fromCharCode(...font.data.subarray(i, i + 0x8000));
+   }
+
+   const file = `${font.name}.ttf`;
+   pdf.addFileToVFS(file, binary);
+   pdf.addFont(file, font.name, 'normal', 'Identity-H');
+}
+
+/**
+ * Look up a registered font. jsPDF's getFont takes a name and style, but is typed for the current font only.
+ */
+function getFont(pdf: jsPDF, font: string, fontStyle: FontStyle): Font {
+   return (pdf.getFont as (fontName: string, fontStyle: string) => Font)(font, fontStyle);
+}
+
+/**
+ * Whether a font has a glyph for a character
+ */
+function hasGlyph(pdf: jsPDF, font: string, char: string): boolean {
+   if (STANDARD_FONTS.has(font)) return STANDARD_CHAR.test(char);
+
+   const code = char.codePointAt(0)!;
+   return code <= 0xffff && getFont(pdf, font, 'normal').metadata.characterToGlyph(code) > 0;
+}
+
+/**
+ * Split text into spans by the font that can show each character: the text's own font
+ * where it has the glyph, otherwise the first registered fallback that does.
+ * Embedded fonts only have a regular style.
+ */
+export function splitByFont(pdf: jsPDF, text: string, font: string, fontStyle: FontStyle): FontSpan[] {
+   if (STANDARD_FONTS.has(font) && !needsFallbackFonts(text)) return [{ text, font, fontStyle }];
+
+   const registered = pdf.getFontList();
+   const fallbacks = (font === 'courier' || !STANDARD_FONTS.has(font) ? MONOSPACE_FALLBACKS : PROPORTIONAL_FALLBACKS)
+      .map(fallback => fallback.name)
+      .filter(name => name !== font && registered[name]);
+
+   const spans: FontSpan[] = [];
+   for (let char of text) {
+      const current = spans[spans.length - 1];
+      let spanFont: string | undefined;
+
+      if (current && current.font !== font && NEUTRAL_CHAR.test(char) && hasGlyph(pdf, current.font, char)) {
+         spanFont = current.font;
+      } else if (hasGlyph(pdf, font, char)) {
+         spanFont = font;
+      } else {
+         spanFont = fallbacks.find(name => hasGlyph(pdf, name, char));
+         if (!spanFont) {
+            char = REPLACEMENT_CHAR;
+            spanFont = [font, ...fallbacks].find(name => hasGlyph(pdf, name, char)) ?? font;
+         }
+      }
+
+      if (current?.font === spanFont) {
+         current.text += char;
+      } else {
+         spans.push({ text: char, font: spanFont, fontStyle: STANDARD_FONTS.has(spanFont) ? fontStyle : 'normal' });
+      }
+   }
+
+   return spans;
+}
+
+/**
+ * Width of spans in mm at a font size in pt
+ */
+export function measureSpans(pdf: jsPDF, spans: FontSpan[], fontSize: number): number {
+   let units = 0;
+   for (const span of spans) {
+      units += pdf.getStringUnitWidth(span.text, { font: getFont(pdf, span.font, span.fontStyle), fontSize });
+   }
+   return units * fontSize / pdf.internal.scaleFactor;
+}
+
+/**
+ * Whether a line reads right to left, judged by its first letter
+ */
+export function isRightToLeft(text: string): boolean {
+   const letter = text.match(STRONG_CHAR);
+   return !!letter && RTL_CHAR.test(letter[0]);
+}
+
+/**
+ * Reorder a line from reading order into the left-to-right order it is drawn in.
+ * Arabic letters are shaped first, since their forms depend on reading order.
+ */
+export function toVisualOrder(pdf: jsPDF, text: string): string {
+   if (!RTL_CHAR.test(text)) return text;
+
+   const engine = new BidiEngine({
+      isInputVisual: false,
+      isOutputVisual: true,
+      isInputRtl: isRightToLeft(text),
+      isOutputRtl: false,
+      isSymmetricSwapping: true,
+   });
+   return engine.doBidiReorder(pdf.processArabic(text));
+}
+
+/**
+ * Read a user's font file. jsPDF can only embed TrueType outlines, so
+ * OpenType fonts with PostScript (CFF) outlines, collections and web fonts are refused.
+ * Most .otf files are CFF, which is why the picker only offers .ttf; an .otf with
+ * TrueType outlines is still accepted when dropped in.
+ */
+export async function readFontFile(file: File): Promise<EmbeddedFont> {
+   const data = new Uint8Array(await readAsArrayBuffer(file));
+   const tag = String.fromCharCode(...data.subarray(0, 4));
+
+   if (tag === 'OTTO') {
+      throw new Error(`${file.name} is an OpenType font with PostScript (CFF) outlines, which cannot be embedded in a PDF here. Choose a TrueType (.ttf) font instead.`);
+   }
+   if (tag === 'ttcf') {
+      throw new Error(`${file.name} is a font collection. Choose a single .ttf font instead.`);
+   }
+   if (tag === 'wOFF' || tag === 'wOF2') {
+      throw new Error(`${file.name} is a web font (WOFF). Choose a TrueType (.ttf) font instead.`);
+   }
+   if (tag !== '\x00\x01\x00\x00' && tag !== 'true') {
+      throw new Error(`${file.name} is not a TrueType or OpenType font`);
+   }
+
+   // Parse it once now, so a broken font is reported before converting.
+   // jsPDF logs parse errors instead of throwing them, leaving the font without metrics.
+   const font = { name: file.name.replace(/\.[^.]+$/, ''), data };
+   const pdf = new jsPDF();
+   registerFont(pdf, font);
+   if (!pdf.getFontList()[font.name] || !getFont(pdf, font.name, 'normal').metadata?.characterToGlyph) {
+      throw new Error(`${file.name} could not be read as a font`);
+   }
+   return font;
+}
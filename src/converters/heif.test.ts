@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { isAvif, isHeif } from './heif';
+
+/**
+ * A file type box with the given major and compatible brands
+ */
+function ftyp(major: string, ...compatible: string[]): Uint8Array {
+   const size = 16 + compatible.length * 4;
+   const bytes = new Uint8Array(size + 8);
+   new DataView(bytes.buffer).setUint32(0, size);
+   const ascii = [...'ftyp', ...major, '\0', '\0', '\0', '\0', ...compatible.join('')];
+   ascii.forEach((char, i) => (bytes[4 + i] = char.charCodeAt(0)));
+   return bytes;
+}
+
+describe('isHeif and isAvif', () => {
+   it('recognizes HEIC photos by their major brand', () => {
+      expect(isHeif(ftyp('heic', 'mif1', 'heic'))).toBe(true);
+      expect(isAvif(ftyp('heic', 'mif1', 'heic'))).toBe(false);
+   });
+
+   it('recognizes AVIF images by their major brand', () => {
+      expect(isAvif(ftyp('avif', 'avif', 'mif1', 'miaf'))).toBe(true);
+      expect(isHeif(ftyp('avif', 'avif', 'mif1', 'miaf'))).toBe(false);
+   });
+
+   it('prefers AVIF among the compatible brands of a generic image file', () => {
+      expect(isAvif(ftyp('mif1', 'mif1', 'avif', 'miaf'))).toBe(true);
+      expect(isHeif(ftyp('mif1', 'mif1', 'avif', 'miaf'))).toBe(false);
+      expect(isHeif(ftyp('mif1', 'mif1', 'heic'))).toBe(true);
+   });
+
+   it('ignores brands past the end of the file type box', () => {
+      const bytes = ftyp('mif1', 'mif1');
+      bytes.set([...'avif'].map(char => char.charCodeAt(0)), 20);
+      expect(isAvif(bytes)).toBe(false);
+      expect(isHeif(bytes)).toBe(true);
+   });
+
+   it('rejects other files', () => {
+      expect(isHeif(ftyp('isom', 'isom', 'mp41'))).toBe(false);
+      expect(isAvif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe(false);
+   });
+});
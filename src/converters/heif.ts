@@ -0,0 +1,151 @@
+import { ConversionError, createCanvas, getContext2d, type AnyCanvas } from '../utils';
+
+/**
+ * HEIF (HEIC) decoding with libheif, and AVIF decoding with libavif and dav1d,
+ * both compiled to WebAssembly, for browsers that cannot decode these photos
+ * themselves. Each decoder is only loaded when needed.
+ */
+
+/**
+ * The parts of libheif-js used here
+ */
+interface HeifImage {
+   get_width(): number;
+   get_height(): number;
+   is_primary(): boolean;
+   display(target: ImageData, callback: (result: ImageData | null) => void): void;
+   free(): void;
+}
+
+interface HeifModule {
+   HeifDecoder: new () => { decode(data: Uint8Array): HeifImage[] };
+}
+
+// Brands of HEIF files with HEVC-coded images, and of AVIF files (AV1-coded, which libheif-js cannot decode)
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1']);
+const AVIF_BRANDS = new Set(['avif', 'avis']);
+
+// Bytes read to find the brands; file type boxes list only a handful
+export const BRAND_SCAN_BYTES = 256;
+
+let libheif: Promise<HeifModule> | null = null;
+let avifDecoder: Promise<(data: ArrayBuffer) => Promise<ImageData | null>> | null = null;
+
+/**
+ * Major and compatible brands in the file type box at the start of an ISO media file
+ */
+function fileBrands(bytes: Uint8Array): string[] {
+   const text = (start: number) => String.fromCharCode(...bytes.subarray(start, start + 4));
+   if (bytes.length < 12 || text(4) !== 'ftyp') return [];
+
+   const size = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0);
+   const brands = [text(8)];
+   // Compatible brands follow the major brand and its minor version
+   for (let offset = 16; offset + 4 <= Math.min(size, bytes.length); offset += 4) {
+      brands.push(text(offset));
+   }
+   return brands;
+}
+
+/**
+ * Whether data starts with the file type box of an AVIF image. Many AVIF files
+ * have the generic "mif1" major brand and name AVIF only among their compatible brands.
+ */
+export function isAvif(bytes: Uint8Array): boolean {
+   return fileBrands(bytes).some(brand => AVIF_BRANDS.has(brand));
+}
+
+/**
+ * Whether data starts with the file type box of a HEIF (HEIC) image
+ */
+export function isHeif(bytes: Uint8Array): boolean {
+   return !isAvif(bytes) && fileBrands(bytes).some(brand => HEIF_BRANDS.has(brand));
+}
+
+/**
+ * Load the WebAssembly decoder once per thread; a failed load is tried again next time
+ */
+function loadLibheif(): Promise<HeifModule> {
+   libheif ??= import('libheif-js/libheif-wasm/libheif-bundle.mjs')
+      .then(module => module.default() as HeifModule)
+      .catch(error => {
+         libheif = null;
+         throw error;
+      });
+   return libheif;
+}
+
+/**
+ * Load the AVIF decoder once per thread; a failed load is tried again next time
+ */
+function loadAvifDecoder(): Promise<(data: ArrayBuffer) => Promise<ImageData | null>> {
+   avifDecoder ??= import('@jsquash/avif/decode.js')
+      .then(module => module.default)
+      .catch(error => {
+         avifDecoder = null;
+         throw error;
+      });
+   return avifDecoder;
+}
+
+/**
+ * Decode the primary image of a HEIF file onto a canvas. HEIF stores its
+ * rotation in the container, which the decoder applies.
+ */
+export async function decodeHeif(data: ArrayBuffer): Promise<AnyCanvas> {
+   let module: HeifModule;
+   try {
+      module = await loadLibheif();
+   } catch {
+      throw new ConversionError('image-decode-failed', 'The HEIC decoder could not be loaded');
+   }
+
+   let images: HeifImage[];
+   try {
+      images = new module.HeifDecoder().decode(new Uint8Array(data));
+   } catch {
+      throw new ConversionError('image-decode-failed', 'The HEIC image could not be decoded');
+   }
+
+   const image = images.find(candidate => candidate.is_primary()) ?? images[0];
+   if (!image) {
+      throw new ConversionError('image-decode-failed', 'The HEIC image could not be decoded');
+   }
+
+   try {
+      const width = image.get_width();
+      const height = image.get_height();
+      const pixels = await new Promise<ImageData | null>(resolve => image.display(new ImageData(width, height), resolve));
+      if (!pixels) {
+         throw new ConversionError('image-decode-failed', 'The HEIC image could not be decoded');
+      }
+
+      const canvas = createCanvas(width, height);
+      getContext2d(canvas).putImageData(pixels, 0, 0);
+      return canvas;
+   } finally {
+      for (const candidate of images) candidate.free();
+   }
+}
+
+/**
+ * Decode an AVIF image onto a canvas. Rotation and mirroring stored in the
+ * container are not applied.
+ */
+export async function decodeAvif(data: ArrayBuffer): Promise<AnyCanvas> {
+   let decode: (data: ArrayBuffer) => Promise<ImageData | null>;
+   try {
+      decode = await loadAvifDecoder();
+   } catch {
+      throw new ConversionError('image-decode-failed', 'The AVIF decoder could not be loaded');
+   }
+
+   const pixels = await decode(data).catch(() => null);
+   if (!pixels) {
+      throw new ConversionError('image-decode-failed', 'The AVIF image could not be decoded');
+   }
+
+   const canvas = createCanvas(pixels.width, pixels.height);
+   getContext2d(canvas).putImageData(pixels, 0, 0);
+   return canvas;
+}
@@ -0,0 +1,116 @@
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import c from 'highlight.js/lib/languages/c';
+import cpp from 'highlight.js/lib/languages/cpp';
+import csharp from 'highlight.js/lib/languages/csharp';
+import css from 'highlight.js/lib/languages/css';
+import diff from 'highlight.js/lib/languages/diff';
+import dockerfile from 'highlight.js/lib/languages/dockerfile';
+import go from 'highlight.js/lib/languages/go';
+import ini from 'highlight.js/lib/languages/ini';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import kotlin from 'highlight.js/lib/languages/kotlin';
+import makefile from 'highlight.js/lib/languages/makefile';
+import markdown from 'highlight.js/lib/languages/markdown';
+import php from 'highlight.js/lib/languages/php';
+import python from 'highlight.js/lib/languages/python';
+import ruby from 'highlight.js/lib/languages/ruby';
+import rust from 'highlight.js/lib/languages/rust';
+import shell from 'highlight.js/lib/languages/shell';
+import sql from 'highlight.js/lib/languages/sql';
+import swift from 'highlight.js/lib/languages/swift';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+import type { CodeTheme } from '../types';
+
+// Bundled languages; each grammar also registers its usual aliases (ts, py, sh, yml, html, ...)
+const LANGUAGES = {
+   bash, c, cpp, csharp, css, diff, dockerfile, go, ini, java, javascript, json,
+   kotlin, makefile, markdown, php, python, ruby, rust, shell, sql, swift, typescript, xml, yaml,
+};
+
+for (const [name, language] of Object.entries(LANGUAGES)) {
+   hljs.registerLanguage(name, language);
+}
+
+// Extensionless build files that go by other names
+hljs.registerAliases('containerfile', { languageName: 'dockerfile' });
+hljs.registerAliases('gnumakefile', { languageName: 'makefile' });
+
+// "language-ts" / "lang-ts" class on a code element
+const LANGUAGE_CLASS = /(?:^|\s)lang(?:uage)?-([\w+#.-]+)/i;
+
+/**
+ * Find the bundled language of a source file by its extension, or by its name for
+ * files like Dockerfile; null when there is none
+ */
+export function detectLanguage(fileName: string): string | null {
+   const extension = fileName.split('.').pop()!.toLowerCase();
+   return hljs.getLanguage(extension) ? extension : null;
+}
+
+/**
+ * Display name of a bundled language ("TypeScript" for "ts")
+ */
+export function languageName(language: string): string {
+   return hljs.getLanguage(language)?.name ?? language;
+}
+
+/**
+ * Highlight source code as HTML, or null when the language is not bundled
+ */
+export function highlightCode(code: string, language: string): string | null {
+   if (!hljs.getLanguage(language)) return null;
+   return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+}
+
+/**
+ * Highlight every `<pre><code class="language-x">` block under a rendered element.
+ * Blocks without a language class, or in a language that isn't bundled, are left as they are.
+ */
+export function highlightCodeBlocks(root: ParentNode): void {
+   for (const code of Array.from(root.querySelectorAll('pre > code'))) {
+      const language = code.className.match(LANGUAGE_CLASS)?.[1].toLowerCase();
+      if (!language || code.classList.contains('hljs')) continue;
+
+      const html = highlightCode(code.textContent ?? '', language);
+      if (html === null) continue;
+
+      code.innerHTML = html;
+      code.classList.add('hljs');
+   }
+}
+
+// Stylesheets for highlighted blocks, keyed by theme
+export const CODE_THEME_STYLES: Record<CodeTheme, string> = {
+   light: `
+      pre code.hljs { color: #24292e; }
+      .hljs-keyword, .hljs-selector-tag, .hljs-meta .hljs-keyword, .hljs-doctag, .hljs-template-tag { color: #d73a49; }
+      .hljs-title, .hljs-title.function_, .hljs-title.class_, .hljs-section { color: #6f42c1; }
+      .hljs-string, .hljs-regexp, .hljs-meta .hljs-string { color: #032f62; }
+      .hljs-number, .hljs-literal, .hljs-built_in, .hljs-attr, .hljs-attribute, .hljs-variable, .hljs-selector-class, .hljs-selector-id, .hljs-symbol { color: #005cc5; }
+      .hljs-type, .hljs-params, .hljs-name, .hljs-tag { color: #22863a; }
+      .hljs-comment, .hljs-quote, .hljs-meta { color: #6a737d; }
+      .hljs-comment, .hljs-quote { font-style: italic; }
+      .hljs-addition { color: #22863a; background: #f0fff4; }
+      .hljs-deletion { color: #b31d28; background: #ffeef0; }
+      .hljs-emphasis { font-style: italic; }
+      .hljs-strong { font-weight: bold; }
+   `,
+   print: `
+      pre { background: #ffffff; border: 1px solid #999; }
+      pre code.hljs { color: #000000; }
+      .hljs-keyword, .hljs-selector-tag, .hljs-meta .hljs-keyword, .hljs-doctag, .hljs-template-tag, .hljs-section { font-weight: bold; }
+      .hljs-title, .hljs-title.function_, .hljs-title.class_ { font-weight: bold; color: #222; }
+      .hljs-string, .hljs-regexp, .hljs-meta .hljs-string { color: #444; }
+      .hljs-number, .hljs-literal, .hljs-built_in, .hljs-type { color: #222; }
+      .hljs-comment, .hljs-quote, .hljs-meta { color: #666; font-style: italic; }
+      .hljs-addition { font-weight: bold; }
+      .hljs-deletion { text-decoration: line-through; }
+      .hljs-emphasis { font-style: italic; }
+      .hljs-strong { font-weight: bold; }
+   `,
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { listMarkerText, transformText } from './htmlVector';
+
+describe('listMarkerText', () => {
+   it('draws bullets for unordered lists', () => {
+      expect(listMarkerText('disc', 1)).toBe('•');
+      expect(listMarkerText('circle', 2)).toBe('◦');
+      expect(listMarkerText('square', 3)).toBe('▪');
+      expect(listMarkerText('none', 1)).toBeNull();
+   });
+
+   it('numbers ordered lists in their counter style', () => {
+      expect(listMarkerText('decimal', 3)).toBe('3.');
+      expect(listMarkerText('decimal-leading-zero', 7)).toBe('07.');
+      expect(listMarkerText('lower-alpha', 28)).toBe('ab.');
+      expect(listMarkerText('upper-latin', 26)).toBe('Z.');
+      expect(listMarkerText('lower-roman', 14)).toBe('xiv.');
+      expect(listMarkerText('upper-roman', 1994)).toBe('MCMXCIV.');
+   });
+
+   it('falls back to decimal where a counter style cannot show the number', () => {
+      expect(listMarkerText('lower-alpha', 0)).toBe('0.');
+      expect(listMarkerText('upper-roman', 4000)).toBe('4000.');
+      expect(listMarkerText('hebrew', 5)).toBe('5.');
+   });
+
+   it('uses string markers as written', () => {
+      expect(listMarkerText('"- "', 1)).toBe('- ');
+   });
+});
+
+describe('transformText', () => {
+   it('changes case as text-transform asks', () => {
+      expect(transformText('Straße', 'uppercase')).toBe('STRASSE');
+      expect(transformText('LOUD', 'lowercase')).toBe('loud');
+      expect(transformText('(word)', 'capitalize')).toBe('(Word)');
+      expect(transformText('As Is', 'none')).toBe('As Is');
+   });
+});
@@ -0,0 +1,455 @@
+import type { ConversionOptions } from '../types';
+import { createCanvas, getContext2d, canvasToJpeg, releaseCanvas, throwIfAborted } from '../utils';
+import type { PageImage, PageItem, PageRect, PageTextRun, PdfPage, RgbColor } from './pdfAssembler';
+import { findPageBreaks, measureForcedBreaks, measureLayoutBoxes, pageIndexAt, type LayoutBox } from './pagination';
+import { mirrorOffset, type PageBox } from './pageGeometry';
+import { CJK_CHARS } from './fonts';
+
+// Pixels per mm at 96 DPI
+const PX_PER_MM = 96 / 25.4;
+
+// CSS px to PDF pt
+const PT_PER_PX = 0.75;
+
+// Images are re-encoded at twice their layout size for sharpness
+const IMAGE_SCALE = 2;
+
+// Runs are single words, or single CJK characters since CJK lines break between any two
+export const WORD_PATTERN = `[${CJK_CHARS}]|[^\\s${CJK_CHARS}]+`;
+
+// Elements whose text is never rendered
+const SKIPPED_TAGS = new Set(['STYLE', 'SCRIPT', 'NOSCRIPT', 'TEMPLATE', 'TITLE', 'HEAD']);
+
+/**
+ * Something laid out in the render container, positioned in px from its top-left corner
+ */
+interface Placed<T> {
+   box: LayoutBox;
+   left: number;
+   item: T;
+}
+
+type Draft<T extends PageItem> = Omit<T, 'x' | 'y'>;
+
+/**
+ * Parse a computed CSS color ("rgb(...)" / "rgba(...)"); null when transparent
+ */
+function parseColor(value: string): RgbColor | null {
+   const match = value.match(/rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:[,\s/]+([\d.]+%?))?\s*\)/);
+   if (!match) return null;
+
+   const alpha = match[4] === undefined ? 1 : match[4].endsWith('%') ? parseFloat(match[4]) / 100 : parseFloat(match[4]);
+   if (alpha < 0.05) return null;
+
+   return [Math.round(+match[1]), Math.round(+match[2]), Math.round(+match[3])];
+}
+
+/**
+ * Map a CSS font family to one of the standard PDF fonts
+ */
+export function pdfFontFamily(family: string): string {
+   const f = family.toLowerCase();
+   if (/mono|consolas|courier|menlo/.test(f)) return 'courier';
+   if (/times|georgia|garamond|(^|[\s,'"])serif/.test(f)) return 'times';
+   return 'helvetica';
+}
+
+/**
+ * Map CSS weight and style to a jsPDF font style
+ */
+export function pdfFontStyle(style: CSSStyleDeclaration): 'normal' | 'bold' | 'italic' | 'bolditalic' {
+   const bold = style.fontWeight === 'bold' || parseInt(style.fontWeight) >= 600;
+   const italic = style.fontStyle === 'italic' || style.fontStyle.startsWith('oblique');
+   if (bold && italic) return 'bolditalic';
+   if (bold) return 'bold';
+   if (italic) return 'italic';
+   return 'normal';
+}
+
+/**
+ * Text decorations are not inherited in computed style, so look up the ancestors
+ */
+export function getDecorations(element: Element, container: Element): { underline: boolean; lineThrough: boolean } {
+   let underline = false;
+   let lineThrough = false;
+
+   for (let el: Element | null = element; el && el !== container; el = el.parentElement) {
+      const line = getComputedStyle(el).textDecorationLine;
+      underline ||= line.includes('underline');
+      lineThrough ||= line.includes('line-through');
+   }
+
+   return { underline, lineThrough };
+}
+
+/**
+ * Apply a computed text-transform to the text of a run
+ */
+export function transformText(text: string, transform: string): string {
+   switch (transform) {
+      case 'uppercase': return text.toUpperCase();
+      case 'lowercase': return text.toLowerCase();
+      // Runs are whole words, so only their first letter changes
+      case 'capitalize': return text.replace(/\p{L}/u, letter => letter.toUpperCase());
+      default: return text;
+   }
+}
+
+/**
+ * Write a number as a roman numeral; null outside the range CSS counts in
+ */
+function toRoman(value: number): string | null {
+   if (value < 1 || value > 3999) return null;
+
+   const numerals: [number, string][] = [
+      [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+      [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+   ];
+   let result = '';
+   for (const [amount, numeral] of numerals) {
+      for (; value >= amount; value -= amount) result += numeral;
+   }
+   return result;
+}
+
+/**
+ * Write a number in letters (a, b, ..., z, aa, ab, ...); null below 1
+ */
+function toAlphabetic(value: number): string | null {
+   if (value < 1) return null;
+
+   let result = '';
+   for (; value > 0; value = Math.floor((value - 1) / 26)) {
+      result = String.fromCharCode(97 + ((value - 1) % 26)) + result;
+   }
+   return result;
+}
+
+/**
+ * Text of a list item's marker for a computed list-style-type; null when it has none.
+ * Counter styles that cannot show the number fall back to decimal, as in CSS.
+ */
+export function listMarkerText(type: string, ordinal: number): string | null {
+   // A string value is used as the marker as written
+   const literal = type.match(/^"(.*)"$/);
+   if (literal) return literal[1];
+
+   switch (type) {
+      case 'none': return null;
+      case 'disc': return '\u2022';
+      case 'circle': return '\u25e6';
+      case 'square': return '\u25aa';
+      case 'decimal-leading-zero': return `${ordinal >= 0 && ordinal < 10 ? '0' : ''}${ordinal}.`;
+      case 'lower-alpha':
+      case 'lower-latin': return `${toAlphabetic(ordinal) ?? ordinal}.`;
+      case 'upper-alpha':
+      case 'upper-latin': return `${toAlphabetic(ordinal)?.toUpperCase() ?? ordinal}.`;
+      case 'lower-roman': return `${toRoman(ordinal) ?? ordinal}.`;
+      case 'upper-roman': return `${toRoman(ordinal)?.toUpperCase() ?? ordinal}.`;
+      default: return `${ordinal}.`;
+   }
+}
+
+/**
+ * Number of a list item, following the list's start, reversed and the items' value attributes
+ */
+function listItemOrdinal(item: HTMLLIElement): number {
+   const list = item.parentElement;
+   const items = list ? Array.from(list.children).filter(child => child instanceof HTMLLIElement) : [item];
+   const ordered = list instanceof HTMLOListElement;
+   const reversed = ordered && list.reversed;
+
+   let ordinal = ordered && list.hasAttribute('start') ? list.start : reversed ? items.length : 1;
+   for (const sibling of items) {
+      if (sibling.hasAttribute('value')) ordinal = sibling.value;
+      if (sibling === item) break;
+      ordinal += reversed ? -1 : 1;
+   }
+   return ordinal;
+}
+
+/**
+ * Emit a run for each list item's marker (bullet or number). Markers are drawn by
+ * the browser outside the DOM, so they are placed on the item's first line,
+ * just before its content unless list-style-position is "inside".
+ */
+function collectListMarkers(container: HTMLElement, origin: DOMRect): Placed<Draft<PageTextRun>>[] {
+   const runs: Placed<Draft<PageTextRun>>[] = [];
+   const range = document.createRange();
+   const measure = getContext2d(createCanvas(1, 1));
+
+   try {
+      for (const item of Array.from(container.querySelectorAll('li'))) {
+         const style = getComputedStyle(item);
+         if (style.display !== 'list-item' || style.visibility === 'hidden') continue;
+
+         const text = listMarkerText(style.listStyleType, listItemOrdinal(item));
+         if (!text) continue;
+
+         // The first character of the item's text gives the line the marker sits on
+         const walker = document.createTreeWalker(item, NodeFilter.SHOW_TEXT);
+         let line: DOMRect | undefined;
+         for (let node = walker.nextNode(); node && !line; node = walker.nextNode()) {
+            const start = node.textContent?.search(/\S/) ?? -1;
+            if (start < 0) continue;
+            range.setStart(node, start);
+            range.setEnd(node, start + 1);
+            line = range.getClientRects()[0];
+         }
+         if (!line) continue;
+
+         measure.font = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`;
+         const rect = item.getBoundingClientRect();
+         const contentLeft = rect.left + (parseFloat(style.borderLeftWidth) || 0) + (parseFloat(style.paddingLeft) || 0);
+         const left = style.listStylePosition === 'inside'
+            ? contentLeft
+            : contentLeft - measure.measureText(`${text} `).width;
+
+         const top = line.top - origin.top;
+         runs.push({
+            box: { top, bottom: top + line.height },
+            left: left - origin.left,
+            item: {
+               kind: 'textRun',
+               text,
+               width: measure.measureText(text).width / PX_PER_MM,
+               font: pdfFontFamily(style.fontFamily),
+               fontStyle: pdfFontStyle(style),
+               fontSize: parseFloat(style.fontSize) * PT_PER_PX,
+               color: parseColor(style.color) ?? [0, 0, 0],
+            },
+         });
+      }
+   } finally {
+      range.detach();
+   }
+
+   return runs;
+}
+
+/**
+ * Emit one run per word at the position the browser laid it out.
+ * Placing each word separately keeps PDF font metrics from drifting off the layout.
+ */
+function collectTextRuns(container: HTMLElement, origin: DOMRect): Placed<Draft<PageTextRun>>[] {
+   const runs: Placed<Draft<PageTextRun>>[] = [];
+   const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+   const range = document.createRange();
+
+   for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const parent = node.parentElement;
+      if (!parent || SKIPPED_TAGS.has(parent.tagName) || parent.closest('style, script, noscript, template')) continue;
+
+      const style = getComputedStyle(parent);
+      if (style.visibility === 'hidden') continue;
+
+      const color = parseColor(style.color) ?? [0, 0, 0];
+      const fontSizePx = parseFloat(style.fontSize);
+      const font = pdfFontFamily(style.fontFamily);
+      const fontStyle = pdfFontStyle(style);
+      const { underline, lineThrough } = getDecorations(parent, container);
+      const link = parent.closest('a[href]')?.getAttribute('href') ?? undefined;
+
+      const text = node.textContent ?? '';
+      const wordPattern = new RegExp(WORD_PATTERN, 'g');
+
+      for (let match = wordPattern.exec(text); match; match = wordPattern.exec(text)) {
+         range.setStart(node, match.index);
+         range.setEnd(node, match.index + match[0].length);
+
+         const rect = range.getClientRects()[0];
+         if (!rect || rect.width === 0) continue;
+
+         const top = rect.top - origin.top;
+         runs.push({
+            box: { top, bottom: top + rect.height },
+            left: rect.left - origin.left,
+            item: {
+               kind: 'textRun',
+               text: transformText(match[0], style.textTransform),
+               width: rect.width / PX_PER_MM,
+               font,
+               fontStyle,
+               fontSize: fontSizePx * PT_PER_PX,
+               color,
+               underline,
+               lineThrough,
+               link: link && /^(https?:|mailto:|#.)/i.test(link) ? link : undefined,
+            },
+         });
+      }
+   }
+
+   range.detach();
+   return runs;
+}
+
+/**
+ * Emit filled rectangles for background colors and solid borders
+ */
+function collectRects(container: HTMLElement, origin: DOMRect): Placed<Draft<PageRect>>[] {
+   const rects: Placed<Draft<PageRect>>[] = [];
+
+   const add = (left: number, top: number, width: number, height: number, color: RgbColor) => {
+      if (width <= 0 || height <= 0) return;
+      rects.push({
+         box: { top: top - origin.top, bottom: top - origin.top + height },
+         left: left - origin.left,
+         item: { kind: 'rect', width: width / PX_PER_MM, height: height / PX_PER_MM, color },
+      });
+   };
+
+   for (const element of Array.from(container.querySelectorAll('*'))) {
+      if (SKIPPED_TAGS.has(element.tagName)) continue;
+
+      const style = getComputedStyle(element);
+      if (style.visibility === 'hidden') continue;
+
+      const background = parseColor(style.backgroundColor);
+      const borders = (['Top', 'Right', 'Bottom', 'Left'] as const).map(side => ({
+         side,
+         width: parseFloat(style[`border${side}Width`]) || 0,
+         color: style[`border${side}Style`] === 'none' ? null : parseColor(style[`border${side}Color`]),
+      }));
+
+      if (!background && borders.every(b => !b.color || b.width === 0)) continue;
+
+      // Inline elements that wrap have one rect per line fragment
+      for (const r of Array.from(element.getClientRects())) {
+         if (background) add(r.left, r.top, r.width, r.height, background);
+
+         for (const { side, width, color } of borders) {
+            if (!color || width === 0) continue;
+            switch (side) {
+               case 'Top': add(r.left, r.top, r.width, width, color); break;
+               case 'Bottom': add(r.left, r.bottom - width, r.width, width, color); break;
+               case 'Left': add(r.left, r.top, width, r.height, color); break;
+               case 'Right': add(r.right - width, r.top, width, r.height, color); break;
+            }
+         }
+      }
+   }
+
+   return rects;
+}
+
+/**
+ * Re-encode the container's images as JPEG at their laid-out positions
+ */
+async function collectImages(
+   container: HTMLElement,
+   origin: DOMRect,
+   options: ConversionOptions,
+   maxHeightPx: number,
+   signal?: AbortSignal
+): Promise<Placed<Draft<PageImage>>[]> {
+   const images: Placed<Draft<PageImage>>[] = [];
+
+   for (const img of Array.from(container.querySelectorAll('img'))) {
+      throwIfAborted(signal);
+
+      const rect = img.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0 || img.naturalWidth === 0) continue;
+
+      // Images taller than a page are scaled down to fit one
+      const scale = Math.min(1, maxHeightPx / rect.height);
+      const width = rect.width * scale;
+      const height = rect.height * scale;
+
+      const canvas = createCanvas(Math.ceil(width * IMAGE_SCALE), Math.ceil(height * IMAGE_SCALE));
+      try {
+         const ctx = getContext2d(canvas);
+         ctx.fillStyle = '#ffffff';
+         ctx.fillRect(0, 0, canvas.width, canvas.height);
+         ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+         const data = await canvasToJpeg(canvas, options.quality);
+         const top = rect.top - origin.top;
+         images.push({
+            box: { top, bottom: top + height },
+            left: rect.left - origin.left,
+            item: { kind: 'image', data, format: 'JPEG', width: width / PX_PER_MM, height: height / PX_PER_MM },
+         });
+      } catch {
+         // Cross-origin images taint the canvas and cannot be exported; leave them out
+      } finally {
+         releaseCanvas(canvas);
+      }
+   }
+
+   return images;
+}
+
+/**
+ * Lay out a rendered HTML container as vector PDF pages: real text runs,
+ * filled rectangles and positioned images. Lines and images are never cut
+ * across a page boundary, and the document's own page-break rules are honoured.
+ */
+export async function layoutVectorPages(
+   container: HTMLElement,
+   pageBox: PageBox,
+   options: ConversionOptions,
+   signal?: AbortSignal
+): Promise<PdfPage[]> {
+   const { margin } = pageBox;
+   const pageHeightPx = (pageBox.height - margin.top - margin.bottom) * PX_PER_MM;
+
+   // Wait for images so they have their final size
+   await Promise.all(Array.from(container.querySelectorAll('img')).map(img => img.decode().catch(() => undefined)));
+   throwIfAborted(signal);
+
+   const origin = container.getBoundingClientRect();
+   const rects = collectRects(container, origin);
+   const runs = [...collectListMarkers(container, origin), ...collectTextRuns(container, origin)];
+   const images = await collectImages(container, origin, options, pageHeightPx, signal);
+
+   // Pages break between lines, rows and (fitted) images; rects are split wherever the breaks fall
+   const boxes = [...measureLayoutBoxes(container, pageHeightPx, { skipImages: true }), ...images.map(i => i.box)];
+   const contentHeight = boxes.reduce((max, box) => Math.max(max, box.bottom), 0);
+   const breaks = findPageBreaks(boxes, contentHeight, pageHeightPx, measureForcedBreaks(container));
+   const offset = mirrorOffset(pageBox, options);
+   const pages: PdfPage[] = breaks.map(() => ({ width: pageBox.width, height: pageBox.height, items: [], mirrorOffset: offset }));
+
+   const toX = (left: number) => margin.left + left / PX_PER_MM;
+   const toY = (offset: number, page: number) => margin.top + (offset - breaks[page]) / PX_PER_MM;
+
+   for (const { box, left, item } of rects) {
+      for (let page = pageIndexAt(breaks, box.top); page < pages.length && breaks[page] < box.bottom; page++) {
+         const pageEnd = page + 1 < breaks.length ? breaks[page + 1] : Infinity;
+         const top = Math.max(box.top, breaks[page]);
+         const bottom = Math.min(box.bottom, pageEnd, breaks[page] + pageHeightPx);
+         if (bottom <= top) continue;
+
+         pages[page].items.push({ ...item, x: toX(left), y: toY(top, page), height: (bottom - top) / PX_PER_MM });
+      }
+   }
+
+   for (const { box, left, item } of images) {
+      const page = pageIndexAt(breaks, box.top);
+      pages[page].items.push({ ...item, x: toX(left), y: toY(box.top, page) });
+   }
+
+   // In-document links ("#id") point at the page their target lands on
+   const destinationOf = (link: string | undefined): PdfPage | undefined => {
+      if (!link?.startsWith('#')) return undefined;
+      let id = link.slice(1);
+      try {
+         id = decodeURIComponent(id);
+      } catch {
+         // Not percent-encoded; use the id as written
+      }
+      const target = container.querySelector(`[id="${CSS.escape(id)}"], a[name="${CSS.escape(id)}"]`);
+      return target ? pages[pageIndexAt(breaks, target.getBoundingClientRect().top - origin.top)] : undefined;
+   };
+
+   for (const { box, left, item } of runs) {
+      const page = pageIndexAt(breaks, box.top);
+      const fontSizePx = item.fontSize / PT_PER_PX;
+      const destination = destinationOf(item.link);
+      const link = item.link?.startsWith('#') ? undefined : item.link;
+      // Baseline sits about a fifth of the font size above the bottom of the line box
+      pages[page].items.push({ ...item, link, destination, x: toX(left), y: toY(box.bottom - fontSizePx * 0.21, page) });
+   }
+
+   return pages;
+}
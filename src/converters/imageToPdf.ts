@@ -1,184 +1,225 @@
 import { jsPDF } from 'jspdf';
-import type { ConversionOptions, ConversionResult } from '../types';
-import { readAsDataURL, loadImage } from '../utils';
+import type { ConversionOptions, ImageGrid, ImageLayout } from '../types';
+import { ConversionError, readAsDataURL } from '../utils';
+import { runTask, type DecodedImage } from '../workers';
+import type { PageItem, PageText, PdfPage } from './pdfAssembler';
+import { contentHeight, contentWidth, fitPageBox, mirrorOffset, pageBoxFor, type PageBox } from './pageGeometry';
+import { loadFallbackFonts, measureSpans, registerFont, splitByFont } from './fonts';
+import { isTiff, tiffPreview } from './tiff';
+import { BRAND_SCAN_BYTES, isAvif, isHeif } from './heif';
 
 // Maximum canvas dimension to avoid memory issues
 const MAX_DIMENSION = 4096;
 
-// Page dimensions in mm
-const PAGE_SIZES = {
-   A4: { width: 210, height: 297 },
-   letter: { width: 215.9, height: 279.4 },
-   fit: { width: 210, height: 297 }, // Will be overridden
+// Rows and columns of the preset layouts
+const LAYOUT_GRIDS: Record<Exclude<ImageLayout, 'custom'>, ImageGrid> = {
+   single: { rows: 1, columns: 1 },
+   '2up': { rows: 2, columns: 1 },
+   '4up': { rows: 2, columns: 2 },
+   '9up': { rows: 3, columns: 3 },
 };
 
-interface ImageDimensions {
-   width: number;
-   height: number;
-}
+// Captions are one line of small type under the image
+const CAPTION_FONT = 'helvetica';
+const CAPTION_FONT_SIZE = 9; // pt
+const CAPTION_LINE_HEIGHT = 4; // mm
+const CAPTION_GAP = 1.5; // mm between the image and its caption
+const CAPTION_SPACE = CAPTION_GAP + CAPTION_LINE_HEIGHT + 1; // mm kept under each image, descenders included
+
+// Smallest space (mm) a grid may leave for each image
+const MIN_CELL_SIZE = 10;
+
+// Long side of previews decoded on a worker, in px
+const PREVIEW_DIMENSION = 96;
 
 /**
- * Resize image dimensions to fit within max size while maintaining aspect ratio
+ * Rectangle on a page in mm
  */
-function constrainDimensions(width: number, height: number): ImageDimensions {
-   if (width <= MAX_DIMENSION && height <= MAX_DIMENSION) {
-      return { width, height };
-   }
-
-   const ratio = Math.min(MAX_DIMENSION / width, MAX_DIMENSION / height);
-   return {
-      width: Math.floor(width * ratio),
-      height: Math.floor(height * ratio),
-   };
+interface Area {
+   x: number;
+   y: number;
+   width: number;
+   height: number;
 }
 
 /**
- * Draw image to canvas with optional resizing
+ * A decoded image waiting to be placed on a page
  */
-function imageToCanvas(img: HTMLImageElement): HTMLCanvasElement {
-   const { width, height } = constrainDimensions(img.naturalWidth, img.naturalHeight);
-
-   const canvas = document.createElement('canvas');
-   canvas.width = width;
-   canvas.height = height;
-
-   const ctx = canvas.getContext('2d');
-   if (!ctx) throw new Error('Failed to get canvas context');
-
-   ctx.drawImage(img, 0, 0, width, height);
-   return canvas;
+export interface ImageCell extends DecodedImage {
+   name: string; // filename, shown as the caption
 }
 
 /**
- * Calculate image placement on PDF page
+ * Calculate image placement: as large as fits in the area, centered
  */
-function calculatePlacement(
-   imgWidth: number,
-   imgHeight: number,
-   pageWidth: number,
-   pageHeight: number,
-   margin: number
-): { x: number; y: number; width: number; height: number } {
-   const availWidth = pageWidth - margin * 2;
-   const availHeight = pageHeight - margin * 2;
-
+function calculatePlacement(imgWidth: number, imgHeight: number, area: Area): Area {
    const imgRatio = imgWidth / imgHeight;
-   const pageRatio = availWidth / availHeight;
+   const areaRatio = area.width / area.height;
 
    let width: number, height: number;
 
-   if (imgRatio > pageRatio) {
-      // Image is wider than page ratio
-      width = availWidth;
-      height = availWidth / imgRatio;
+   if (imgRatio > areaRatio) {
+      // Image is wider than area ratio
+      width = area.width;
+      height = area.width / imgRatio;
    } else {
-      // Image is taller than page ratio
-      height = availHeight;
-      width = availHeight * imgRatio;
+      // Image is taller than area ratio
+      height = area.height;
+      width = area.height * imgRatio;
    }
 
-   // Center on page
-   const x = margin + (availWidth - width) / 2;
-   const y = margin + (availHeight - height) / 2;
+   // Center in area
+   const x = area.x + (area.width - width) / 2;
+   const y = area.y + (area.height - height) / 2;
 
    return { x, y, width, height };
 }
 
 /**
- * Convert multiple images to a single PDF with one image per page
+ * Rows and columns of images on each page
  */
-export async function imagesToPdf(
-   files: File[],
-   options: ConversionOptions,
-   onProgress?: (progress: number) => void
-): Promise<ConversionResult> {
-   if (files.length === 0) {
-      throw new Error('No images to convert');
-   }
+function layoutGrid(options: ConversionOptions): ImageGrid {
+   return options.imageLayout === 'custom' ? options.imageGrid : LAYOUT_GRIDS[options.imageLayout];
+}
 
-   const pageSize = PAGE_SIZES[options.pageSize];
-   let pdf: jsPDF | null = null;
-
-   for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      onProgress?.((i / files.length) * 100);
-
-      // Read and load image
-      const dataUrl = await readAsDataURL(file);
-      const img = await loadImage(dataUrl);
-
-      // Convert to canvas (handles resizing)
-      const canvas = imageToCanvas(img);
-      const imgData = canvas.toDataURL('image/jpeg', options.quality);
-
-      // Determine page dimensions
-      let pageW = pageSize.width;
-      let pageH = pageSize.height;
-
-      if (options.pageSize === 'fit') {
-         // Scale to fit image with some margin
-         const imgRatio = canvas.width / canvas.height;
-         if (imgRatio > 1) {
-            pageW = 297; // A4 landscape width
-            pageH = pageW / imgRatio;
-         } else {
-            pageH = 297; // A4 portrait height
-            pageW = pageH * imgRatio;
-         }
-         pageW += options.margin * 2;
-         pageH += options.margin * 2;
-      }
+/**
+ * Page for an image on its own: the chosen paper, turned to the image in automatic
+ * orientation, or in 'fit' mode a page the image's shape with the margins around it
+ */
+function singleImagePageBox(image: DecodedImage, options: ConversionOptions, captionSpace: number): PageBox {
+   const imgRatio = image.width / image.height;
+   return options.pageSize === 'fit' ? fitPageBox(imgRatio, options, captionSpace) : pageBoxFor(options, imgRatio > 1);
+}
 
-      // Create PDF or add page
-      if (i === 0) {
-         const orientation = pageW > pageH ? 'landscape' : 'portrait';
-         pdf = new jsPDF({
-            orientation,
-            unit: 'mm',
-            format: options.pageSize === 'fit' ? [pageW, pageH] : options.pageSize.toLowerCase() as 'a4' | 'letter',
-         });
-      } else {
-         const orientation = pageW > pageH ? 'l' : 'p';
-         pdf!.addPage(
-            options.pageSize === 'fit' ? [pageW, pageH] : options.pageSize.toLowerCase() as 'a4' | 'letter',
-            orientation
-         );
+/**
+ * Caption line centered under an image, with the filename shortened before
+ * its extension if it is wider than the space the image has
+ */
+function captionItem(pdf: jsPDF, name: string, image: Area, maxWidth: number): PageText {
+   const measure = (text: string) => measureSpans(pdf, splitByFont(pdf, text, CAPTION_FONT, 'normal'), CAPTION_FONT_SIZE);
+
+   let text = name;
+   let width = measure(text);
+   if (width > maxWidth) {
+      const dot = name.lastIndexOf('.');
+      const extension = dot > 0 ? name.slice(dot) : '';
+      const chars = Array.from(dot > 0 ? name.slice(0, dot) : name);
+      while (chars.length > 0 && width > maxWidth) {
+         chars.pop();
+         text = chars.join('') + '\u2026' + extension;
+         width = measure(text);
       }
-
-      // Calculate placement and add image
-      const { x, y, width, height } = calculatePlacement(
-         canvas.width,
-         canvas.height,
-         pageW,
-         pageH,
-         options.margin
-      );
-
-      pdf!.addImage(imgData, 'JPEG', x, y, width, height);
-
-      // Cleanup canvas
-      canvas.width = 0;
-      canvas.height = 0;
    }
 
-   onProgress?.(100);
-
-   // Generate output
-   const blob = pdf!.output('blob');
    return {
-      blob,
-      filename: 'converted-images.pdf',
-      pageCount: files.length,
+      kind: 'text',
+      lines: [text],
+      x: image.x + (image.width - width) / 2,
+      y: image.y + image.height + CAPTION_GAP,
+      width,
+      lineHeight: CAPTION_LINE_HEIGHT,
+      font: CAPTION_FONT,
+      fontStyle: 'normal',
+      fontSize: CAPTION_FONT_SIZE,
    };
 }
 
 /**
- * Convert a single image to PDF
+ * Decode an image file for layout: one cell per page of a multi-page TIFF or
+ * frame of an animation, numbered in their names. Decoding and encoding run on a conversion worker.
  */
-export async function imageToPdf(
+export async function decodeImageCells(
    file: File,
    options: ConversionOptions,
-   onProgress?: (progress: number) => void
-): Promise<ConversionResult> {
-   return imagesToPdf([file], options, onProgress);
+   signal?: AbortSignal
+): Promise<ImageCell[]> {
+   // Decode, resize and re-encode off the main thread
+   const images = await runTask({
+      type: 'decodeImage',
+      file,
+      quality: options.quality,
+      maxDimension: MAX_DIMENSION,
+      metadata: options.photoMetadata,
+      frames: options.animationFrames,
+   }, signal);
+
+   return images.map((image, index) => ({
+      ...image,
+      name: images.length > 1 ? `${file.name} (${index + 1}/${images.length})` : file.name,
+   }));
+}
+
+/**
+ * Preview of an image file as a data URL. Many browsers cannot show TIFF, HEIF
+ * or AVIF in an <img>, so those are decoded into a small thumbnail instead.
+ */
+export async function imagePreview(file: File): Promise<string> {
+   const head = new Uint8Array(await file.slice(0, BRAND_SCAN_BYTES).arrayBuffer());
+   if (isTiff(head)) return tiffPreview(file);
+   if (!isHeif(head) && !isAvif(head)) return readAsDataURL(file);
+
+   const [image] = await runTask({
+      type: 'decodeImage',
+      file,
+      quality: 0.8,
+      maxDimension: PREVIEW_DIMENSION,
+      metadata: 'strip',
+      frames: false,
+   });
+   return readAsDataURL(new File([image.data], 'preview.jpg', { type: 'image/jpeg' }));
+}
+
+/**
+ * Lay out decoded images in order, one per page or several per page in the
+ * layout's grid, filled row by row. Each image is centered in its cell, with
+ * its filename under it when captions are on.
+ */
+export async function layoutImagePages(cells: ImageCell[], options: ConversionOptions): Promise<PdfPage[]> {
+   const { rows, columns } = layoutGrid(options);
+   const perPage = rows * columns;
+   const gutter = perPage > 1 ? options.imageGutter : 0;
+   const captionSpace = options.imageCaptions ? CAPTION_SPACE : 0;
+
+   // Measure captions with the fonts the assembler will draw them in
+   const pdf = new jsPDF({ unit: 'mm' });
+   if (options.imageCaptions) {
+      for (const font of await loadFallbackFonts(cells.map(cell => cell.name).join('\n'))) {
+         registerFont(pdf, font);
+      }
+   }
+
+   const pages: PdfPage[] = [];
+   for (let start = 0; start < cells.length; start += perPage) {
+      const pageCells = cells.slice(start, start + perPage);
+      const pageBox = perPage === 1 ? singleImagePageBox(pageCells[0], options, captionSpace) : pageBoxFor(options);
+      const cellWidth = (contentWidth(pageBox) - gutter * (columns - 1)) / columns;
+      const cellHeight = (contentHeight(pageBox) - gutter * (rows - 1)) / rows;
+
+      if (cellWidth < MIN_CELL_SIZE || cellHeight - captionSpace < MIN_CELL_SIZE) {
+         throw new ConversionError('render-failed', 'The images do not fit on the page; use fewer per page, a smaller gutter or smaller margins');
+      }
+
+      const items: PageItem[] = [];
+      pageCells.forEach((cell, index) => {
+         const area = {
+            x: pageBox.margin.left + (index % columns) * (cellWidth + gutter),
+            y: pageBox.margin.top + Math.floor(index / columns) * (cellHeight + gutter),
+            width: cellWidth,
+            height: cellHeight - captionSpace,
+         };
+         const placement = calculatePlacement(cell.width, cell.height, area);
+
+         items.push({ kind: 'image', data: cell.data, format: cell.format, ...placement });
+         if (options.imageCaptions) items.push(captionItem(pdf, cell.name, placement, cellWidth));
+      });
+
+      pages.push({
+         width: pageBox.width,
+         height: pageBox.height,
+         items,
+         mirrorOffset: mirrorOffset(pageBox, options),
+      });
+   }
+
+   return pages;
 }
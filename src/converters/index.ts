@@ -1,4 +1,3 @@
-export { imageToPdf, imagesToPdf } from './imageToPdf';
-export { textToPdf, textsToSinglePdf } from './textToPdf';
-export { htmlToPdf, htmlsToSinglePdf } from './htmlToPdf';
-export { docxToPdf, docxsToSinglePdf } from './docxExtractor';
+export { imagePreview } from './imageToPdf';
+export { convertToSinglePdf, convertToSeparatePdfs } from './pipeline';
+export { readFontFile } from './fonts';
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToHtml } from './markdown';
+
+describe('markdownToHtml', () => {
+   it('escapes raw HTML instead of passing it through', () => {
+      const html = markdownToHtml('<img src=x onerror="alert(1)">\n\ntext <script>alert(1)</script>');
+      expect(html).not.toContain('<img');
+      expect(html).not.toContain('<script');
+      expect(html).toContain('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+   });
+
+   it('does not link javascript: URLs', () => {
+      expect(markdownToHtml('[click](javascript:alert(1))')).not.toContain('href="javascript:');
+   });
+
+   it('renders GFM tables, strikethrough and task lists', () => {
+      const html = markdownToHtml('| a | b |\n| - | - |\n| 1 | 2 |\n\n~~old~~\n\n- [x] done\n- [ ] todo');
+      expect(html).toContain('<table>');
+      expect(html).toContain('<s>old</s>');
+      expect(html).toContain('task-checkbox--checked');
+   });
+});
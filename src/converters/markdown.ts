@@ -0,0 +1,55 @@
+import markdownIt, { type MarkdownIt, type StateCore } from 'markdown-it';
+import footnote from 'markdown-it-footnote';
+
+// "[ ] " or "[x] " at the start of a list item
+const TASK_MARKER = /^\[([ xX])\][ \t]/;
+
+/**
+ * GFM task lists: turn a leading "[ ]" / "[x]" in a list item into a checkbox.
+ * The box is a styled span rather than an <input> so it renders in both
+ * vector and raster output.
+ */
+function taskLists(md: MarkdownIt): void {
+   md.core.ruler.after('inline', 'task_lists', (state: StateCore) => {
+      const tokens = state.tokens;
+
+      for (let i = 2; i < tokens.length; i++) {
+         const inline = tokens[i];
+         if (inline.type !== 'inline' || tokens[i - 1].type !== 'paragraph_open' || tokens[i - 2].type !== 'list_item_open') {
+            continue;
+         }
+
+         const first = inline.children?.[0];
+         const match = first?.type === 'text' ? first.content.match(TASK_MARKER) : null;
+         if (!first || !match) continue;
+
+         const checked = match[1] !== ' ';
+         first.content = first.content.slice(match[0].length);
+
+         const box = new state.Token('html_inline', '', 0);
+         box.content = checked
+            ? '<span class="task-checkbox task-checkbox--checked" role="checkbox" aria-checked="true"></span> '
+            : '<span class="task-checkbox" role="checkbox" aria-checked="false"></span> ';
+         inline.children!.unshift(box);
+
+         tokens[i - 2].attrJoin('class', 'task-list-item');
+      }
+   });
+}
+
+// CommonMark with the GitHub extensions: tables, strikethrough, autolinks,
+// task lists and footnotes. Raw HTML is escaped rather than passed through:
+// the output is mounted into the page, where tags like <img onerror> would run.
+const markdown = markdownIt('default', { html: false, linkify: true })
+   .use(footnote)
+   .use(taskLists);
+
+// Footnote back-links ("↩") are no use on paper
+markdown.renderer.rules.footnote_anchor = () => '';
+
+/**
+ * Render Markdown (CommonMark + GFM) to HTML
+ */
+export function markdownToHtml(source: string): string {
+   return markdown.render(source);
+}
@@ -0,0 +1,127 @@
+import type { ConversionOptions, CustomPageSize, PageMargins, PaperSize } from '../types';
+import { ConversionError } from '../utils';
+
+/**
+ * Size of a sheet of paper in mm
+ */
+export interface PageSize {
+   width: number;
+   height: number;
+}
+
+/**
+ * Page box in mm: paper size plus the margin on each side
+ */
+export interface PageBox extends PageSize {
+   margin: PageMargins;
+}
+
+// Paper sizes in mm (portrait)
+export const PAPER_SIZES: Record<Exclude<PaperSize, 'custom' | 'fit'>, PageSize> = {
+   A3: { width: 297, height: 420 },
+   A4: { width: 210, height: 297 },
+   A5: { width: 148, height: 210 },
+   B5: { width: 176, height: 250 },
+   letter: { width: 215.9, height: 279.4 },
+   legal: { width: 215.9, height: 355.6 },
+   tabloid: { width: 279.4, height: 431.8 },
+};
+
+export const MM_PER_INCH = 25.4;
+
+// Smallest content area (mm) a page may be left with after its margins
+export const MIN_CONTENT_SIZE = 20;
+
+// Long side of a page's content area in 'fit' mode, before margins (mm)
+const FIT_LONG_SIDE = Math.max(PAPER_SIZES.A4.width, PAPER_SIZES.A4.height);
+
+/**
+ * Turn a size upright or on its side
+ */
+export function orient(size: PageSize, landscape: boolean): PageSize {
+   const long = Math.max(size.width, size.height);
+   const short = Math.min(size.width, size.height);
+   return landscape ? { width: long, height: short } : { width: short, height: long };
+}
+
+/**
+ * Custom paper dimensions in mm
+ */
+function customPaper(size: CustomPageSize): PageSize {
+   const scale = size.unit === 'in' ? MM_PER_INCH : 1;
+   return { width: size.width * scale, height: size.height * scale };
+}
+
+/**
+ * Paper size chosen in the options, in mm. Automatic orientation follows
+ * `landscapeContent` when the converter knows the shape of its content, and
+ * otherwise leaves the paper as it is given. 'fit' stands for A4 here; the
+ * image converter sizes those pages itself.
+ */
+export function paperSize(options: ConversionOptions, landscapeContent?: boolean): PageSize {
+   const paper = options.pageSize === 'custom'
+      ? customPaper(options.customSize)
+      : PAPER_SIZES[options.pageSize === 'fit' ? 'A4' : options.pageSize];
+
+   if (options.orientation === 'auto') {
+      return landscapeContent === undefined ? paper : orient(paper, landscapeContent);
+   }
+   return orient(paper, options.orientation === 'landscape');
+}
+
+/**
+ * Margins from the options, with the gutter added to the bound (left) edge
+ */
+export function pageMargins(options: ConversionOptions): PageMargins {
+   const { top, right, bottom, left } = options.margins;
+   return { top, right, bottom, left: left + options.gutter };
+}
+
+/**
+ * Page box from the options: the paper and its margins
+ */
+export function pageBoxFor(options: ConversionOptions, landscapeContent?: boolean): PageBox {
+   const box = { ...paperSize(options, landscapeContent), margin: pageMargins(options) };
+
+   if (contentWidth(box) < MIN_CONTENT_SIZE || contentHeight(box) < MIN_CONTENT_SIZE) {
+      throw new ConversionError('render-failed', 'The margins leave no room for content on this paper size');
+   }
+   return box;
+}
+
+/**
+ * Page for 'fit' paper: a content area of the given shape (width over height)
+ * as long as A4 on its long side, with the margins and any extra height around it
+ */
+export function fitPageBox(ratio: number, options: ConversionOptions, extraHeight = 0): PageBox {
+   const margin = pageMargins(options);
+   const width = ratio > 1 ? FIT_LONG_SIDE : FIT_LONG_SIDE * ratio;
+   const height = ratio > 1 ? FIT_LONG_SIDE / ratio : FIT_LONG_SIDE;
+   return {
+      width: width + margin.left + margin.right,
+      height: height + extraHeight + margin.top + margin.bottom,
+      margin,
+   };
+}
+
+/**
+ * Width of the area inside the margins, in mm
+ */
+export function contentWidth(box: PageBox): number {
+   return box.width - box.margin.left - box.margin.right;
+}
+
+/**
+ * Height of the area inside the margins, in mm
+ */
+export function contentHeight(box: PageBox): number {
+   return box.height - box.margin.top - box.margin.bottom;
+}
+
+/**
+ * How far the content of even (left-hand) pages moves so that their margins mirror
+ * the odd pages' and the gutter stays on the bound edge; undefined when margins are not mirrored
+ */
+export function mirrorOffset(box: PageBox, options: ConversionOptions): number | undefined {
+   return options.mirrorMargins ? box.margin.right - box.margin.left : undefined;
+}
@@ -0,0 +1,178 @@
+import html2canvas from 'html2canvas';
+import type { ConversionOptions } from '../types';
+import { canvasToJpeg, releaseCanvas, throwIfAborted, abortable } from '../utils';
+import type { PageItem, PdfPage } from './pdfAssembler';
+import type { PageBox } from './pageGeometry';
+import { createRenderContainer } from './renderContainer';
+import { layoutVectorPages } from './htmlVector';
+
+/**
+ * HTML repeated on every page. The first-page and even-page variants replace
+ * the default on those pages when they are given.
+ */
+export interface RunningContent {
+   default?: string;
+   first?: string;
+   even?: string;
+}
+
+/**
+ * Headers and footers drawn in the page margins; distances are in mm from the page edge.
+ * Elements marked data-field="page" or data-field="pages" show the page number or count.
+ */
+export interface PageRegions {
+   header?: RunningContent;
+   footer?: RunningContent;
+   headerDistance: number;
+   footerDistance: number;
+}
+
+/**
+ * A header or footer laid out once, positioned from the top of the region (mm)
+ */
+interface RegionLayout {
+   items: PageItem[];
+   height: number;
+}
+
+// Pixels per mm at 96 DPI
+const PX_PER_MM = 96 / 25.4;
+
+// html2canvas render scale (higher quality)
+const RENDER_SCALE = 2;
+
+/**
+ * Where a run of pages sits in the whole document: the number of its first page
+ * and the document's page count
+ */
+export interface PageNumbering {
+   first: number;
+   count: number;
+}
+
+/**
+ * Choose the variant of running content shown on a page, from its index in the run
+ * and its page number in the document
+ */
+function contentForPage(content: RunningContent | undefined, index: number, pageNumber: number): string | undefined {
+   if (!content) return undefined;
+   if (index === 0 && content.first !== undefined) return content.first;
+   if (pageNumber % 2 === 0 && content.even !== undefined) return content.even;
+   return content.default;
+}
+
+/**
+ * Replace the text of a page field, keeping the formatting of its innermost element
+ */
+function fillField(field: Element, value: string): void {
+   let target = field;
+   while (target.firstElementChild) target = target.firstElementChild;
+   target.textContent = value;
+}
+
+/**
+ * Lay out a header or footer across the page's content width
+ */
+async function layoutRegion(
+   html: string,
+   pageNumber: number,
+   pageCount: number,
+   pageBox: PageBox,
+   options: ConversionOptions,
+   signal?: AbortSignal
+): Promise<RegionLayout> {
+   const { margin } = pageBox;
+   const contentWidthMm = pageBox.width - margin.left - margin.right;
+   const container = createRenderContainer(html, contentWidthMm * PX_PER_MM, options.codeTheme);
+   container.style.padding = '0';
+
+   try {
+      container.querySelectorAll('[data-field="page"]').forEach(field => fillField(field, String(pageNumber)));
+      container.querySelectorAll('[data-field="pages"]').forEach(field => fillField(field, String(pageCount)));
+
+      const height = container.getBoundingClientRect().height / PX_PER_MM;
+
+      if (options.renderMode === 'vector') {
+         // One tall page, so the region is never split
+         const regionBox = { width: pageBox.width, height: height + 1, margin: { ...margin, top: 0, bottom: 0 } };
+         const [page] = await layoutVectorPages(container, regionBox, options, signal);
+         return { items: page?.items ?? [], height };
+      }
+
+      const rendering = html2canvas(container, {
+         scale: RENDER_SCALE,
+         useCORS: true,
+         logging: false,
+         backgroundColor: '#ffffff',
+      });
+      let canvas: HTMLCanvasElement;
+      try {
+         canvas = await abortable(rendering, signal);
+      } catch (error) {
+         rendering.then(releaseCanvas, () => undefined);
+         throw error;
+      }
+
+      try {
+         const data = await canvasToJpeg(canvas, options.quality);
+         return {
+            items: [{ kind: 'image', data, format: 'JPEG', x: margin.left, y: 0, width: contentWidthMm, height }],
+            height,
+         };
+      } finally {
+         releaseCanvas(canvas);
+      }
+   } finally {
+      container.remove();
+   }
+}
+
+/**
+ * Draw headers and footers onto every page, in the top and bottom margins.
+ * The first-page variant goes on the first of the pages given; page fields are
+ * numbered from numbering, which defaults to these pages being the whole document.
+ * Each distinct header or footer (after filling in page fields) is laid out once.
+ */
+export async function addPageRegions(
+   pages: PdfPage[],
+   regions: PageRegions,
+   pageBox: PageBox,
+   options: ConversionOptions,
+   signal?: AbortSignal,
+   numbering: PageNumbering = { first: 1, count: pages.length }
+): Promise<void> {
+   const layouts = new Map<string, Promise<RegionLayout>>();
+
+   const layoutFor = (html: string, pageNumber: number) => {
+      // Only content with page fields differs from page to page
+      const hasFields = html.includes('data-field=');
+      const key = hasFields ? `${pageNumber}:${html}` : html;
+      let layout = layouts.get(key);
+      if (!layout) {
+         layout = layoutRegion(html, pageNumber, numbering.count, pageBox, options, signal);
+         layouts.set(key, layout);
+      }
+      return layout;
+   };
+
+   for (let index = 0; index < pages.length; index++) {
+      throwIfAborted(signal);
+
+      const page = pages[index];
+      const pageNumber = numbering.first + index;
+      const header = contentForPage(regions.header, index, pageNumber);
+      const footer = contentForPage(regions.footer, index, pageNumber);
+
+      if (header) {
+         const { items } = await layoutFor(header, pageNumber);
+         page.items.push(...items.map(item => ({ ...item, y: item.y + regions.headerDistance })));
+      }
+
+      if (footer) {
+         // The footer's bottom edge sits at the footer distance from the bottom of the page
+         const { items, height } = await layoutFor(footer, pageNumber);
+         const top = page.height - regions.footerDistance - height;
+         page.items.push(...items.map(item => ({ ...item, y: item.y + top })));
+      }
+   }
+}
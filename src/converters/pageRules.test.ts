@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { applyPageRules, type PageDeclarations } from './pageRules';
+import type { PageBox } from './pageGeometry';
+
+const defaults: PageBox = { width: 210, height: 297, margin: { top: 20, right: 15, bottom: 20, left: 15 } };
+
+/**
+ * An @page rule from a map of descriptors
+ */
+function rule(declarations: Record<string, string>): PageDeclarations {
+   return { getPropertyValue: property => declarations[property] ?? '' };
+}
+
+describe('applyPageRules', () => {
+   it('keeps the defaults without rules', () => {
+      expect(applyPageRules([], defaults)).toEqual(defaults);
+   });
+
+   it('applies named sizes, orientation and margins', () => {
+      const box = applyPageRules([rule({ size: 'A5 landscape', 'margin-top': '1cm', 'margin-left': '10%' })], defaults);
+      expect(box).toEqual({ width: 210, height: 148, margin: { top: 10, right: 15, bottom: 20, left: 21 } });
+   });
+
+   it('lets later rules override earlier ones', () => {
+      const box = applyPageRules([rule({ size: 'letter' }), rule({ size: '100mm 150mm' })], defaults);
+      expect(box).toMatchObject({ width: 100, height: 150 });
+   });
+
+   it('drops margins that leave no room for content', () => {
+      const box = applyPageRules([rule({ 'margin-left': '100mm', 'margin-right': '100mm' })], defaults);
+      expect(box).toEqual(defaults);
+   });
+
+   it('keeps a small page with the default margins when its own margins do not fit', () => {
+      const box = applyPageRules([rule({ size: '80mm 80mm', 'margin-top': '50mm' })], defaults);
+      expect(box).toEqual({ width: 80, height: 80, margin: defaults.margin });
+   });
+
+   it('falls back to the default page when the size is too small for content', () => {
+      expect(applyPageRules([rule({ size: '10mm 10mm' })], defaults)).toEqual(defaults);
+      expect(applyPageRules([rule({ size: '10mm 10mm', 'margin-top': '0', 'margin-right': '0', 'margin-bottom': '0', 'margin-left': '0' })], defaults)).toEqual(defaults);
+   });
+});
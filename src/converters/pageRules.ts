@@ -0,0 +1,162 @@
+import { MIN_CONTENT_SIZE, PAPER_SIZES, contentHeight, contentWidth, orient, type PageBox, type PageSize } from './pageGeometry';
+
+type PageSide = keyof PageBox['margin'];
+
+// Named page sizes from CSS Paged Media, in mm (portrait)
+const NAMED_SIZES: Record<string, PageSize> = {
+   a5: PAPER_SIZES.A5,
+   a4: PAPER_SIZES.A4,
+   a3: PAPER_SIZES.A3,
+   b5: PAPER_SIZES.B5,
+   b4: { width: 250, height: 353 },
+   'jis-b5': { width: 182, height: 257 },
+   'jis-b4': { width: 257, height: 364 },
+   letter: PAPER_SIZES.letter,
+   legal: PAPER_SIZES.legal,
+   ledger: PAPER_SIZES.tabloid,
+};
+
+// mm per CSS absolute length unit
+const MM_PER_UNIT: Record<string, number> = {
+   mm: 1,
+   cm: 10,
+   q: 0.25,
+   in: 25.4,
+   pt: 25.4 / 72,
+   pc: 25.4 / 6,
+   px: 25.4 / 96,
+};
+
+/**
+ * Parse an absolute CSS length into mm; null for anything else
+ */
+function parseLength(value: string): number | null {
+   if (value === '0') return 0;
+
+   const match = value.match(/^(-?\d*\.?\d+)([a-z]+)$/i);
+   const unit = match && MM_PER_UNIT[match[2].toLowerCase()];
+   return unit ? parseFloat(match[1]) * unit : null;
+}
+
+/**
+ * Parse the "size" descriptor of an @page rule ("A4 landscape", "8.5in 11in", ...)
+ */
+function parsePageSize(value: string, current: PageSize): PageSize | null {
+   const tokens = value.trim().toLowerCase().split(/\s+/).filter(Boolean);
+   if (tokens.length === 0 || tokens[0] === 'auto') return null;
+
+   let size = current;
+   let orientation: 'portrait' | 'landscape' | null = null;
+   const lengths: number[] = [];
+
+   for (const token of tokens) {
+      if (token === 'portrait' || token === 'landscape') {
+         orientation = token;
+      } else if (NAMED_SIZES[token]) {
+         size = NAMED_SIZES[token];
+      } else {
+         const length = parseLength(token);
+         if (length === null || length <= 0) return null;
+         lengths.push(length);
+      }
+   }
+
+   if (lengths.length > 0) {
+      size = { width: lengths[0], height: lengths[1] ?? lengths[0] };
+   }
+
+   if (orientation) {
+      size = orient(size, orientation === 'landscape');
+   }
+
+   return size;
+}
+
+/**
+ * Parse a page margin; percentages refer to the page width (left/right) or height (top/bottom)
+ */
+function parseMargin(value: string, side: PageSide, page: PageSize): number | null {
+   const trimmed = value.trim();
+   if (trimmed.endsWith('%')) {
+      const percent = parseFloat(trimmed);
+      if (isNaN(percent)) return null;
+      return (percent / 100) * (side === 'left' || side === 'right' ? page.width : page.height);
+   }
+
+   const length = parseLength(trimmed);
+   return length !== null && length >= 0 ? length : null;
+}
+
+/**
+ * Collect the @page rules that apply to every page, in cascade order.
+ * Rules scoped to :first, :left, :right or named pages are not supported.
+ */
+function collectPageRules(container: HTMLElement): CSSPageRule[] {
+   const rules: CSSPageRule[] = [];
+
+   for (const style of Array.from(container.querySelectorAll('style'))) {
+      let cssRules: CSSRuleList;
+      try {
+         if (!style.sheet) continue;
+         cssRules = style.sheet.cssRules;
+      } catch {
+         continue;
+      }
+
+      for (const rule of Array.from(cssRules)) {
+         if (rule instanceof CSSPageRule && rule.selectorText.trim() === '') {
+            rules.push(rule);
+         }
+      }
+   }
+
+   return rules;
+}
+
+/**
+ * The declarations of an @page rule (a CSSStyleDeclaration in the browser)
+ */
+export interface PageDeclarations {
+   getPropertyValue(property: string): string;
+}
+
+/**
+ * Whether a page box leaves at least the minimum room for content
+ */
+function hasContentRoom(box: PageBox): boolean {
+   return contentWidth(box) >= MIN_CONTENT_SIZE && contentHeight(box) >= MIN_CONTENT_SIZE;
+}
+
+/**
+ * Apply @page size and margin declarations, in cascade order, on top of a page box.
+ * Margins that leave no room for content fall back to the defaults, and so does a
+ * page too small for content even then.
+ */
+export function applyPageRules(rules: PageDeclarations[], defaults: PageBox): PageBox {
+   let size = { width: defaults.width, height: defaults.height };
+   const margin = { ...defaults.margin };
+
+   for (const rule of rules) {
+      size = parsePageSize(rule.getPropertyValue('size'), size) ?? size;
+
+      for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+         const value = rule.getPropertyValue(`margin-${side}`);
+         if (!value) continue;
+         margin[side] = parseMargin(value, side, size) ?? margin[side];
+      }
+   }
+
+   const box = { ...size, margin };
+   if (hasContentRoom(box)) return box;
+
+   const defaultMargins = { ...size, margin: { ...defaults.margin } };
+   return hasContentRoom(defaultMargins) ? defaultMargins : { ...defaults, margin: { ...defaults.margin } };
+}
+
+/**
+ * Apply the document's @page size and margin rules on top of the page box
+ * chosen in the conversion options
+ */
+export function resolvePageBox(container: HTMLElement, defaults: PageBox): PageBox {
+   return applyPageRules(collectPageRules(container).map(rule => rule.style), defaults);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { findPageBreaks, pageIndexAt } from './pagination';
+
+describe('findPageBreaks', () => {
+   it('keeps content that fits on one page', () => {
+      expect(findPageBreaks([{ top: 0, bottom: 40 }, { top: 50, bottom: 90 }], 90, 100)).toEqual([0]);
+   });
+
+   it('moves a line that would be cut to the next page, breaking midway through the gap above it', () => {
+      const boxes = [{ top: 0, bottom: 40 }, { top: 50, bottom: 120 }];
+      expect(findPageBreaks(boxes, 120, 100)).toEqual([0, 45]);
+   });
+
+   it('breaks right above a box when there is no gap', () => {
+      const boxes = [{ top: 0, bottom: 60 }, { top: 60, bottom: 130 }];
+      expect(findPageBreaks(boxes, 130, 100)).toEqual([0, 60]);
+   });
+
+   it('cuts a box taller than a page at page-height intervals', () => {
+      expect(findPageBreaks([{ top: 0, bottom: 250 }], 250, 100)).toEqual([0, 100, 200]);
+   });
+
+   it('sorts boxes by position before placing them', () => {
+      const boxes = [{ top: 50, bottom: 120 }, { top: 0, bottom: 40 }];
+      expect(findPageBreaks(boxes, 120, 100)).toEqual([0, 45]);
+   });
+
+   it('starts a new page at a forced break', () => {
+      const boxes = [{ top: 0, bottom: 20 }, { top: 30, bottom: 50 }];
+      expect(findPageBreaks(boxes, 50, 100, [25])).toEqual([0, 25]);
+   });
+
+   it('ignores forced breaks before any content and after the last box', () => {
+      const boxes = [{ top: 10, bottom: 20 }, { top: 30, bottom: 50 }];
+      expect(findPageBreaks(boxes, 50, 100, [0, 5, 60])).toEqual([0]);
+   });
+
+   it('pages content that no box covers', () => {
+      expect(findPageBreaks([], 250, 100)).toEqual([0, 100, 200]);
+   });
+
+   it('keeps everything on one page when a page has no height', () => {
+      expect(findPageBreaks([{ top: 0, bottom: 250 }], 250, 0)).toEqual([0]);
+      expect(findPageBreaks([{ top: 0, bottom: 250 }], 250, -10)).toEqual([0]);
+   });
+});
+
+describe('pageIndexAt', () => {
+   it('finds the page an offset falls on', () => {
+      const breaks = [0, 45, 140];
+      expect(pageIndexAt(breaks, 0)).toBe(0);
+      expect(pageIndexAt(breaks, 44)).toBe(0);
+      expect(pageIndexAt(breaks, 45)).toBe(1);
+      expect(pageIndexAt(breaks, 500)).toBe(2);
+   });
+});
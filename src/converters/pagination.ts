@@ -0,0 +1,253 @@
+/**
+ * Vertical extent of a laid-out box that should not be split across pages (px)
+ */
+export interface LayoutBox {
+   top: number;
+   bottom: number;
+}
+
+// Elements kept whole on a page when they fit
+const ATOMIC_SELECTOR = 'img, svg, canvas, video, iframe, hr, tr';
+
+// Elements whose text is never rendered
+const SKIPPED_SELECTOR = 'style, script, noscript, template';
+
+// break-before / break-after values (and their page-break-* aliases) that force a new page
+const FORCED_BREAK_VALUES = new Set(['page', 'always', 'left', 'right', 'recto', 'verso']);
+
+// Marks header rows copied onto the top of a page by repeatTableHeaders
+const REPEATED_HEADER_CLASS = 'repeated-table-header';
+
+// Upper bound on header insertions, in case pagination never settles
+const MAX_HEADER_REPEATS = 1000;
+
+// break-inside values that keep an element on one page
+const AVOID_BREAK_VALUES = new Set(['avoid', 'avoid-page']);
+
+/**
+ * The body row a header row (from <thead>, or a repeated copy) must share a page with
+ */
+function rowAfterHeader(row: HTMLTableRowElement): HTMLTableRowElement | null {
+   if (row.classList.contains(REPEATED_HEADER_CLASS)) {
+      let next = row.nextElementSibling;
+      while (next?.classList.contains(REPEATED_HEADER_CLASS)) next = next.nextElementSibling;
+      return next as HTMLTableRowElement | null;
+   }
+
+   const table = row.closest('table');
+   if (row.parentElement?.tagName !== 'THEAD' || !table) return null;
+   return table.tBodies[0]?.rows[0] ?? null;
+}
+
+/**
+ * Measure the boxes of a rendered container that pages should not cut through:
+ * every line of text, images, rules, table rows and elements styled with
+ * `break-inside: avoid`. Rows and avoided elements taller than a page are left
+ * out so the lines inside them can decide the breaks.
+ * Offsets are in px from the top of the container.
+ */
+export function measureLayoutBoxes(
+   container: HTMLElement,
+   pageHeight: number,
+   { skipImages = false }: { skipImages?: boolean } = {}
+): LayoutBox[] {
+   const originTop = container.getBoundingClientRect().top;
+   const boxes: LayoutBox[] = [];
+
+   // Line boxes: a text node has one client rect per line it spans
+   const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+   const range = document.createRange();
+
+   for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (!node.textContent?.trim() || node.parentElement?.closest(SKIPPED_SELECTOR)) continue;
+
+      range.selectNodeContents(node);
+      for (const rect of Array.from(range.getClientRects())) {
+         if (rect.width === 0 || rect.height === 0) continue;
+         boxes.push({ top: rect.top - originTop, bottom: rect.bottom - originTop });
+      }
+   }
+   range.detach();
+
+   // Atomic boxes
+   for (const element of Array.from(container.querySelectorAll(ATOMIC_SELECTOR))) {
+      if (skipImages && element.tagName === 'IMG') continue;
+
+      const rect = element.getBoundingClientRect();
+      if (rect.height === 0) continue;
+
+      const isImage = element.tagName !== 'TR';
+      if (rect.height > pageHeight && !isImage) continue;
+
+      // Header rows stay on the same page as the first row under them
+      const following = isImage ? null : rowAfterHeader(element as HTMLTableRowElement);
+      const bottom = following ? following.getBoundingClientRect().bottom : rect.bottom;
+      boxes.push({ top: rect.top - originTop, bottom: (bottom - rect.top > pageHeight ? rect.bottom : bottom) - originTop });
+   }
+
+   // Elements the author asked to keep together
+   for (const element of Array.from(container.querySelectorAll('*'))) {
+      const style = getComputedStyle(element);
+      if (!AVOID_BREAK_VALUES.has(style.breakInside) && style.pageBreakInside !== 'avoid') continue;
+
+      const rect = element.getBoundingClientRect();
+      if (rect.height === 0 || rect.height > pageHeight) continue;
+
+      boxes.push({ top: rect.top - originTop, bottom: rect.bottom - originTop });
+   }
+
+   return boxes;
+}
+
+/**
+ * Measure where the author forced a new page with `break-before`, `break-after`
+ * or the legacy `page-break-*` properties. Offsets are in px from the top of the container.
+ */
+export function measureForcedBreaks(container: HTMLElement): number[] {
+   const originTop = container.getBoundingClientRect().top;
+   const isForced = (value: string) => FORCED_BREAK_VALUES.has(value);
+   const offsets: number[] = [];
+
+   for (const element of Array.from(container.querySelectorAll('*'))) {
+      const style = getComputedStyle(element);
+      const before = isForced(style.breakBefore) || isForced(style.pageBreakBefore);
+      const after = isForced(style.breakAfter) || isForced(style.pageBreakAfter);
+      if (!before && !after) continue;
+
+      // Elements that are not rendered (display: none) have no boxes
+      if (element.getClientRects().length === 0) continue;
+
+      const rect = element.getBoundingClientRect();
+      if (before) offsets.push(rect.top - originTop);
+      if (after) offsets.push(rect.bottom - originTop);
+   }
+
+   return offsets.sort((a, b) => a - b);
+}
+
+/**
+ * Choose where each page starts so that no box is cut in half.
+ * A box that would overflow the current page moves to the next one, with the
+ * break placed midway through the whitespace above it; a box taller than a
+ * whole page is cut at page-height intervals. Forced breaks start a new page
+ * unless nothing has been placed on the current one yet.
+ * Returns the offset (px) at which each page starts, beginning with 0.
+ */
+export function findPageBreaks(
+   boxes: LayoutBox[],
+   totalHeight: number,
+   pageHeight: number,
+   forcedBreaks: number[] = []
+): number[] {
+   const breaks = [0];
+   // Without room on a page nothing can be placed; a single page keeps the loops below finite
+   if (!(pageHeight > 0)) return breaks;
+
+   let pageStart = 0;
+   let lastBottom = 0; // lowest edge of the content already placed on this page
+
+   const sorted = [...boxes].sort((a, b) => a.top - b.top || a.bottom - b.bottom);
+   const forced = [...forcedBreaks].sort((a, b) => a - b);
+   let nextForced = 0;
+
+   for (const box of sorted) {
+      // Forced breaks above this box; those after the last box would only add blank pages
+      for (; nextForced < forced.length && forced[nextForced] <= box.top; nextForced++) {
+         const offset = forced[nextForced];
+         if (offset > pageStart && lastBottom > pageStart) {
+            pageStart = offset;
+            breaks.push(pageStart);
+            lastBottom = pageStart;
+         }
+      }
+
+      if (box.bottom - pageStart <= pageHeight) {
+         lastBottom = Math.max(lastBottom, box.bottom);
+         continue;
+      }
+
+      // Start the next page in the gap above the box
+      if (box.top > pageStart) {
+         pageStart = lastBottom > pageStart && lastBottom < box.top ? (lastBottom + box.top) / 2 : box.top;
+         breaks.push(pageStart);
+      }
+
+      // Oversized box: nothing better than cutting it
+      while (box.bottom - pageStart > pageHeight) {
+         pageStart += pageHeight;
+         breaks.push(pageStart);
+      }
+
+      lastBottom = box.bottom;
+   }
+
+   // Remaining content that isn't covered by any box
+   while (totalHeight - pageStart > pageHeight) {
+      pageStart += pageHeight;
+      breaks.push(pageStart);
+   }
+
+   return breaks;
+}
+
+/**
+ * Choose page breaks for a rendered container, honouring the author's break rules
+ */
+export function paginate(container: HTMLElement, pageHeight: number): number[] {
+   const boxes = measureLayoutBoxes(container, pageHeight);
+   const contentBottom = boxes.reduce((max, box) => Math.max(max, box.bottom), 0);
+   return findPageBreaks(boxes, contentBottom, pageHeight, measureForcedBreaks(container));
+}
+
+/**
+ * Repeat table header rows (<thead>) at the top of every page a table continues onto.
+ * The header is copied into the DOM in front of the first row on the new page, so
+ * both rendering modes draw it; pages are re-broken after each copy since it pushes
+ * the rest of the table down.
+ */
+export function repeatTableHeaders(container: HTMLElement, pageHeight: number): void {
+   const tables = Array.from(container.querySelectorAll('table')).filter(table => table.tHead?.rows.length);
+   if (tables.length === 0) return;
+
+   for (let repeats = 0; repeats < MAX_HEADER_REPEATS; repeats++) {
+      const originTop = container.getBoundingClientRect().top;
+      const rect = (element: Element) => element.getBoundingClientRect();
+      const breaks = paginate(container, pageHeight).slice(1);
+
+      // First page break that falls inside a table body without a header under it
+      let target: { table: HTMLTableElement; row: HTMLTableRowElement } | null = null;
+      for (const pageStart of breaks) {
+         for (const table of tables) {
+            const head = rect(table.tHead!);
+            const rows = Array.from(table.tBodies).flatMap(body => Array.from(body.rows));
+            if (head.bottom - originTop > pageStart || rect(table).bottom - originTop <= pageStart) continue;
+
+            const row = rows.find(r => rect(r).top - originTop >= pageStart - 0.5);
+            if (!row || row.classList.contains(REPEATED_HEADER_CLASS) || row === rows[0]) continue;
+
+            target = { table, row };
+            break;
+         }
+         if (target) break;
+      }
+
+      if (!target) return;
+
+      for (const headerRow of Array.from(target.table.tHead!.rows)) {
+         const copy = headerRow.cloneNode(true) as HTMLTableRowElement;
+         copy.classList.add(REPEATED_HEADER_CLASS);
+         target.row.before(copy);
+      }
+   }
+}
+
+/**
+ * Find the page a vertical offset falls on
+ */
+export function pageIndexAt(breaks: number[], offset: number): number {
+   let index = 0;
+   while (index + 1 < breaks.length && breaks[index + 1] <= offset) {
+      index++;
+   }
+   return index;
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { replacedChars, type PdfPage } from './pdfAssembler';
+
+const textStyle = { x: 0, y: 0, width: 100, font: 'helvetica', fontStyle: 'normal', fontSize: 12 } as const;
+
+describe('replacedChars', () => {
+   it('lists each character beyond U+FFFF once, from text blocks and runs', () => {
+      const pages: PdfPage[] = [
+         { width: 210, height: 297, items: [{ kind: 'text', lines: ['Done 👍', 'Party 🎉👍'], lineHeight: 5, ...textStyle }] },
+         { width: 210, height: 297, items: [{ kind: 'textRun', text: '𝄞', color: [0, 0, 0], ...textStyle }] },
+      ];
+      expect(replacedChars(pages)).toEqual(['👍', '🎉', '𝄞']);
+   });
+
+   it('keeps characters the fonts can encode', () => {
+      const pages: PdfPage[] = [
+         { width: 210, height: 297, items: [{ kind: 'textRun', text: 'Größe 한국어 中文 ★', color: [0, 0, 0], ...textStyle }] },
+      ];
+      expect(replacedChars(pages)).toEqual([]);
+   });
+});
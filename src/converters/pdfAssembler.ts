@@ -0,0 +1,382 @@
+import { GState, ShadingPattern, jsPDF, type PatternData } from 'jspdf';
+import type { EmbeddedFont } from '../types';
+import {
+   isRightToLeft,
+   loadFallbackFonts,
+   measureSpans,
+   registerFont,
+   splitByFont,
+   toVisualOrder,
+   unencodableChars,
+   type FontStyle,
+} from './fonts';
+
+/**
+ * Image drawn onto a page (coordinates in mm)
+ */
+export interface PageImage {
+   kind: 'image';
+   data: Uint8Array;
+   format: 'JPEG' | 'PNG';
+   x: number;
+   y: number;
+   width: number;
+   height: number;
+}
+
+/**
+ * Block of pre-wrapped text lines drawn onto a page (coordinates in mm).
+ * Right-to-left lines are aligned to the right edge of the block.
+ */
+export interface PageText {
+   kind: 'text';
+   lines: string[];
+   x: number;
+   y: number;
+   width: number;
+   lineHeight: number;
+   font: string; // a standard PDF font, or the name of an uploaded font
+   fontStyle: FontStyle;
+   fontSize: number;
+}
+
+/**
+ * Positioned run of real (selectable) text, as produced by vector HTML rendering
+ */
+export interface PageTextRun {
+   kind: 'textRun';
+   text: string;
+   x: number;
+   y: number; // baseline
+   width: number;
+   font: string;
+   fontStyle: FontStyle;
+   fontSize: number; // pt
+   color: RgbColor;
+   underline?: boolean;
+   lineThrough?: boolean;
+   link?: string;
+   destination?: PdfPage; // page of the same document that the run links to
+   angle?: number; // degrees counterclockwise about (x, y); decorations and links are only drawn for unrotated runs
+}
+
+/**
+ * Filled rectangle (backgrounds, borders, rules)
+ */
+export interface PageRect {
+   kind: 'rect';
+   x: number;
+   y: number;
+   width: number;
+   height: number;
+   color: RgbColor;
+}
+
+/**
+ * Vector outline (SVG drawings). Segment coordinates are in mm from the path's
+ * origin, so that moving x and y moves the whole path.
+ */
+export interface PagePath {
+   kind: 'path';
+   x: number;
+   y: number;
+   segments: PathSegment[];
+   fill?: PathFill;
+   stroke?: PathStroke;
+}
+
+export type PathSegment =
+   | { op: 'M' | 'L'; x: number; y: number }
+   | { op: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+   | { op: 'Z' };
+
+export interface PathFill {
+   paint: RgbColor | Gradient;
+   opacity: number; // 0 to 1
+   rule: 'nonzero' | 'evenodd';
+}
+
+export interface PathStroke {
+   color: RgbColor;
+   opacity: number; // 0 to 1
+   width: number; // mm
+   cap: 'butt' | 'round' | 'square';
+   join: 'miter' | 'round' | 'bevel';
+   miterLimit: number;
+   dash?: number[]; // mm
+   dashOffset?: number; // mm
+}
+
+/**
+ * Linear or radial color gradient, padded beyond its ends
+ */
+export interface Gradient {
+   kind: 'linear' | 'radial';
+   coords: number[]; // x1 y1 x2 y2, or fx fy fr cx cy r, in gradient space
+   matrix: AffineMatrix; // gradient space to mm from the path's origin
+   stops: { offset: number; color: RgbColor }[]; // offsets ascending from 0 to 1
+}
+
+// [a, b, c, d, e, f] mapping (x, y) to (ax + cy + e, bx + dy + f), as in SVG and PDF
+export type AffineMatrix = [number, number, number, number, number, number];
+
+export type RgbColor = [number, number, number];
+
+export type PageItem = PageImage | PageText | PageTextRun | PageRect | PagePath;
+
+/**
+ * A single output page produced by one of the converters
+ */
+export interface PdfPage {
+   width: number; // mm
+   height: number; // mm
+   items: PageItem[];
+   mirrorOffset?: number; // mm to move the items by when this is an even page, for mirrored margins
+}
+
+/**
+ * Draw text in display order, switching to a fallback font wherever its own font lacks
+ * a glyph. Given a width, right-to-left text is aligned to the right edge of it.
+ */
+function drawText(
+   pdf: jsPDF,
+   text: string,
+   x: number,
+   y: number,
+   font: string,
+   fontStyle: FontStyle,
+   fontSize: number,
+   width?: number,
+   angle = 0
+): void {
+   const spans = splitByFont(pdf, toVisualOrder(pdf, text), font, fontStyle);
+   pdf.setFontSize(fontSize);
+
+   // Spans follow each other along the baseline, which turns with the text
+   const cos = Math.cos(angle * Math.PI / 180);
+   const sin = Math.sin(angle * Math.PI / 180);
+   let advance = width !== undefined && isRightToLeft(text) ? width - measureSpans(pdf, spans, fontSize) : 0;
+   for (const span of spans) {
+      pdf.setFont(span.font, span.fontStyle);
+      pdf.text(span.text, x + advance * cos, y - advance * sin, { baseline: 'alphabetic', angle });
+      advance += measureSpans(pdf, [span], fontSize);
+   }
+}
+
+/**
+ * Draw a positioned text run with its decorations and link
+ */
+function drawTextRun(pdf: jsPDF, run: PageTextRun, pageNumbers: Map<PdfPage, number>): void {
+   pdf.setTextColor(...run.color);
+   drawText(pdf, run.text, run.x, run.y, run.font, run.fontStyle, run.fontSize, undefined, run.angle);
+   if (run.angle) return;
+
+   // Font size is in pt; decorations are drawn in mm
+   const sizeMm = run.fontSize * 25.4 / 72;
+
+   if (run.underline || run.lineThrough) {
+      pdf.setDrawColor(...run.color);
+      pdf.setLineWidth(sizeMm * 0.06);
+      if (run.underline) {
+         pdf.line(run.x, run.y + sizeMm * 0.12, run.x + run.width, run.y + sizeMm * 0.12);
+      }
+      if (run.lineThrough) {
+         pdf.line(run.x, run.y - sizeMm * 0.3, run.x + run.width, run.y - sizeMm * 0.3);
+      }
+   }
+
+   const pageNumber = run.destination && pageNumbers.get(run.destination);
+   if (pageNumber) {
+      pdf.link(run.x, run.y - sizeMm * 0.8, run.width, sizeMm, { pageNumber });
+   } else if (run.link) {
+      pdf.link(run.x, run.y - sizeMm * 0.8, run.width, sizeMm, { url: run.link });
+   }
+}
+
+// Shading patterns already added to each document, by gradient key
+const documentGradients = new WeakMap<jsPDF, Set<string>>();
+
+/**
+ * Trace a path's outline, ready to be filled or stroked
+ */
+function tracePath(pdf: jsPDF, path: PagePath): void {
+   const { x, y } = path;
+   for (const segment of path.segments) {
+      switch (segment.op) {
+         case 'M':
+            pdf.moveTo(x + segment.x, y + segment.y);
+            break;
+         case 'L':
+            pdf.lineTo(x + segment.x, y + segment.y);
+            break;
+         case 'C':
+            pdf.curveTo(x + segment.x1, y + segment.y1, x + segment.x2, y + segment.y2, x + segment.x, y + segment.y);
+            break;
+         case 'Z':
+            pdf.close();
+            break;
+      }
+   }
+}
+
+/**
+ * Pattern that fills with a gradient. Gradients with the same colors and
+ * coordinates share one shading; the matrix places each use on the page.
+ */
+function gradientPattern(pdf: jsPDF, path: PagePath, gradient: Gradient): PatternData {
+   const key = `${gradient.kind}:${gradient.coords.join(',')}:${gradient.stops.map(stop => `${stop.offset}/${stop.color}`).join(',')}`;
+
+   const added = documentGradients.get(pdf) ?? new Set<string>();
+   documentGradients.set(pdf, added);
+   if (!added.has(key)) {
+      // Copies, since jsPDF adds end stops to the array it is given
+      const stops = gradient.stops.map(stop => ({ offset: stop.offset, color: [...stop.color] }));
+      const shading = new ShadingPattern(gradient.kind === 'linear' ? 'axial' : 'radial', gradient.coords, stops);
+      pdf.advancedAPI(() => pdf.addShadingPattern(key, shading));
+      added.add(key);
+   }
+
+   // Shadings are placed in PDF space: pt from the bottom-left corner
+   const k = 72 / 25.4;
+   const pageHeight = pdf.internal.pageSize.getHeight();
+   const [a, b, c, d, e, f] = gradient.matrix;
+   const matrix = pdf.Matrix(k * a, -k * b, k * c, -k * d, k * (e + path.x), k * (pageHeight - f - path.y));
+   return { key, matrix };
+}
+
+/**
+ * Fill and then stroke a vector path
+ */
+function drawPath(pdf: jsPDF, path: PagePath): void {
+   const { fill, stroke } = path;
+
+   if (fill) {
+      pdf.saveGraphicsState();
+      if (fill.opacity < 1) pdf.setGState(new GState({ opacity: fill.opacity }));
+      tracePath(pdf, path);
+
+      let pattern: PatternData | undefined;
+      if (Array.isArray(fill.paint)) pdf.setFillColor(...fill.paint);
+      else pattern = gradientPattern(pdf, path, fill.paint);
+
+      if (fill.rule === 'evenodd') pdf.fillEvenOdd(pattern);
+      else pdf.fill(pattern);
+      pdf.restoreGraphicsState();
+   }
+
+   if (stroke) {
+      pdf.saveGraphicsState();
+      if (stroke.opacity < 1) pdf.setGState(new GState({ 'stroke-opacity': stroke.opacity }));
+      pdf.setDrawColor(...stroke.color);
+      pdf.setLineWidth(stroke.width);
+      pdf.setLineCap(stroke.cap);
+      pdf.setLineJoin(stroke.join);
+      pdf.setLineMiterLimit(stroke.miterLimit);
+      if (stroke.dash) pdf.setLineDashPattern(stroke.dash, stroke.dashOffset ?? 0);
+      tracePath(pdf, path);
+      pdf.stroke();
+      pdf.restoreGraphicsState();
+   }
+}
+
+/**
+ * Draw a page item onto the current jsPDF page
+ */
+function drawItem(pdf: jsPDF, item: PageItem, pageNumbers: Map<PdfPage, number>): void {
+   switch (item.kind) {
+      case 'image':
+         pdf.addImage(item.data, item.format, item.x, item.y, item.width, item.height);
+         break;
+      case 'text':
+         pdf.setTextColor(0, 0, 0);
+         item.lines.forEach((line, i) => {
+            const y = item.y + item.lineHeight * (i + 1);
+            drawText(pdf, line, item.x, y, item.font, item.fontStyle, item.fontSize, item.width);
+         });
+         break;
+      case 'textRun':
+         drawTextRun(pdf, item, pageNumbers);
+         break;
+      case 'rect':
+         pdf.setFillColor(...item.color);
+         pdf.rect(item.x, item.y, item.width, item.height, 'F');
+         break;
+      case 'path':
+         drawPath(pdf, item);
+         break;
+   }
+}
+
+/**
+ * Add the fonts the pages' text needs: the uploaded font where items name it,
+ * and the bundled fallbacks for characters the standard fonts cannot encode
+ */
+async function registerPageFonts(pdf: jsPDF, pages: PdfPage[], customFont?: EmbeddedFont): Promise<void> {
+   const texts: string[] = [];
+   let usesCustomFont = false;
+
+   for (const page of pages) {
+      for (const item of page.items) {
+         if (item.kind === 'text') texts.push(...item.lines);
+         else if (item.kind === 'textRun') texts.push(item.text);
+         else continue;
+         usesCustomFont ||= item.font === customFont?.name;
+      }
+   }
+
+   if (customFont && usesCustomFont) registerFont(pdf, customFont);
+   for (const font of await loadFallbackFonts(texts.join('\n'))) {
+      registerFont(pdf, font);
+   }
+}
+
+/**
+ * Distinct characters of the pages' text that come out as U+FFFD, so the user can be told
+ */
+export function replacedChars(pages: PdfPage[]): string[] {
+   const found = new Set<string>();
+   for (const page of pages) {
+      for (const item of page.items) {
+         const texts = item.kind === 'text' ? item.lines : item.kind === 'textRun' ? [item.text] : [];
+         for (const text of texts) {
+            for (const char of unencodableChars(text)) found.add(char);
+         }
+      }
+   }
+   return [...found];
+}
+
+/**
+ * Assemble converter pages into a single PDF document.
+ * Embedded fonts are subset to the glyphs the pages use.
+ */
+export async function assemblePdf(pages: PdfPage[], customFont?: EmbeddedFont): Promise<Blob> {
+   if (pages.length === 0) {
+      throw new Error('No pages to assemble');
+   }
+
+   let pdf: jsPDF | null = null;
+
+   // Internal links point at page objects; PDF links need page numbers
+   const pageNumbers = new Map(pages.map((page, index) => [page, index + 1]));
+
+   for (const [index, page] of pages.entries()) {
+      const orientation = page.width > page.height ? 'landscape' : 'portrait';
+      const format = [page.width, page.height];
+
+      if (pdf === null) {
+         pdf = new jsPDF({ orientation, unit: 'mm', format, compress: true });
+         await registerPageFonts(pdf, pages, customFont);
+      } else {
+         pdf.addPage(format, orientation);
+      }
+
+      // Even pages are the left-hand ones once printed double-sided
+      const offset = index % 2 === 1 ? page.mirrorOffset ?? 0 : 0;
+      for (const item of page.items) {
+         drawItem(pdf, offset ? { ...item, x: item.x + offset } : item, pageNumbers);
+      }
+   }
+
+   return pdf!.output('blob');
+}
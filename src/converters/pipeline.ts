@@ -0,0 +1,341 @@
+import type {
+   ConversionErrorCode,
+   ConversionOptions,
+   ConversionResult,
+   ConvertibleFile,
+   FileType,
+   FileUpdate,
+} from '../types';
+import { readAsText, isAbortError, throwIfAborted, ConversionError, toConversionError } from '../utils';
+import { decodeImageCells, layoutImagePages, type ImageCell } from './imageToPdf';
+import { renderTextPages } from './textToPdf';
+import { readHtmlContent, renderHtmlPages } from './htmlToPdf';
+import { renderCodePages } from './codeToPdf';
+import { renderSvgPages } from './svgToPdf';
+import { docxHeading, docxToHtml, renderDocxPages } from './docxExtractor';
+import { assemblePdfInWorker } from '../workers';
+import { replacedChars, type PdfPage } from './pdfAssembler';
+
+/**
+ * What a converter makes of one file. Images (a TIFF's pages or an animation's
+ * frames) are decoded but laid out later, so that a run of them can share pages.
+ */
+type RenderedFile =
+   | { kind: 'pages'; pages: PdfPage[] }
+   | { kind: 'images'; images: ImageCell[] };
+
+/**
+ * Whether a file type is rendered through the DOM (html2canvas, or the browser's SVG layout)
+ */
+function usesDom(type: FileType): boolean {
+   return type === 'html' || type === 'markdown' || type === 'docx' || type === 'code' || type === 'svg';
+}
+
+/**
+ * Failure code used when a converter throws an untagged error
+ */
+function fallbackErrorCode(type: FileType): ConversionErrorCode {
+   switch (type) {
+      case 'image':
+         return 'image-decode-failed';
+      case 'unknown':
+         return 'unsupported-type';
+      default:
+         return 'render-failed';
+   }
+}
+
+/**
+ * Run one queued file through the converter for its type
+ */
+async function renderFile(
+   item: ConvertibleFile,
+   options: ConversionOptions,
+   isBatch: boolean,
+   onUpdate: (update: FileUpdate) => void,
+   signal?: AbortSignal
+): Promise<RenderedFile> {
+   const { file } = item;
+   const onRenderProgress = (progress: number) => onUpdate({ progress: 30 + progress * 0.7 });
+
+   switch (item.type) {
+      case 'image':
+         onUpdate({ stage: 'decoding', progress: 10 });
+         return { kind: 'images', images: await decodeImageCells(file, options, signal) };
+      case 'svg': {
+         onUpdate({ stage: 'reading', progress: 10 });
+         const markup = await readAsText(file);
+         onUpdate({ stage: 'rendering', progress: 30 });
+         return { kind: 'pages', pages: await renderSvgPages(markup, options, signal) };
+      }
+      case 'text': {
+         onUpdate({ stage: 'reading', progress: 10 });
+         const text = await readAsText(file, item.encoding);
+         onUpdate({ stage: 'layout', progress: 30 });
+         return { kind: 'pages', pages: await renderTextPages(text, options, isBatch ? `=== ${file.name} ===` : undefined, signal) };
+      }
+      case 'html':
+      case 'markdown': {
+         onUpdate({ stage: 'reading', progress: 10 });
+         const html = await readHtmlContent(file, item.encoding);
+         onUpdate({ stage: 'rendering', progress: 30 });
+         return { kind: 'pages', pages: await renderHtmlPages(html, options, onRenderProgress, signal) };
+      }
+      case 'code': {
+         onUpdate({ stage: 'reading', progress: 10 });
+         const code = await readAsText(file, item.encoding);
+         onUpdate({ stage: 'rendering', progress: 30 });
+         return { kind: 'pages', pages: await renderCodePages(code, file.name, options, onRenderProgress, signal) };
+      }
+      case 'docx': {
+         onUpdate({ stage: 'extracting', progress: 10 });
+         const { sections } = await docxToHtml(file, options, signal);
+         if (isBatch) sections[0] = { ...sections[0], html: docxHeading(file.name) + sections[0].html };
+         onUpdate({ stage: 'rendering', progress: 30 });
+         return { kind: 'pages', pages: await renderDocxPages({ sections }, options, onRenderProgress, signal) };
+      }
+      default:
+         throw new ConversionError('unsupported-type', `Unsupported file type: ${file.name}`);
+   }
+}
+
+/**
+ * Make a filename unique within a set by appending " (2)", " (3)", ...
+ */
+function uniqueFilename(filename: string, used: Set<string>): string {
+   const dot = filename.lastIndexOf('.');
+   const base = filename.slice(0, dot);
+   const ext = filename.slice(dot);
+
+   let candidate = filename;
+   for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${base} (${n})${ext}`;
+   }
+
+   used.add(candidate.toLowerCase());
+   return candidate;
+}
+
+/**
+ * Pick an output filename that describes the batch
+ */
+function getOutputFilename(files: ConvertibleFile[]): string {
+   if (files.length === 1) {
+      return files[0].file.name.replace(/\.[^.]+$/, '') + '.pdf';
+   }
+
+   const types = new Set(files.map(f => f.type));
+   if (types.size === 1 && types.has('image')) return 'converted-images.pdf';
+   if (types.size === 1 && types.has('text')) return 'converted-texts.pdf';
+   if (types.size === 1 && types.has('svg')) return 'converted-drawings.pdf';
+   return 'converted-documents.pdf';
+}
+
+/**
+ * Each queued file rendered, in queue order (null when a file was skipped)
+ */
+interface RenderedQueue {
+   renderedFiles: (RenderedFile | null)[];
+   skippedFiles: string[];
+}
+
+/**
+ * Lay out rendered files into pages in queue order, placing each run of
+ * consecutive images together in the image layout
+ */
+async function layoutQueue(renderedFiles: (RenderedFile | null)[], options: ConversionOptions): Promise<PdfPage[]> {
+   const pages: PdfPage[] = [];
+   let images: ImageCell[] = [];
+
+   const flushImages = async () => {
+      if (images.length === 0) return;
+      pages.push(...await layoutImagePages(images, options));
+      images = [];
+   };
+
+   for (const rendered of renderedFiles) {
+      if (rendered === null) continue;
+
+      if (rendered.kind === 'pages') {
+         await flushImages();
+         pages.push(...rendered.pages);
+      } else {
+         images.push(...rendered.images);
+      }
+   }
+
+   await flushImages();
+   return pages;
+}
+
+/**
+ * Render every queued file into pages.
+ *
+ * Each file's stage, progress and failure are reported through onFileUpdate.
+ * With options.skipFailed, files that fail are left out; otherwise the first
+ * failure cancels the remaining work and is rethrown.
+ */
+async function renderQueue(
+   files: ConvertibleFile[],
+   options: ConversionOptions,
+   isBatch: boolean,
+   onProgress?: (progress: number) => void,
+   signal?: AbortSignal,
+   onFileUpdate?: (id: string, update: FileUpdate) => void
+): Promise<RenderedQueue> {
+   if (files.length === 0) {
+      throw new Error('No files to convert');
+   }
+
+   // A signal aborted before the queue starts would never reach the batch controller
+   throwIfAborted(signal);
+
+   // Stops sibling work when one file fails the batch, and follows the caller's signal
+   const batch = new AbortController();
+   const abortBatch = () => batch.abort();
+   signal?.addEventListener('abort', abortBatch, { once: true });
+
+   // Overall progress is the mean of per-file progress
+   const fileProgress = files.map(() => 0);
+   const setProgress = (index: number, progress: number) => {
+      fileProgress[index] = progress;
+      const total = fileProgress.reduce((sum, p) => sum + p, 0);
+      onProgress?.(total / files.length);
+   };
+   const updateFile = (index: number, update: FileUpdate) => {
+      if (batch.signal.aborted) return;
+
+      onFileUpdate?.(files[index].id, update);
+      if (update.progress !== undefined) setProgress(index, update.progress);
+   };
+
+   // Images and text run in parallel on the worker pool. HTML rendering needs the
+   // DOM, so those files are chained one at a time on the main thread.
+   let domQueue: Promise<unknown> = Promise.resolve();
+   let batchFailure: ConversionError | null = null;
+
+   try {
+      const renderedFiles = await Promise.all(files.map((item, index) => {
+         const run = async (): Promise<RenderedFile | null> => {
+            updateFile(index, { status: 'converting', progress: 0 });
+
+            try {
+               const rendered = await renderFile(item, options, isBatch, u => updateFile(index, u), batch.signal);
+               updateFile(index, { status: 'done', stage: undefined, progress: 100 });
+               return rendered;
+            } catch (error) {
+               if (isAbortError(error)) throw error;
+
+               const failure = toConversionError(error, fallbackErrorCode(item.type));
+               updateFile(index, { status: 'error', stage: undefined, error: failure.message, errorCode: failure.code });
+
+               if (!options.skipFailed) {
+                  batchFailure ??= new ConversionError(failure.code, `${item.file.name}: ${failure.message}`);
+                  batch.abort();
+                  throw batchFailure;
+               }
+
+               // A skipped file counts as finished towards the overall progress
+               setProgress(index, 100);
+               return null;
+            }
+         };
+
+         if (!usesDom(item.type)) {
+            return run();
+         }
+
+         const queued = domQueue.then(run);
+         domQueue = queued.catch(() => undefined);
+         return queued;
+      }));
+
+      if (renderedFiles.every(rendered => rendered === null)) {
+         throw new Error('None of the files could be converted');
+      }
+
+      return {
+         renderedFiles,
+         skippedFiles: files.filter((_, i) => renderedFiles[i] === null).map(f => f.file.name),
+      };
+   } catch (error) {
+      // Siblings cancelled by a failure reject with AbortError; report the failure itself
+      throw batchFailure ?? error;
+   } finally {
+      signal?.removeEventListener('abort', abortBatch);
+   }
+}
+
+/**
+ * Convert a queue of files of any supported type into a single PDF,
+ * keeping the pages in queue order
+ */
+export async function convertToSinglePdf(
+   files: ConvertibleFile[],
+   options: ConversionOptions,
+   onProgress?: (progress: number) => void,
+   signal?: AbortSignal,
+   onFileUpdate?: (id: string, update: FileUpdate) => void
+): Promise<ConversionResult> {
+   // Rendering takes 95% of the progress, assembly the rest
+   const { renderedFiles, skippedFiles } = await renderQueue(
+      files,
+      options,
+      files.length > 1,
+      p => onProgress?.(p * 0.95),
+      signal,
+      onFileUpdate
+   );
+   const pages = await layoutQueue(renderedFiles, options);
+
+   const blob = await assemblePdfInWorker(pages, signal, options.customFont);
+   onProgress?.(100);
+
+   const replaced = replacedChars(pages);
+   return {
+      blob,
+      filename: getOutputFilename(files),
+      pageCount: pages.length,
+      skippedFiles: skippedFiles.length > 0 ? skippedFiles : undefined,
+      replacedChars: replaced.length > 0 ? replaced : undefined,
+   };
+}
+
+/**
+ * Convert each queued file into its own PDF, in queue order
+ */
+export async function convertToSeparatePdfs(
+   files: ConvertibleFile[],
+   options: ConversionOptions,
+   onProgress?: (progress: number) => void,
+   signal?: AbortSignal,
+   onFileUpdate?: (id: string, update: FileUpdate) => void
+): Promise<ConversionResult[]> {
+   const { renderedFiles } = await renderQueue(
+      files,
+      options,
+      false,
+      p => onProgress?.(p * 0.9),
+      signal,
+      onFileUpdate
+   );
+
+   // Assemble the documents in parallel on the worker pool
+   const usedNames = new Set<string>();
+   let assembled = 0;
+   const results = await Promise.all(files.map(async (item, index): Promise<ConversionResult | null> => {
+      const rendered = renderedFiles[index];
+      if (!rendered) return null;
+
+      const pages = await layoutQueue([rendered], options);
+      const filename = uniqueFilename(item.file.name.replace(/\.[^.]+$/, '') + '.pdf', usedNames);
+      const blob = await assemblePdfInWorker(pages, signal, options.customFont);
+      onProgress?.(90 + (++assembled / files.length) * 10);
+
+      const replaced = replacedChars(pages);
+      return { blob, filename, pageCount: pages.length, replacedChars: replaced.length > 0 ? replaced : undefined };
+   }));
+
+   onProgress?.(100);
+   return results.filter((r): r is ConversionResult => r !== null);
+}
@@ -0,0 +1,53 @@
+import type { CodeTheme } from '../types';
+import { CODE_THEME_STYLES } from './highlight';
+
+/**
+ * Create a styled container for rendering HTML
+ */
+export function createRenderContainer(html: string, width: number, codeTheme: CodeTheme): HTMLDivElement {
+   const container = document.createElement('div');
+   container.style.cssText = `
+    position: absolute;
+    left: -9999px;
+    top: 0;
+    width: ${width}px;
+    padding: 20px;
+    background: white;
+    font-family: 'Segoe UI', Arial, sans-serif;
+    font-size: 14px;
+    line-height: 1.6;
+    color: #333;
+  `;
+
+   // Add base styles for HTML content
+   container.innerHTML = `
+    <style>
+      h1 { font-size: 24px; margin: 0 0 16px; color: #111; }
+      h2 { font-size: 20px; margin: 16px 0 12px; color: #222; }
+      h3 { font-size: 16px; margin: 12px 0 8px; color: #333; }
+      p { margin: 0 0 12px; }
+      ul, ol { margin: 0 0 12px; padding-left: 24px; }
+      li { margin: 4px 0; }
+      code { background: #f4f4f4; padding: 2px 6px; border-radius: 3px; font-family: 'Consolas', monospace; }
+      pre { background: #f4f4f4; padding: 12px; border-radius: 4px; overflow-x: auto; }
+      pre code { padding: 0; background: none; }
+      a { color: #0066cc; text-decoration: underline; }
+      blockquote { margin: 0 0 12px; padding-left: 16px; border-left: 3px solid #ddd; color: #666; }
+      img { max-width: 100%; }
+      hr { border: none; border-top: 1px solid #ddd; margin: 16px 0; }
+      table { border-collapse: collapse; margin: 0 0 12px; }
+      th, td { border: 1px solid #ccc; padding: 4px 8px; }
+      th { background: #f4f4f4; }
+      s, del { color: #666; }
+      .task-list-item { list-style: none; }
+      .task-checkbox { display: inline-block; width: 10px; height: 10px; margin: 0 4px 0 -18px; border: 1px solid #666; border-radius: 2px; }
+      .task-checkbox--checked { background: #333; }
+      .footnotes { font-size: 12px; color: #555; }
+      ${CODE_THEME_STYLES[codeTheme]}
+    </style>
+    ${html}
+  `;
+
+   document.body.appendChild(container);
+   return container;
+}
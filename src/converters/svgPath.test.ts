@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { PathSegment } from './pdfAssembler';
+import { pathDataSegments } from './svgPath';
+
+/**
+ * End points of the segments, rounded, to compare curves without floating-point noise
+ */
+function round(segments: PathSegment[]): PathSegment[] {
+   const r = (n: number) => Math.round(n * 1000) / 1000 + 0;
+   return segments.map(segment => {
+      if (segment.op === 'Z') return segment;
+      if (segment.op === 'C') {
+         return { ...segment, x1: r(segment.x1), y1: r(segment.y1), x2: r(segment.x2), y2: r(segment.y2), x: r(segment.x), y: r(segment.y) };
+      }
+      return { ...segment, x: r(segment.x), y: r(segment.y) };
+   });
+}
+
+describe('pathDataSegments', () => {
+   it('reads absolute and relative lines, with extra move coordinates as lines', () => {
+      expect(pathDataSegments('M10 10 20 10 l0 10 H0 v-5 h5 z')).toEqual([
+         { op: 'M', x: 10, y: 10 },
+         { op: 'L', x: 20, y: 10 },
+         { op: 'L', x: 20, y: 20 },
+         { op: 'L', x: 0, y: 20 },
+         { op: 'L', x: 0, y: 15 },
+         { op: 'L', x: 5, y: 15 },
+         { op: 'Z' },
+      ]);
+   });
+
+   it('continues from the subpath start after a close', () => {
+      expect(pathDataSegments('m5 5 l10 0 z l0 10')).toEqual([
+         { op: 'M', x: 5, y: 5 },
+         { op: 'L', x: 15, y: 5 },
+         { op: 'Z' },
+         { op: 'L', x: 5, y: 15 },
+      ]);
+   });
+
+   it('reads numbers without separators', () => {
+      expect(pathDataSegments('M.5.5L1e1-2')).toEqual([
+         { op: 'M', x: 0.5, y: 0.5 },
+         { op: 'L', x: 10, y: -2 },
+      ]);
+   });
+
+   it('reflects the previous control point for smooth cubic curves', () => {
+      expect(pathDataSegments('M0 0 C10 0 20 10 20 20 S30 40 40 40')[2]).toEqual(
+         { op: 'C', x1: 20, y1: 30, x2: 30, y2: 40, x: 40, y: 40 }
+      );
+   });
+
+   it('uses the current point as the first control point of a smooth curve without a curve before it', () => {
+      expect(pathDataSegments('M5 5 L10 10 s10 10 20 0')[2]).toEqual(
+         { op: 'C', x1: 10, y1: 10, x2: 20, y2: 20, x: 30, y: 10 }
+      );
+   });
+
+   it('turns quadratic curves into cubics and reflects their control point', () => {
+      expect(round(pathDataSegments('M0 0 Q10 10 20 0 T40 0'))).toEqual([
+         { op: 'M', x: 0, y: 0 },
+         { op: 'C', x1: 6.667, y1: 6.667, x2: 13.333, y2: 6.667, x: 20, y: 0 },
+         { op: 'C', x1: 26.667, y1: -6.667, x2: 33.333, y2: -6.667, x: 40, y: 0 },
+      ]);
+   });
+
+   it('draws an arc as a cubic curve per quarter turn', () => {
+      const segments = round(pathDataSegments('M0 0 A10 10 0 0 1 20 0'));
+      expect(segments).toHaveLength(3);
+      expect(segments[1]).toMatchObject({ op: 'C', x: 10, y: -10 });
+      expect(segments[2]).toMatchObject({ op: 'C', x: 20, y: 0 });
+   });
+
+   it('draws the other way round without the sweep flag', () => {
+      expect(round(pathDataSegments('M0 0 A10 10 0 0 0 20 0'))[1]).toMatchObject({ x: 10, y: 10 });
+   });
+
+   it('takes the large arc when asked', () => {
+      // Quarter of a circle of radius 10 either the short way or three quarters round
+      expect(pathDataSegments('M0 0 A10 10 0 0 1 10 10')).toHaveLength(2);
+      expect(pathDataSegments('M0 0 A10 10 0 1 1 10 10')).toHaveLength(4);
+   });
+
+   it('reads arc flags that run into the next number', () => {
+      expect(round(pathDataSegments('M0 0a10 10 0 0120 0'))).toEqual(round(pathDataSegments('M0 0 A10 10 0 0 1 20 0')));
+   });
+
+   it('scales up radii too small to reach the end point', () => {
+      expect(round(pathDataSegments('M0 0 A1 1 0 0 1 20 0'))).toEqual(round(pathDataSegments('M0 0 A10 10 0 0 1 20 0')));
+   });
+
+   it('draws an arc with a zero radius as a line, and skips one that goes nowhere', () => {
+      expect(pathDataSegments('M0 0 A0 10 0 0 1 20 0 A5 5 0 0 1 20 0')).toEqual([
+         { op: 'M', x: 0, y: 0 },
+         { op: 'L', x: 20, y: 0 },
+      ]);
+   });
+
+   it('keeps the commands before an error', () => {
+      expect(pathDataSegments('M0 0 L10 10 L20')).toEqual([
+         { op: 'M', x: 0, y: 0 },
+         { op: 'L', x: 10, y: 10 },
+      ]);
+      expect(pathDataSegments('M0 0 A10 10 0 2 1 20 0')).toEqual([{ op: 'M', x: 0, y: 0 }]);
+   });
+
+   it('needs a move first', () => {
+      expect(pathDataSegments('L10 10')).toEqual([]);
+   });
+});
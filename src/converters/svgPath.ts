@@ -0,0 +1,459 @@
+import type { AffineMatrix, PathSegment } from './pdfAssembler';
+
+/**
+ * SVG geometry as move, line, cubic curve and close segments in absolute
+ * coordinates: path data, the basic shapes, and the vertices markers sit on
+ */
+
+// Arguments each path command takes
+const ARGUMENT_COUNTS: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+
+// Distance of the control points of a quarter circle of radius 1 from its ends
+const KAPPA = 0.5522847498;
+
+const NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const SEPARATORS = /[\s,]*/y;
+
+interface PathCommand {
+   letter: string;
+   args: number[];
+}
+
+/**
+ * A point on an outline where markers are drawn, with the directions (radians)
+ * the outline arrives and leaves in
+ */
+export interface PathVertex {
+   x: number;
+   y: number;
+   in?: number;
+   out?: number;
+}
+
+/**
+ * Read the arguments of one command, or null when they are not all there.
+ * Arc flags are single digits and may run into the next number ("a1 1 0 01 5 5").
+ */
+function readArguments(d: string, start: number, letter: string, count: number): { args: number[]; end: number } | null {
+   const args: number[] = [];
+   let position = start;
+
+   for (let i = 0; i < count; i++) {
+      SEPARATORS.lastIndex = position;
+      SEPARATORS.exec(d);
+      position = SEPARATORS.lastIndex;
+
+      if (letter.toLowerCase() === 'a' && (i === 3 || i === 4)) {
+         if (d[position] !== '0' && d[position] !== '1') return null;
+         args.push(Number(d[position++]));
+         continue;
+      }
+
+      NUMBER.lastIndex = position;
+      const match = NUMBER.exec(d);
+      if (!match) return null;
+      args.push(parseFloat(match[0]));
+      position = NUMBER.lastIndex;
+   }
+
+   return { args, end: position };
+}
+
+/**
+ * Split path data into commands, repeating a command for each further set of
+ * arguments. Like browsers, parsing stops at the first error, keeping the commands before it.
+ */
+function parsePathData(d: string): PathCommand[] {
+   const commands: PathCommand[] = [];
+   let position = 0;
+
+   for (;;) {
+      SEPARATORS.lastIndex = position;
+      SEPARATORS.exec(d);
+      position = SEPARATORS.lastIndex;
+
+      const letter = d[position];
+      const count = letter === undefined ? undefined : ARGUMENT_COUNTS[letter.toLowerCase()];
+      if (count === undefined) break;
+      position++;
+
+      if (count === 0) {
+         commands.push({ letter, args: [] });
+         continue;
+      }
+
+      // Further coordinate pairs after a move are lines
+      let repeat = letter;
+      let read = readArguments(d, position, repeat, count);
+      if (!read) break;
+      while (read) {
+         commands.push({ letter: repeat, args: read.args });
+         position = read.end;
+         if (repeat === 'M') repeat = 'L';
+         if (repeat === 'm') repeat = 'l';
+         read = readArguments(d, position, repeat, count);
+      }
+   }
+
+   return commands;
+}
+
+/**
+ * Cubic curves along an elliptical arc, following the SVG implementation notes:
+ * the endpoint form is converted to a center and angles, then cut into quarter turns
+ */
+function arcSegments(
+   x1: number,
+   y1: number,
+   rx: number,
+   ry: number,
+   rotation: number,
+   largeArc: boolean,
+   sweep: boolean,
+   x2: number,
+   y2: number
+): PathSegment[] {
+   rx = Math.abs(rx);
+   ry = Math.abs(ry);
+   if (rx === 0 || ry === 0) return [{ op: 'L', x: x2, y: y2 }];
+   if (x1 === x2 && y1 === y2) return [];
+
+   const phi = rotation * Math.PI / 180;
+   const cos = Math.cos(phi);
+   const sin = Math.sin(phi);
+
+   // Midpoint in the ellipse's own axes
+   const dx = (x1 - x2) / 2;
+   const dy = (y1 - y2) / 2;
+   const px = cos * dx + sin * dy;
+   const py = -sin * dx + cos * dy;
+
+   // Radii too small to reach the end are scaled up until they just do
+   const lambda = (px * px) / (rx * rx) + (py * py) / (ry * ry);
+   if (lambda > 1) {
+      rx *= Math.sqrt(lambda);
+      ry *= Math.sqrt(lambda);
+   }
+
+   const numerator = rx * rx * ry * ry - rx * rx * py * py - ry * ry * px * px;
+   const denominator = rx * rx * py * py + ry * ry * px * px;
+   const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+   const cxp = factor * rx * py / ry;
+   const cyp = -factor * ry * px / rx;
+   const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+   const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+   const angle = (ux: number, uy: number) => Math.atan2(uy, ux);
+   const start = angle((px - cxp) / rx, (py - cyp) / ry);
+   let delta = angle((-px - cxp) / rx, (-py - cyp) / ry) - start;
+   if (sweep && delta < 0) delta += 2 * Math.PI;
+   if (!sweep && delta > 0) delta -= 2 * Math.PI;
+
+   const pieces = Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9);
+   const step = delta / pieces;
+   const handle = 4 / 3 * Math.tan(step / 4);
+
+   // Point and derivative on the ellipse at an angle, in the path's coordinates
+   const point = (theta: number): [number, number] => [
+      cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+      cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos,
+   ];
+   const tangent = (theta: number): [number, number] => [
+      -rx * Math.sin(theta) * cos - ry * Math.cos(theta) * sin,
+      -rx * Math.sin(theta) * sin + ry * Math.cos(theta) * cos,
+   ];
+
+   const segments: PathSegment[] = [];
+   for (let i = 0; i < pieces; i++) {
+      const from = start + i * step;
+      const to = from + step;
+      const [ax, ay] = point(from);
+      const [bx, by] = point(to);
+      const [tax, tay] = tangent(from);
+      const [tbx, tby] = tangent(to);
+      segments.push({
+         op: 'C',
+         x1: ax + handle * tax,
+         y1: ay + handle * tay,
+         x2: bx - handle * tbx,
+         y2: by - handle * tby,
+         x: bx,
+         y: by,
+      });
+   }
+
+   // End exactly where the path says, whatever the rounding
+   const last = segments[segments.length - 1];
+   if (last?.op === 'C') {
+      last.x = x2;
+      last.y = y2;
+   }
+   return segments;
+}
+
+/**
+ * Segments of SVG path data (the d attribute)
+ */
+export function pathDataSegments(d: string): PathSegment[] {
+   const segments: PathSegment[] = [];
+   let x = 0;
+   let y = 0;
+   let startX = 0;
+   let startY = 0;
+   // Reflected by the smooth curve commands: the last cubic's second control point, or the last quadratic's control point
+   let cubicControl: [number, number] | null = null;
+   let quadControl: [number, number] | null = null;
+
+   for (const { letter, args } of parsePathData(d)) {
+      const command = letter.toUpperCase();
+      const relative = letter !== command;
+      const ox = relative ? x : 0;
+      const oy = relative ? y : 0;
+      let nextCubic: [number, number] | null = null;
+      let nextQuad: [number, number] | null = null;
+      const reflect = (control: [number, number] | null): [number, number] =>
+         control ? [2 * x - control[0], 2 * y - control[1]] : [x, y];
+
+      // A path must start with a move
+      if (segments.length === 0 && command !== 'M') break;
+
+      switch (command) {
+         case 'M':
+            x = ox + args[0];
+            y = oy + args[1];
+            startX = x;
+            startY = y;
+            segments.push({ op: 'M', x, y });
+            break;
+         case 'L':
+         case 'H':
+         case 'V':
+            if (command === 'L') {
+               x = ox + args[0];
+               y = oy + args[1];
+            } else if (command === 'H') {
+               x = ox + args[0];
+            } else {
+               y = oy + args[0];
+            }
+            segments.push({ op: 'L', x, y });
+            break;
+         case 'C':
+         case 'S': {
+            const [x1, y1] = command === 'C' ? [ox + args[0], oy + args[1]] : reflect(cubicControl);
+            const rest = command === 'C' ? args.slice(2) : args;
+            const x2 = ox + rest[0];
+            const y2 = oy + rest[1];
+            x = ox + rest[2];
+            y = oy + rest[3];
+            segments.push({ op: 'C', x1, y1, x2, y2, x, y });
+            nextCubic = [x2, y2];
+            break;
+         }
+         case 'Q':
+         case 'T': {
+            const [qx, qy]: [number, number] = command === 'Q' ? [ox + args[0], oy + args[1]] : reflect(quadControl);
+            const rest = command === 'Q' ? args.slice(2) : args;
+            const endX = ox + rest[0];
+            const endY = oy + rest[1];
+            // A quadratic curve is the cubic with its control points two thirds of the way to the quadratic's
+            segments.push({
+               op: 'C',
+               x1: x + 2 / 3 * (qx - x),
+               y1: y + 2 / 3 * (qy - y),
+               x2: endX + 2 / 3 * (qx - endX),
+               y2: endY + 2 / 3 * (qy - endY),
+               x: endX,
+               y: endY,
+            });
+            x = endX;
+            y = endY;
+            nextQuad = [qx, qy];
+            break;
+         }
+         case 'A': {
+            const endX = ox + args[5];
+            const endY = oy + args[6];
+            segments.push(...arcSegments(x, y, args[0], args[1], args[2], args[3] === 1, args[4] === 1, endX, endY));
+            x = endX;
+            y = endY;
+            break;
+         }
+         case 'Z':
+            segments.push({ op: 'Z' });
+            x = startX;
+            y = startY;
+            break;
+      }
+
+      cubicControl = nextCubic;
+      quadControl = nextQuad;
+   }
+
+   return segments;
+}
+
+/**
+ * Segments of a rectangle, with its corners rounded by rx and ry
+ */
+export function rectSegments(x: number, y: number, width: number, height: number, rx: number, ry: number): PathSegment[] {
+   if (width <= 0 || height <= 0) return [];
+
+   rx = Math.min(Math.max(rx, 0), width / 2);
+   ry = Math.min(Math.max(ry, 0), height / 2);
+   if (rx === 0 || ry === 0) {
+      return [
+         { op: 'M', x, y },
+         { op: 'L', x: x + width, y },
+         { op: 'L', x: x + width, y: y + height },
+         { op: 'L', x, y: y + height },
+         { op: 'Z' },
+      ];
+   }
+
+   const kx = rx * KAPPA;
+   const ky = ry * KAPPA;
+   const right = x + width;
+   const bottom = y + height;
+   return [
+      { op: 'M', x: x + rx, y },
+      { op: 'L', x: right - rx, y },
+      { op: 'C', x1: right - rx + kx, y1: y, x2: right, y2: y + ry - ky, x: right, y: y + ry },
+      { op: 'L', x: right, y: bottom - ry },
+      { op: 'C', x1: right, y1: bottom - ry + ky, x2: right - rx + kx, y2: bottom, x: right - rx, y: bottom },
+      { op: 'L', x: x + rx, y: bottom },
+      { op: 'C', x1: x + rx - kx, y1: bottom, x2: x, y2: bottom - ry + ky, x, y: bottom - ry },
+      { op: 'L', x, y: y + ry },
+      { op: 'C', x1: x, y1: y + ry - ky, x2: x + rx - kx, y2: y, x: x + rx, y },
+      { op: 'Z' },
+   ];
+}
+
+/**
+ * Segments of an ellipse (or a circle, with equal radii)
+ */
+export function ellipseSegments(cx: number, cy: number, rx: number, ry: number): PathSegment[] {
+   if (rx <= 0 || ry <= 0) return [];
+
+   const kx = rx * KAPPA;
+   const ky = ry * KAPPA;
+   return [
+      { op: 'M', x: cx + rx, y: cy },
+      { op: 'C', x1: cx + rx, y1: cy + ky, x2: cx + kx, y2: cy + ry, x: cx, y: cy + ry },
+      { op: 'C', x1: cx - kx, y1: cy + ry, x2: cx - rx, y2: cy + ky, x: cx - rx, y: cy },
+      { op: 'C', x1: cx - rx, y1: cy - ky, x2: cx - kx, y2: cy - ry, x: cx, y: cy - ry },
+      { op: 'C', x1: cx + kx, y1: cy - ry, x2: cx + rx, y2: cy - ky, x: cx + rx, y: cy },
+      { op: 'Z' },
+   ];
+}
+
+/**
+ * Segments joining points (line, polyline and polygon), closed for polygons
+ */
+export function polySegments(points: [number, number][], closed: boolean): PathSegment[] {
+   if (points.length === 0) return [];
+
+   const segments: PathSegment[] = points.map(([x, y], i) => ({ op: i === 0 ? 'M' : 'L', x, y }));
+   if (closed) segments.push({ op: 'Z' });
+   return segments;
+}
+
+/**
+ * Apply an affine transform to every point of the segments
+ */
+export function transformSegments(segments: PathSegment[], [a, b, c, d, e, f]: AffineMatrix): PathSegment[] {
+   const tx = (x: number, y: number) => a * x + c * y + e;
+   const ty = (x: number, y: number) => b * x + d * y + f;
+
+   return segments.map(segment => {
+      switch (segment.op) {
+         case 'M':
+         case 'L':
+            return { op: segment.op, x: tx(segment.x, segment.y), y: ty(segment.x, segment.y) };
+         case 'C':
+            return {
+               op: 'C',
+               x1: tx(segment.x1, segment.y1),
+               y1: ty(segment.x1, segment.y1),
+               x2: tx(segment.x2, segment.y2),
+               y2: ty(segment.x2, segment.y2),
+               x: tx(segment.x, segment.y),
+               y: ty(segment.x, segment.y),
+            };
+         case 'Z':
+            return segment;
+      }
+   });
+}
+
+/**
+ * Box around the segments' points and control points
+ */
+export function segmentBounds(segments: PathSegment[]): { x: number; y: number; width: number; height: number } {
+   const xs: number[] = [];
+   const ys: number[] = [];
+   for (const segment of segments) {
+      if (segment.op === 'Z') continue;
+      xs.push(segment.x);
+      ys.push(segment.y);
+      if (segment.op === 'C') {
+         xs.push(segment.x1, segment.x2);
+         ys.push(segment.y1, segment.y2);
+      }
+   }
+
+   const x = xs.reduce((min, value) => Math.min(min, value), Infinity);
+   const y = ys.reduce((min, value) => Math.min(min, value), Infinity);
+   return {
+      x,
+      y,
+      width: xs.reduce((max, value) => Math.max(max, value), -Infinity) - x,
+      height: ys.reduce((max, value) => Math.max(max, value), -Infinity) - y,
+   };
+}
+
+/**
+ * The vertices of an outline: the ends of every segment, with the directions
+ * of the segments on either side. Curves leave towards their first distinct
+ * control point and arrive from their last.
+ */
+export function pathVertices(segments: PathSegment[]): PathVertex[] {
+   const vertices: PathVertex[] = [];
+   const direction = (fromX: number, fromY: number, toX: number, toY: number) =>
+      fromX === toX && fromY === toY ? undefined : Math.atan2(toY - fromY, toX - fromX);
+
+   let x = 0;
+   let y = 0;
+   let start: PathVertex | null = null;
+
+   for (const segment of segments) {
+      if (segment.op === 'M') {
+         x = segment.x;
+         y = segment.y;
+         start = { x, y };
+         vertices.push(start);
+         continue;
+      }
+
+      const previous = vertices[vertices.length - 1];
+      const endX = segment.op === 'Z' ? start?.x ?? x : segment.x;
+      const endY = segment.op === 'Z' ? start?.y ?? y : segment.y;
+
+      let leave = direction(x, y, endX, endY);
+      let arrive = leave;
+      if (segment.op === 'C') {
+         leave = direction(x, y, segment.x1, segment.y1) ?? direction(x, y, segment.x2, segment.y2) ?? leave;
+         arrive = direction(segment.x2, segment.y2, endX, endY) ?? direction(segment.x1, segment.y1, endX, endY) ?? arrive;
+      }
+
+      if (previous) previous.out ??= leave;
+      vertices.push({ x: endX, y: endY, in: arrive });
+
+      // Closing a subpath joins its end to its start
+      if (segment.op === 'Z' && start) start.in ??= arrive;
+      x = endX;
+      y = endY;
+   }
+
+   return vertices;
+}
@@ -0,0 +1,76 @@
+/**
+ * Cleaning of untrusted SVG before it is attached to the page for measuring:
+ * nothing may run, and nothing may be fetched from outside the file
+ */
+
+export const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Elements that run code, embed other documents, load resources or animate, by lower-case local name
+const REMOVED_ELEMENTS = new Set([
+   'script',
+   'foreignobject',
+   'image',
+   'feimage',
+   'iframe',
+   'embed',
+   'object',
+   'audio',
+   'video',
+   'canvas',
+   'handler',
+   'listener',
+   'animate',
+   'animatecolor',
+   'animatemotion',
+   'animatetransform',
+   'set',
+   'discard',
+]);
+
+// Links that may stay on <a> elements; every other reference must point inside the file
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+// url() references to anything but a fragment of this file
+const EXTERNAL_URL = /url\(\s*(?!['"]?\s*#)[^)]*\)/gi;
+
+/**
+ * Replace references in CSS to anything outside the file
+ */
+function sanitizeCss(css: string): string {
+   return css.replace(/@import[^;]*;?/gi, '').replace(EXTERNAL_URL, 'none');
+}
+
+/**
+ * Strip an SVG document in place: scripts, event handlers, embedded HTML and
+ * images, animations, and references to other files, whether in links, styles
+ * or attributes. Elements outside the SVG namespace (editor metadata and the
+ * like) are dropped as well.
+ */
+export function sanitizeSvg(root: Element): void {
+   const elements = [root, ...root.getElementsByTagName('*')];
+
+   for (const element of elements) {
+      if (element !== root && (element.namespaceURI !== SVG_NS || REMOVED_ELEMENTS.has(element.localName.toLowerCase()))) {
+         element.remove();
+         continue;
+      }
+
+      for (const attribute of [...element.attributes]) {
+         const name = attribute.localName.toLowerCase();
+         const value = attribute.value.trim();
+
+         if (name.startsWith('on')) {
+            element.removeAttributeNode(attribute);
+         } else if (name === 'href') {
+            const allowed = value.startsWith('#') || (element.localName === 'a' && SAFE_LINK.test(value));
+            if (!allowed) element.removeAttributeNode(attribute);
+         } else if (/url\(|@import/i.test(value)) {
+            attribute.value = sanitizeCss(attribute.value);
+         }
+      }
+
+      if (element.localName === 'style') {
+         element.textContent = sanitizeCss(element.textContent ?? '');
+      }
+   }
+}
@@ -0,0 +1,792 @@
+import type { ConversionOptions } from '../types';
+import { ConversionError, createCanvas, getContext2d, releaseCanvas, throwIfAborted } from '../utils';
+import type { AffineMatrix, Gradient, PageItem, PathFill, PathSegment, PathStroke, PdfPage, RgbColor } from './pdfAssembler';
+import { contentHeight, contentWidth, fitPageBox, mirrorOffset, pageBoxFor } from './pageGeometry';
+import { getDecorations, pdfFontFamily, pdfFontStyle, WORD_PATTERN } from './htmlVector';
+import {
+   ellipseSegments,
+   pathDataSegments,
+   pathVertices,
+   polySegments,
+   rectSegments,
+   segmentBounds,
+   transformSegments,
+   type PathVertex,
+} from './svgPath';
+import { sanitizeSvg, SVG_NS } from './svgSanitize';
+
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+// mm to PDF pt
+const PT_PER_MM = 72 / 25.4;
+
+// Size of a drawing that gives neither its size nor a viewBox, in px (the CSS default for replaced elements)
+const DEFAULT_WIDTH = 300;
+const DEFAULT_HEIGHT = 150;
+
+// Limits for files that multiply through <use> references to each other
+const MAX_ELEMENTS = 50000;
+const MAX_USE_DEPTH = 8;
+
+// Text fainter than this is left out
+const MIN_TEXT_OPACITY = 0.05;
+
+// Elements that are only drawn where something refers to them, or never
+const UNRENDERED_ELEMENTS = new Set([
+   'defs', 'symbol', 'marker', 'clipPath', 'mask', 'pattern', 'linearGradient', 'radialGradient',
+   'filter', 'style', 'title', 'desc', 'metadata',
+]);
+
+// Attributes of a <use> that place the copy rather than style it
+const USE_PLACEMENT = new Set(['x', 'y', 'width', 'height', 'href', 'transform']);
+
+// Elements that text inside a <text> may be nested in
+const TEXT_CONTENT = new Set(['text', 'tspan', 'textPath', 'a']);
+
+/**
+ * What the element tree is drawn onto
+ */
+interface Drawing {
+   items: PageItem[]; // in mm from the drawing's top-left corner
+   toMm: DOMMatrix; // screen px to mm from the drawing's top-left corner
+   scale: number; // mm per screen px
+   viewport: { width: number; height: number }; // user units that percentages of user-space gradients refer to
+   lookup: (id: string) => Element | null;
+   signal?: AbortSignal;
+}
+
+/**
+ * What an element takes from its ancestors
+ */
+interface Inherited {
+   opacity: number; // product of the group opacities
+   matrix: DOMMatrix | null; // parent user space to mm for content that is not laid out (markers); null to ask the browser
+   context?: { fill: string; stroke: string }; // paint of the shape that a marker is drawn on
+}
+
+/**
+ * A resolved fill or stroke
+ */
+type Paint = { color: RgbColor; opacity: number } | { gradient: Gradient; opacity: number };
+
+/**
+ * Parse a number from computed style, with a default for anything else
+ */
+function parseNumber(value: string | null, fallback: number): number {
+   const number = parseFloat(value ?? '');
+   return isNaN(number) ? fallback : number;
+}
+
+/**
+ * Parse a computed color ("rgb(...)" / "rgba(...)") with its alpha; null for anything else
+ */
+function parseRgba(value: string): { color: RgbColor; alpha: number } | null {
+   const match = value.match(/rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:[,\s/]+([\d.]+%?))?\s*\)/);
+   if (!match) return null;
+
+   const alpha = match[4] === undefined ? 1 : match[4].endsWith('%') ? parseFloat(match[4]) / 100 : parseFloat(match[4]);
+   return { color: [Math.round(+match[1]), Math.round(+match[2]), Math.round(+match[3])], alpha };
+}
+
+/**
+ * Element a url(#id) reference in computed style points at
+ */
+function referencedById(value: string, drawing: Drawing): Element | null {
+   const match = value.match(/^url\(\s*["']?[^#"')]*#([^"')]+)["']?\s*\)/);
+   return match ? drawing.lookup(match[1]) : null;
+}
+
+/**
+ * Element an href attribute points at, within the file
+ */
+function referencedByHref(element: Element, drawing: Drawing): Element | null {
+   const href = element.getAttribute('href') ?? element.getAttributeNS(XLINK_NS, 'href') ?? '';
+   return href.startsWith('#') ? drawing.lookup(href.slice(1)) : null;
+}
+
+function toAffine(matrix: DOMMatrix): AffineMatrix {
+   return [matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f];
+}
+
+/**
+ * How much a transform scales lengths, on average over its directions
+ */
+function matrixScale(matrix: DOMMatrix): number {
+   return Math.sqrt(Math.abs(matrix.a * matrix.d - matrix.b * matrix.c));
+}
+
+/**
+ * The transform attribute of an element
+ */
+function localTransform(element: Element): DOMMatrix {
+   const transform = element instanceof SVGGraphicsElement ? element.transform.baseVal.consolidate() : null;
+   return transform ? DOMMatrix.fromMatrix(transform.matrix) : new DOMMatrix();
+}
+
+/**
+ * Transform from an element's user space to mm on the drawing: from the
+ * browser's layout, or built up from the transforms of marker content
+ */
+function userToMm(element: Element, drawing: Drawing, inherited: Inherited): DOMMatrix | null {
+   if (inherited.matrix) return inherited.matrix.multiply(localTransform(element));
+
+   const screen = element instanceof SVGGraphicsElement ? element.getScreenCTM() : null;
+   return screen && drawing.toMm.multiply(screen);
+}
+
+/**
+ * Color standing in for a gradient where only flat color can be drawn (strokes, text)
+ */
+function flatColor(paint: Paint): RgbColor {
+   if ('color' in paint) return paint.color;
+   const { stops } = paint.gradient;
+   return stops[Math.floor(stops.length / 2)].color;
+}
+
+/**
+ * Resolve a gradient element, following href to the gradients it takes
+ * attributes and stops from. Object bounding box units are mapped onto the
+ * shape's box; gradients that degenerate to one color come back as that color.
+ */
+function gradientPaint(
+   server: Element,
+   bounds: () => { x: number; y: number; width: number; height: number },
+   matrix: DOMMatrix,
+   drawing: Drawing
+): Paint | null {
+   const chain: SVGGradientElement[] = [];
+   for (let link: Element | null = server; link instanceof SVGGradientElement && !chain.includes(link); link = referencedByHref(link, drawing)) {
+      chain.push(link);
+   }
+   if (chain.length === 0) return null;
+
+   const attribute = (name: string) => chain.find(gradient => gradient.hasAttribute(name))?.getAttribute(name) ?? null;
+
+   // Offsets are clamped to 0-1 and never go back
+   const stopElements = [...(chain.find(gradient => gradient.querySelector('stop'))?.children ?? [])]
+      .filter(child => child.localName === 'stop');
+   const stops: { offset: number; color: RgbColor; opacity: number }[] = [];
+   for (const stop of stopElements) {
+      const value = stop.getAttribute('offset')?.trim() ?? '0';
+      const offset = value.endsWith('%') ? parseNumber(value, 0) / 100 : parseNumber(value, 0);
+      const previous = stops.length > 0 ? stops[stops.length - 1].offset : 0;
+
+      const style = getComputedStyle(stop);
+      const rgba = parseRgba(style.stopColor) ?? { color: [0, 0, 0], alpha: 1 };
+      stops.push({
+         offset: Math.min(Math.max(offset, previous), 1),
+         color: rgba.color,
+         opacity: rgba.alpha * parseNumber(style.stopOpacity, 1),
+      });
+   }
+   if (stops.length === 0) return null;
+
+   // PDF shadings are opaque; translucent stops are averaged into one opacity
+   const opacity = stops.reduce((sum, stop) => sum + stop.opacity, 0) / stops.length;
+   const last = { color: stops[stops.length - 1].color, opacity };
+   if (stops.length === 1) return last;
+
+   const objectBox = attribute('gradientUnits') !== 'userSpaceOnUse';
+   let space = matrix;
+   if (objectBox) {
+      const box = bounds();
+      if (!(box.width > 0 && box.height > 0)) return null;
+      space = space.multiply(new DOMMatrix([box.width, 0, 0, box.height, box.x, box.y]));
+   }
+   const transform = chain.find(gradient => gradient.hasAttribute('gradientTransform'))?.gradientTransform.baseVal.consolidate();
+   if (transform) space = space.multiply(DOMMatrix.fromMatrix(transform.matrix));
+
+   // Percentages are of the bounding box, or of the viewport in user space
+   const { width, height } = drawing.viewport;
+   const diagonal = Math.sqrt((width * width + height * height) / 2);
+   const length = (name: string, fallback: string, reference: number) => {
+      const value = (attribute(name) ?? fallback).trim();
+      const number = parseNumber(value, 0);
+      return value.endsWith('%') ? number / 100 * (objectBox ? 1 : reference) : number;
+   };
+
+   let gradient: Gradient;
+   if (chain[0] instanceof SVGLinearGradientElement) {
+      const coords = [length('x1', '0%', width), length('y1', '0%', height), length('x2', '100%', width), length('y2', '0%', height)];
+      if (coords[0] === coords[2] && coords[1] === coords[3]) return last;
+      gradient = { kind: 'linear', coords, matrix: toAffine(space), stops: [] };
+   } else {
+      const cx = length('cx', '50%', width);
+      const cy = length('cy', '50%', height);
+      const r = length('r', '50%', diagonal);
+      if (r <= 0) return last;
+      const fx = attribute('fx') === null ? cx : length('fx', '0', width);
+      const fy = attribute('fy') === null ? cy : length('fy', '0', height);
+      const coords = [fx, fy, length('fr', '0%', diagonal), cx, cy, r];
+      gradient = { kind: 'radial', coords, matrix: toAffine(space), stops: [] };
+   }
+
+   gradient.stops = stops.map(({ offset, color }) => ({ offset, color }));
+   return { gradient, opacity };
+}
+
+/**
+ * Resolve a computed fill or stroke: a color, a gradient (falling back to the
+ * color given after it), or null for none
+ */
+function resolvePaint(
+   value: string,
+   inherited: Inherited,
+   bounds: () => { x: number; y: number; width: number; height: number },
+   matrix: DOMMatrix,
+   drawing: Drawing
+): Paint | null {
+   if (value === 'context-fill') value = inherited.context?.fill ?? 'none';
+   if (value === 'context-stroke') value = inherited.context?.stroke ?? 'none';
+
+   if (value.startsWith('url(')) {
+      const server = referencedById(value, drawing);
+      const paint = server && gradientPaint(server, bounds, matrix, drawing);
+      if (paint) return paint;
+      value = value.slice(value.indexOf(')') + 1).trim();
+   }
+
+   const rgba = parseRgba(value);
+   return rgba && rgba.alpha > 0 ? { color: rgba.color, opacity: rgba.alpha } : null;
+}
+
+/**
+ * Parse a computed dash array into lengths in mm; undefined for solid lines
+ */
+function dashPattern(value: string, scale: number): number[] | undefined {
+   if (value === 'none') return undefined;
+
+   const lengths = value.split(/[\s,]+/).map(length => parseFloat(length));
+   if (lengths.some(length => !(length >= 0)) || lengths.every(length => length === 0)) return undefined;
+
+   // An odd number of lengths is repeated to make an even one
+   return (lengths.length % 2 ? [...lengths, ...lengths] : lengths).map(length => length * scale);
+}
+
+/**
+ * Outline of a basic shape or path in its own user space
+ */
+function shapeSegments(element: Element): PathSegment[] {
+   if (element instanceof SVGPathElement) {
+      return pathDataSegments(element.getAttribute('d') ?? '');
+   }
+   if (element instanceof SVGRectElement || element instanceof SVGEllipseElement) {
+      // A missing corner radius takes the other's value
+      const rx = element.hasAttribute('rx') ? element.rx.baseVal.value : null;
+      const ry = element.hasAttribute('ry') ? element.ry.baseVal.value : null;
+      if (element instanceof SVGEllipseElement) {
+         return ellipseSegments(element.cx.baseVal.value, element.cy.baseVal.value, rx ?? ry ?? 0, ry ?? rx ?? 0);
+      }
+      const { x, y, width, height } = element;
+      return rectSegments(x.baseVal.value, y.baseVal.value, width.baseVal.value, height.baseVal.value, rx ?? ry ?? 0, ry ?? rx ?? 0);
+   }
+   if (element instanceof SVGCircleElement) {
+      const r = element.r.baseVal.value;
+      return ellipseSegments(element.cx.baseVal.value, element.cy.baseVal.value, r, r);
+   }
+   if (element instanceof SVGLineElement) {
+      const { x1, y1, x2, y2 } = element;
+      return polySegments([[x1.baseVal.value, y1.baseVal.value], [x2.baseVal.value, y2.baseVal.value]], false);
+   }
+   if (element instanceof SVGPolylineElement || element instanceof SVGPolygonElement) {
+      const points: [number, number][] = [];
+      for (let i = 0; i < element.points.numberOfItems; i++) {
+         const point = element.points.getItem(i);
+         points.push([point.x, point.y]);
+      }
+      return polySegments(points, element instanceof SVGPolygonElement);
+   }
+   return [];
+}
+
+/**
+ * Marker orientation at a vertex in degrees: fixed, or along the outline
+ * (the bisector of the directions in and out at middle vertices)
+ */
+function markerAngle(marker: SVGMarkerElement, vertex: PathVertex, position: 'start' | 'mid' | 'end'): number {
+   const orient = marker.getAttribute('orient')?.trim() ?? '0';
+   if (orient !== 'auto' && orient !== 'auto-start-reverse') return parseNumber(orient, 0);
+
+   let angle: number;
+   if (position === 'start') angle = vertex.out ?? vertex.in ?? 0;
+   else if (position === 'end') angle = vertex.in ?? vertex.out ?? 0;
+   else if (vertex.in !== undefined && vertex.out !== undefined) {
+      angle = Math.atan2(Math.sin(vertex.in) + Math.sin(vertex.out), Math.cos(vertex.in) + Math.cos(vertex.out));
+   } else angle = vertex.in ?? vertex.out ?? 0;
+
+   if (position === 'start' && orient === 'auto-start-reverse') angle += Math.PI;
+   return angle * 180 / Math.PI;
+}
+
+/**
+ * Draw the markers (arrowheads and the like) on the vertices of a shape
+ */
+function collectMarkers(
+   style: CSSStyleDeclaration,
+   segments: PathSegment[],
+   matrix: DOMMatrix,
+   opacity: number,
+   drawing: Drawing
+): void {
+   const markerAt = (value: string) => {
+      const marker = value.startsWith('url(') ? referencedById(value, drawing) : null;
+      return marker instanceof SVGMarkerElement ? marker : null;
+   };
+   const markers = { start: markerAt(style.markerStart), mid: markerAt(style.markerMid), end: markerAt(style.markerEnd) };
+   if (!markers.start && !markers.mid && !markers.end) return;
+
+   const strokeWidth = parseNumber(style.strokeWidth, 1);
+   const vertices = pathVertices(segments);
+
+   vertices.forEach((vertex, i) => {
+      const position = i === 0 ? 'start' : i === vertices.length - 1 ? 'end' : 'mid';
+      const marker = markers[position];
+      if (!marker) return;
+
+      // The marker's viewBox is fitted into its width and height, which are in stroke widths by default
+      let scaleX = 1;
+      let scaleY = 1;
+      const viewBox = marker.hasAttribute('viewBox') ? marker.viewBox.baseVal : null;
+      if (viewBox && viewBox.width > 0 && viewBox.height > 0) {
+         scaleX = marker.markerWidth.baseVal.value / viewBox.width;
+         scaleY = marker.markerHeight.baseVal.value / viewBox.height;
+         const aspect = marker.preserveAspectRatio.baseVal;
+         if (aspect.align !== SVGPreserveAspectRatio.SVG_PRESERVEASPECTRATIO_NONE) {
+            const slice = aspect.meetOrSlice === SVGPreserveAspectRatio.SVG_MEETORSLICE_SLICE;
+            scaleX = scaleY = slice ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+         }
+      }
+      const units = marker.markerUnits.baseVal === SVGMarkerElement.SVG_MARKERUNITS_USERSPACEONUSE ? 1 : strokeWidth;
+
+      const placement = matrix
+         .translate(vertex.x, vertex.y)
+         .rotate(markerAngle(marker, vertex, position))
+         .scale(units)
+         .scale(scaleX, scaleY)
+         .translate(-marker.refX.baseVal.value, -marker.refY.baseVal.value);
+
+      const inherited = { opacity, matrix: placement, context: { fill: style.fill, stroke: style.stroke } };
+      for (const child of marker.children) collectElement(child, drawing, inherited);
+   });
+}
+
+/**
+ * Draw a path or basic shape: its fill, its stroke, then its markers
+ */
+function collectShape(element: Element, style: CSSStyleDeclaration, opacity: number, drawing: Drawing, inherited: Inherited): void {
+   const segments = shapeSegments(element);
+   const matrix = userToMm(element, drawing, inherited);
+   if (segments.length === 0 || !matrix) return;
+
+   if (style.visibility === 'visible') {
+      const bounds = () => segmentBounds(segments);
+      let fill: PathFill | undefined;
+      let stroke: PathStroke | undefined;
+
+      const fillPaint = element.localName === 'line' ? null : resolvePaint(style.fill, inherited, bounds, matrix, drawing);
+      const fillOpacity = fillPaint ? fillPaint.opacity * parseNumber(style.fillOpacity, 1) * opacity : 0;
+      if (fillPaint && fillOpacity > 0) {
+         fill = {
+            paint: 'gradient' in fillPaint ? fillPaint.gradient : fillPaint.color,
+            opacity: fillOpacity,
+            rule: style.fillRule === 'evenodd' ? 'evenodd' : 'nonzero',
+         };
+      }
+
+      const strokePaint = resolvePaint(style.stroke, inherited, bounds, matrix, drawing);
+      const strokeOpacity = strokePaint ? strokePaint.opacity * parseNumber(style.strokeOpacity, 1) * opacity : 0;
+      const strokeWidth = parseNumber(style.strokeWidth, 1);
+      if (strokePaint && strokeOpacity > 0 && strokeWidth > 0) {
+         // Non-scaling strokes keep their width on screen whatever the element's transform
+         const scale = style.vectorEffect === 'non-scaling-stroke' ? drawing.scale : matrixScale(matrix);
+         const cap = style.strokeLinecap;
+         const join = style.strokeLinejoin;
+         stroke = {
+            color: flatColor(strokePaint),
+            opacity: strokeOpacity,
+            width: strokeWidth * scale,
+            cap: cap === 'round' || cap === 'square' ? cap : 'butt',
+            join: join === 'round' || join === 'bevel' ? join : 'miter',
+            miterLimit: parseNumber(style.strokeMiterlimit, 4),
+            dash: dashPattern(style.strokeDasharray, scale),
+            dashOffset: parseNumber(style.strokeDashoffset, 0) * scale,
+         };
+      }
+
+      if (fill || stroke) {
+         drawing.items.push({ kind: 'path', x: 0, y: 0, segments: transformSegments(segments, toAffine(matrix)), fill, stroke });
+      }
+   }
+
+   // Markers are not drawn inside other markers
+   if (!inherited.matrix && element.localName !== 'rect' && element.localName !== 'circle' && element.localName !== 'ellipse') {
+      collectMarkers(style, segments, matrix, opacity, drawing);
+   }
+}
+
+/**
+ * The characters of a text element as the browser lays them out, white space
+ * collapsed, in runs of one text node each with the index of their first
+ * character. Null when the count differs from the browser's, as then the
+ * positions it gives cannot be matched to the characters.
+ */
+function textNodeRuns(text: SVGTextContentElement): { node: Text; text: string; index: number }[] | null {
+   const runs: { node: Text; text: string; index: number }[] = [];
+   const walker = document.createTreeWalker(text, NodeFilter.SHOW_TEXT);
+   let index = 0;
+   let afterSpace = true; // leading white space is dropped
+
+   for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+      let displayed = true;
+      for (let parent = node.parentElement; parent && parent !== text.parentElement; parent = parent.parentElement) {
+         displayed &&= TEXT_CONTENT.has(parent.localName) && getComputedStyle(parent).display !== 'none';
+      }
+      if (!displayed) continue;
+
+      const preserve = /^(pre|break-spaces)/.test(getComputedStyle(node.parentElement!).whiteSpace);
+      let kept = '';
+      for (const char of node.data.replace(/[\t\n\r]/g, ' ')) {
+         if (char === ' ' && afterSpace && !preserve) continue;
+         afterSpace = char === ' ';
+         kept += char;
+      }
+
+      runs.push({ node, text: kept, index });
+      index += kept.length;
+   }
+
+   // So is trailing white space
+   const last = runs[runs.length - 1];
+   if (last?.text.endsWith(' ') && !/^(pre|break-spaces)/.test(getComputedStyle(last.node.parentElement!).whiteSpace)) {
+      last.text = last.text.slice(0, -1);
+      index--;
+   }
+
+   return index === text.getNumberOfChars() ? runs : null;
+}
+
+/**
+ * How far below the point the browser gives as a character's position its
+ * alphabetic baseline lies, in user units. The browser reports the point on
+ * the dominant baseline, which the font's metrics relate to the alphabetic one.
+ */
+function baselineOffset(style: CSSStyleDeclaration): number {
+   const baseline = style.dominantBaseline;
+   if (baseline === 'auto' || baseline === 'alphabetic' || baseline === '') return 0;
+
+   const canvas = createCanvas(1, 1);
+   try {
+      const ctx = getContext2d(canvas);
+      ctx.font = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`;
+      const metrics = ctx.measureText('x');
+      const ascent = metrics.fontBoundingBoxAscent;
+      const descent = metrics.fontBoundingBoxDescent;
+
+      switch (baseline) {
+         case 'central':
+            return (ascent - descent) / 2;
+         case 'middle':
+            return metrics.actualBoundingBoxAscent / 2;
+         case 'hanging':
+            return metrics.hangingBaseline;
+         case 'mathematical':
+            return ascent / 2;
+         case 'text-before-edge':
+         case 'text-top':
+            return ascent;
+         case 'text-after-edge':
+         case 'text-bottom':
+         case 'ideographic':
+            return -descent;
+         default:
+            return 0;
+      }
+   } finally {
+      releaseCanvas(canvas);
+   }
+}
+
+/**
+ * Emit one text run per word of a text element, at the position and angle
+ * the browser laid it out at
+ */
+function collectText(text: SVGTextElement, opacity: number, drawing: Drawing, inherited: Inherited): void {
+   const matrix = userToMm(text, drawing, inherited);
+   const runs = textNodeRuns(text);
+   if (!matrix || !runs) return;
+
+   const scale = matrixScale(matrix);
+   const wordPattern = new RegExp(WORD_PATTERN, 'g');
+
+   for (const run of runs) {
+      const parent = run.node.parentElement!;
+      const style = getComputedStyle(parent);
+      if (style.visibility !== 'visible') continue;
+
+      // Text is drawn in one flat color: its fill, or its stroke when it is only outlined
+      const bounds = () => text.getBBox();
+      const paint = resolvePaint(style.fill, inherited, bounds, matrix, drawing)
+         ?? resolvePaint(style.stroke, inherited, bounds, matrix, drawing);
+      if (!paint || paint.opacity * parseNumber(style.fillOpacity, 1) * opacity < MIN_TEXT_OPACITY) continue;
+
+      const color = flatColor(paint);
+      const font = pdfFontFamily(style.fontFamily);
+      const fontStyle = pdfFontStyle(style);
+      const fontSize = parseNumber(style.fontSize, 16) * scale * PT_PER_MM;
+      const link = parent.closest('a')?.getAttribute('href') ?? undefined;
+      const { underline, lineThrough } = getDecorations(parent, text.parentElement!);
+      const offset = baselineOffset(style);
+
+      for (let match = wordPattern.exec(run.text); match; match = wordPattern.exec(run.text)) {
+         const first = run.index + match.index;
+         const last = first + match[0].length - 1;
+
+         let start: DOMPoint;
+         let end: DOMPoint;
+         let rotation: number;
+         try {
+            rotation = text.getRotationOfChar(first) * Math.PI / 180;
+            // Down to the alphabetic baseline, across the direction the word runs in
+            const shift = new DOMMatrix().translate(-Math.sin(rotation) * offset, Math.cos(rotation) * offset);
+            start = matrix.multiply(shift).transformPoint(text.getStartPositionOfChar(first));
+            end = matrix.multiply(shift).transformPoint(text.getEndPositionOfChar(last));
+         } catch {
+            // Characters past the end of a text path are not laid out
+            continue;
+         }
+
+         // The baseline's direction on the page, counterclockwise as the assembler turns text
+         const dx = matrix.a * Math.cos(rotation) + matrix.c * Math.sin(rotation);
+         const dy = matrix.b * Math.cos(rotation) + matrix.d * Math.sin(rotation);
+         const angle = -Math.atan2(dy, dx) * 180 / Math.PI;
+
+         drawing.items.push({
+            kind: 'textRun',
+            text: match[0],
+            x: start.x,
+            y: start.y,
+            width: Math.hypot(end.x - start.x, end.y - start.y),
+            font,
+            fontStyle,
+            fontSize,
+            color,
+            underline,
+            lineThrough,
+            link: link && /^(https?:|mailto:)/i.test(link) ? link : undefined,
+            angle: Math.abs(angle) > 0.01 ? angle : undefined,
+         });
+      }
+      wordPattern.lastIndex = 0;
+   }
+}
+
+/**
+ * Collect the page items an element and its descendants draw
+ */
+function collectElement(element: Element, drawing: Drawing, inherited: Inherited): void {
+   if (element.namespaceURI !== SVG_NS || UNRENDERED_ELEMENTS.has(element.localName)) return;
+   throwIfAborted(drawing.signal);
+
+   const style = getComputedStyle(element);
+   if (style.display === 'none') return;
+   const opacity = inherited.opacity * parseNumber(style.opacity, 1);
+
+   switch (element.localName) {
+      case 'svg':
+      case 'g':
+      case 'a':
+      case 'switch': {
+         const matrix = inherited.matrix && inherited.matrix.multiply(localTransform(element));
+         // A switch shows its first child; with embedded HTML removed, that is the fallback meant for SVG viewers
+         const children = element.localName === 'switch' ? [...element.children].slice(0, 1) : [...element.children];
+         for (const child of children) collectElement(child, drawing, { ...inherited, opacity, matrix });
+         break;
+      }
+      case 'text':
+         // Text is placed from the browser's layout, which marker content does not have
+         if (!inherited.matrix) collectText(element as SVGTextElement, opacity, drawing, inherited);
+         break;
+      case 'path':
+      case 'rect':
+      case 'circle':
+      case 'ellipse':
+      case 'line':
+      case 'polyline':
+      case 'polygon':
+         collectShape(element, style, opacity, drawing, inherited);
+         break;
+   }
+}
+
+/**
+ * Replace every <use> with a copy of the element it references, so that the
+ * copy is laid out and styled like any other element. Symbols become nested
+ * <svg> viewports. Copies lose their ids, so references keep resolving to the originals.
+ */
+function expandUses(root: Element): void {
+   const doc = root.ownerDocument;
+   let elementCount = root.getElementsByTagName('*').length;
+
+   for (let depth = 0; depth <= MAX_USE_DEPTH; depth++) {
+      const uses = [...root.getElementsByTagNameNS(SVG_NS, 'use')];
+      if (uses.length === 0) return;
+
+      const ids = new Map<string, Element>();
+      for (const element of root.querySelectorAll('[id]')) {
+         if (!ids.has(element.id)) ids.set(element.id, element);
+      }
+
+      for (const use of uses) {
+         const href = use.getAttribute('href') ?? use.getAttributeNS(XLINK_NS, 'href') ?? '';
+         const target = href.startsWith('#') ? ids.get(href.slice(1)) : undefined;
+
+         // References to an ancestor would copy themselves forever, as would copies nested past the limit
+         if (!target || target.contains(use) || depth === MAX_USE_DEPTH) {
+            use.remove();
+            continue;
+         }
+
+         const group = doc.createElementNS(SVG_NS, 'g');
+         for (const attribute of use.attributes) {
+            if (!USE_PLACEMENT.has(attribute.localName)) group.setAttributeNS(attribute.namespaceURI, attribute.name, attribute.value);
+         }
+         const x = parseNumber(use.getAttribute('x'), 0);
+         const y = parseNumber(use.getAttribute('y'), 0);
+         group.setAttribute('transform', `${use.getAttribute('transform') ?? ''} translate(${x} ${y})`);
+
+         let copy: Element;
+         if (target.localName === 'symbol') {
+            copy = doc.createElementNS(SVG_NS, 'svg');
+            for (const attribute of target.attributes) copy.setAttributeNS(attribute.namespaceURI, attribute.name, attribute.value);
+            for (const child of target.childNodes) copy.append(child.cloneNode(true));
+         } else {
+            copy = target.cloneNode(true) as Element;
+         }
+
+         // A <use> sizes the viewport of the symbol or <svg> it shows
+         if (copy.localName === 'svg') {
+            for (const name of ['width', 'height']) {
+               copy.setAttribute(name, use.getAttribute(name) ?? copy.getAttribute(name) ?? '100%');
+            }
+            copy.removeAttribute('x');
+            copy.removeAttribute('y');
+         }
+
+         copy.removeAttribute('id');
+         for (const element of copy.querySelectorAll('[id]')) element.removeAttribute('id');
+
+         elementCount += copy.getElementsByTagName('*').length + 1;
+         if (elementCount > MAX_ELEMENTS) {
+            throw new ConversionError('render-failed', 'The SVG image has too many elements to convert');
+         }
+
+         group.append(copy);
+         use.replaceWith(group);
+      }
+   }
+}
+
+/**
+ * Size the drawing is meant to be shown at, in px: its width and height, a
+ * missing one following the shape of the viewBox, or else the viewBox's size
+ */
+function drawingSize(root: SVGSVGElement): { width: number; height: number } {
+   const viewBox = root.hasAttribute('viewBox') ? root.viewBox.baseVal : null;
+   const ratio = viewBox && viewBox.width > 0 && viewBox.height > 0 ? viewBox.width / viewBox.height : null;
+
+   // Percentages are of the page the file would be shown in, which there is none of
+   const length = (name: 'width' | 'height') => {
+      const value = root[name].baseVal;
+      return root.hasAttribute(name) && value.unitType !== SVGLength.SVG_LENGTHTYPE_PERCENTAGE && value.value > 0 ? value.value : null;
+   };
+
+   const width = length('width');
+   const height = length('height');
+   if (width !== null && height !== null) return { width, height };
+   if (ratio === null) return { width: width ?? DEFAULT_WIDTH, height: height ?? DEFAULT_HEIGHT };
+   if (width !== null) return { width, height: width / ratio };
+   if (height !== null) return { width: height * ratio, height };
+   return { width: viewBox!.width, height: viewBox!.height };
+}
+
+/**
+ * Parse SVG markup into its cleaned root element
+ */
+function parseSvg(markup: string): SVGSVGElement {
+   const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+   if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new ConversionError('invalid-svg', 'Invalid SVG file: the markup is not well-formed');
+   }
+
+   const root = doc.documentElement;
+   if (!(root instanceof SVGSVGElement)) {
+      throw new ConversionError('invalid-svg', 'Invalid SVG file: the root element is not an <svg> in the SVG namespace');
+   }
+   if (root.getElementsByTagName('*').length > MAX_ELEMENTS) {
+      throw new ConversionError('render-failed', 'The SVG image has too many elements to convert');
+   }
+
+   sanitizeSvg(root);
+   expandUses(root);
+   return root;
+}
+
+/**
+ * Render SVG markup into a page of vector paths and text, the drawing scaled
+ * to fill the area inside the margins. The markup is cleaned of scripts and
+ * external references, then laid out off screen, in a shadow root so that its
+ * styles and the app's stay apart, for the browser to resolve styles, transforms and text positions.
+ */
+export async function renderSvgPages(markup: string, options: ConversionOptions, signal?: AbortSignal): Promise<PdfPage[]> {
+   throwIfAborted(signal);
+   const root = parseSvg(markup);
+
+   const host = document.createElement('div');
+   host.style.cssText = 'all: initial; position: fixed; left: 0; top: 0; opacity: 0; pointer-events: none;';
+   const shadow = host.attachShadow({ mode: 'closed' });
+
+   // Show the drawing as it first appears, without animation
+   const still = document.createElementNS(SVG_NS, 'style');
+   still.textContent = '* { animation: none !important; transition: none !important; }';
+   root.prepend(still);
+   shadow.append(root);
+   document.body.appendChild(host);
+
+   try {
+      const size = drawingSize(root);
+      root.style.setProperty('width', `${size.width}px`, 'important');
+      root.style.setProperty('height', `${size.height}px`, 'important');
+      root.style.setProperty('display', 'block', 'important');
+
+      const ratio = size.width / size.height;
+      const pageBox = options.pageSize === 'fit' ? fitPageBox(ratio, options) : pageBoxFor(options, ratio > 1);
+      const areaWidth = contentWidth(pageBox);
+      const areaHeight = contentHeight(pageBox);
+
+      // As large as fits inside the margins, centered
+      const scale = Math.min(areaWidth / size.width, areaHeight / size.height);
+      const left = pageBox.margin.left + (areaWidth - size.width * scale) / 2;
+      const top = pageBox.margin.top + (areaHeight - size.height * scale) / 2;
+
+      const box = root.getBoundingClientRect();
+      const viewBox = root.hasAttribute('viewBox') ? root.viewBox.baseVal : null;
+      const drawing: Drawing = {
+         items: [],
+         toMm: new DOMMatrix().scale(scale).translate(-box.left, -box.top),
+         scale,
+         viewport: viewBox && viewBox.width > 0 && viewBox.height > 0 ? { width: viewBox.width, height: viewBox.height } : size,
+         lookup: id => shadow.getElementById(id),
+         signal,
+      };
+      collectElement(root, drawing, { opacity: 1, matrix: null });
+
+      return [{
+         width: pageBox.width,
+         height: pageBox.height,
+         items: drawing.items.map(item => ({ ...item, x: item.x + left, y: item.y + top })),
+         mirrorOffset: mirrorOffset(pageBox, options),
+      }];
+   } finally {
+      host.remove();
+   }
+}
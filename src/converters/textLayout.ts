@@ -0,0 +1,136 @@
+import { jsPDF } from 'jspdf';
+import type { ConversionOptions } from '../types';
+import type { PageItem, PdfPage } from './pdfAssembler';
+import { CJK_CHARS, loadFallbackFonts, measureSpans, needsFallbackFonts, registerFont, splitByFont } from './fonts';
+import { contentHeight, mirrorOffset, pageBoxFor } from './pageGeometry';
+
+// Font settings
+const FONT = 'courier';
+const FONT_SIZE = 12;
+const LINE_HEIGHT = 6; // mm
+
+// Lines may break after spaces and on either side of a CJK character
+const WRAP_TOKEN = new RegExp(`[${CJK_CHARS}]\\s*|[^\\s${CJK_CHARS}]+\\s*|\\s+`, 'g');
+
+/**
+ * Wrap text to a width, measuring each piece in the fonts it will be drawn with
+ */
+function wrapText(pdf: jsPDF, text: string, font: string, maxWidth: number): string[] {
+   const measure = (piece: string) => measureSpans(pdf, splitByFont(pdf, piece, font, 'normal'), FONT_SIZE);
+   const lines: string[] = [];
+
+   for (const paragraph of text.split(/\r?\n/)) {
+      let line = '';
+      let lineWidth = 0;
+
+      for (const token of paragraph.match(WRAP_TOKEN) ?? []) {
+         // Trailing spaces may hang past the edge
+         if (line && lineWidth + measure(token.trimEnd()) > maxWidth) {
+            lines.push(line.trimEnd());
+            line = '';
+            lineWidth = 0;
+         }
+
+         const tokenWidth = measure(token);
+         if (tokenWidth <= maxWidth) {
+            line += token;
+            lineWidth += tokenWidth;
+            continue;
+         }
+
+         // A word wider than the line is broken between characters
+         for (const char of token) {
+            const charWidth = measure(char);
+            if (line && lineWidth + charWidth > maxWidth) {
+               lines.push(line);
+               line = '';
+               lineWidth = 0;
+            }
+            line += char;
+            lineWidth += charWidth;
+         }
+      }
+
+      lines.push(line.trimEnd());
+   }
+
+   return lines;
+}
+
+/**
+ * Lay out plain text into PDF pages, optionally preceded by a bold header line.
+ * Text is set in the uploaded font if there is one, or in Courier; characters
+ * the font lacks come from the bundled fallback fonts.
+ */
+export async function layoutTextPages(
+   text: string,
+   options: ConversionOptions,
+   header?: string
+): Promise<PdfPage[]> {
+   const pageBox = pageBoxFor(options);
+   const { margin } = pageBox;
+   const contentWidth = pageBox.width - margin.left - margin.right;
+   const linesPerPage = Math.max(1, Math.floor(contentHeight(pageBox) / LINE_HEIGHT));
+   const font = options.customFont?.name ?? FONT;
+
+   // Measure with the same fonts the assembler will draw with
+   const measure = new jsPDF({ unit: 'mm' });
+   if (options.customFont) registerFont(measure, options.customFont);
+   for (const fallback of await loadFallbackFonts(text)) {
+      registerFont(measure, fallback);
+   }
+   measure.setFont(FONT, 'normal');
+   measure.setFontSize(FONT_SIZE);
+
+   // Split text into lines that fit within content width
+   const lines: string[] = font === FONT && !needsFallbackFonts(text)
+      ? measure.splitTextToSize(text, contentWidth)
+      : wrapText(measure, text, font, contentWidth);
+
+   const pages: PdfPage[] = [];
+   let index = 0;
+
+   do {
+      const items: PageItem[] = [];
+      let capacity = linesPerPage;
+      let y = margin.top;
+
+      // Add filename as header on the first page
+      if (header !== undefined && pages.length === 0) {
+         items.push({
+            kind: 'text',
+            lines: [header],
+            x: margin.left,
+            y,
+            width: contentWidth,
+            lineHeight: LINE_HEIGHT,
+            font,
+            fontStyle: 'bold',
+            fontSize: FONT_SIZE,
+         });
+         y += LINE_HEIGHT * 2;
+         capacity = Math.max(0, capacity - 2);
+      }
+
+      const pageLines = lines.slice(index, index + capacity);
+      index += pageLines.length;
+
+      if (pageLines.length > 0) {
+         items.push({
+            kind: 'text',
+            lines: pageLines,
+            x: margin.left,
+            y,
+            width: contentWidth,
+            lineHeight: LINE_HEIGHT,
+            font,
+            fontStyle: 'normal',
+            fontSize: FONT_SIZE,
+         });
+      }
+
+      pages.push({ width: pageBox.width, height: pageBox.height, items, mirrorOffset: mirrorOffset(pageBox, options) });
+   } while (index < lines.length);
+
+   return pages;
+}
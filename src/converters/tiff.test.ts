@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { decodeLzw, decodePackBits, isTiff, readTiffPages } from './tiff';
+
+/**
+ * Compress with TIFF's LZW the way libtiff does: most significant bit first,
+ * widening codes one code early and clearing the table when it is full
+ */
+function encodeLzw(data: Uint8Array): Uint8Array {
+   const CLEAR = 256;
+   const END = 257;
+   const bytes: number[] = [];
+   let buffer = 0;
+   let bufferBits = 0;
+   let width = 9;
+
+   const emit = (code: number) => {
+      buffer = (buffer << width) | code;
+      bufferBits += width;
+      while (bufferBits >= 8) {
+         bytes.push((buffer >> (bufferBits - 8)) & 0xff);
+         bufferBits -= 8;
+      }
+      buffer &= (1 << bufferBits) - 1;
+   };
+
+   let table = new Map<number, number>();
+   let next = 258;
+   const added = () => {
+      if (next === 4094) {
+         emit(CLEAR);
+         table = new Map();
+         next = 258;
+         width = 9;
+      } else if (next > (1 << width) - 1) {
+         width++;
+      }
+   };
+
+   emit(CLEAR);
+   let current = data[0];
+   for (let i = 1; i < data.length; i++) {
+      const key = current * 256 + data[i];
+      const code = table.get(key);
+      if (code !== undefined) {
+         current = code;
+         continue;
+      }
+
+      emit(current);
+      table.set(key, next++);
+      added();
+      current = data[i];
+   }
+   emit(current);
+   next++;
+   added();
+   emit(END);
+
+   if (bufferBits > 0) bytes.push((buffer << (8 - bufferBits)) & 0xff);
+   return new Uint8Array(bytes);
+}
+
+/**
+ * Bytes with repeats, so that LZW builds up long strings
+ */
+function sampleData(length: number): Uint8Array {
+   const data = new Uint8Array(length);
+   let seed = 7;
+   for (let i = 0; i < length; i++) {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      data[i] = i % 97 < 40 ? 65 : (seed >> 16) % 16;
+   }
+   return data;
+}
+
+describe('decodeLzw', () => {
+   it('decodes a short string, including a code defined by itself', () => {
+      const data = new TextEncoder().encode('ABABABABAAAAAAAB');
+      expect(decodeLzw(encodeLzw(data), data.length)).toEqual(data);
+   });
+
+   it('follows the code width as it grows to 12 bits', () => {
+      const data = sampleData(6000);
+      expect(decodeLzw(encodeLzw(data), data.length)).toEqual(data);
+   });
+
+   it('starts over after a clear code when the table fills', () => {
+      const data = sampleData(60000);
+      expect(decodeLzw(encodeLzw(data), data.length)).toEqual(data);
+   });
+
+   it('stops at the expected size', () => {
+      const data = sampleData(500);
+      expect(decodeLzw(encodeLzw(data), 100)).toEqual(data.subarray(0, 100));
+   });
+});
+
+describe('decodePackBits', () => {
+   it('expands literal and repeated runs', () => {
+      // The example from the TIFF 6.0 specification
+      const packed = new Uint8Array([0xfe, 0xaa, 0x02, 0x80, 0x00, 0x2a, 0xfd, 0xaa, 0x03, 0x80, 0x00, 0x2a, 0x22, 0xf7, 0xaa]);
+      expect([...decodePackBits(packed, 24)]).toEqual([
+         0xaa, 0xaa, 0xaa, 0x80, 0x00, 0x2a, 0xaa, 0xaa, 0xaa, 0xaa, 0x80, 0x00,
+         0x2a, 0x22, 0xaa, 0xaa, 0xaa, 0xaa, 0xaa, 0xaa, 0xaa, 0xaa, 0xaa, 0xaa,
+      ]);
+   });
+
+   it('skips the no-op header and clips runs at the expected size', () => {
+      expect([...decodePackBits(new Uint8Array([0x80, 0xfd, 0x11, 0x01, 0x22, 0x33]), 5)]).toEqual([0x11, 0x11, 0x11, 0x11, 0x22]);
+   });
+});
+
+describe('readTiffPages', () => {
+   /**
+    * A big-endian TIFF whose directories hold only width, height and subfile type
+    */
+   function tiffWithPages(pages: { width: number; height: number; subfileType?: number }[]): ArrayBuffer {
+      const directorySize = 2 + 3 * 12 + 4;
+      const view = new DataView(new ArrayBuffer(8 + pages.length * directorySize));
+      view.setUint16(0, 0x4d4d);
+      view.setUint16(2, 42);
+      view.setUint32(4, 8);
+
+      pages.forEach((page, index) => {
+         const at = 8 + index * directorySize;
+         view.setUint16(at, 3);
+         [[254, 4, page.subfileType ?? 0], [256, 4, page.width], [257, 4, page.height]].forEach(([tag, type, value], i) => {
+            const entry = at + 2 + i * 12;
+            view.setUint16(entry, tag);
+            view.setUint16(entry + 2, type);
+            view.setUint32(entry + 4, 1);
+            view.setUint32(entry + 8, value);
+         });
+         view.setUint32(at + directorySize - 4, index + 1 < pages.length ? at + directorySize : 0);
+      });
+
+      return view.buffer;
+   }
+
+   it('recognises TIFF headers', () => {
+      expect(isTiff(new Uint8Array([0x49, 0x49, 42, 0]))).toBe(true);
+      expect(isTiff(new Uint8Array([0x4d, 0x4d, 0, 42]))).toBe(true);
+      expect(isTiff(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe(false);
+   });
+
+   it('lists every page, skipping reduced-resolution copies', () => {
+      const pages = readTiffPages(tiffWithPages([
+         { width: 100, height: 50 },
+         { width: 25, height: 12, subfileType: 1 },
+         { width: 80, height: 60 },
+      ]));
+      expect(pages.map(page => [page.width, page.height])).toEqual([[100, 50], [80, 60]]);
+      expect(pages[0].littleEndian).toBe(false);
+   });
+
+   it('rejects a TIFF without images', () => {
+      expect(() => readTiffPages(tiffWithPages([{ width: 0, height: 0 }]))).toThrow('no images');
+   });
+});
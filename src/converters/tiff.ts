@@ -0,0 +1,637 @@
+import {
+   ConversionError,
+   createCanvas,
+   getContext2d,
+   canvasToPng,
+   releaseCanvas,
+   readAsDataURL,
+   swapsDimensions,
+   applyOrientation,
+   type AnyCanvas,
+} from '../utils';
+import { decodeCcitt } from './ccitt';
+
+/**
+ * TIFF decoding: every page of a (multi-page) TIFF, drawn onto a canvas.
+ * Supports strips and tiles; no compression, LZW, PackBits, Deflate,
+ * CCITT fax and JPEG; and gray, palette, RGB and CMYK pixels.
+ */
+
+/**
+ * One page (image file directory) of a TIFF
+ */
+export interface TiffPage {
+   width: number;
+   height: number;
+   orientation: number; // as in EXIF, 1 when upright
+   bilevel: boolean; // black and white only, such as a fax or a scanned document
+   littleEndian: boolean;
+   tags: Map<number, number[]>;
+}
+
+const TAG = {
+   NEW_SUBFILE_TYPE: 254,
+   WIDTH: 256,
+   HEIGHT: 257,
+   BITS_PER_SAMPLE: 258,
+   COMPRESSION: 259,
+   PHOTOMETRIC: 262,
+   FILL_ORDER: 266,
+   STRIP_OFFSETS: 273,
+   ORIENTATION: 274,
+   SAMPLES_PER_PIXEL: 277,
+   ROWS_PER_STRIP: 278,
+   STRIP_BYTE_COUNTS: 279,
+   PLANAR_CONFIG: 284,
+   T4_OPTIONS: 292,
+   PREDICTOR: 317,
+   COLOR_MAP: 320,
+   TILE_WIDTH: 322,
+   TILE_LENGTH: 323,
+   TILE_OFFSETS: 324,
+   TILE_BYTE_COUNTS: 325,
+   EXTRA_SAMPLES: 338,
+   JPEG_TABLES: 347,
+} as const;
+
+const COMPRESSION = {
+   NONE: 1,
+   CCITT_RLE: 2,
+   CCITT_T4: 3,
+   CCITT_T6: 4,
+   LZW: 5,
+   OLD_JPEG: 6,
+   JPEG: 7,
+   DEFLATE: 8,
+   PACKBITS: 32773,
+   ADOBE_DEFLATE: 32946,
+} as const;
+
+const PHOTOMETRIC = {
+   WHITE_IS_ZERO: 0,
+   BLACK_IS_ZERO: 1,
+   RGB: 2,
+   PALETTE: 3,
+   CMYK: 5,
+} as const;
+
+const SUPPORTED_PHOTOMETRIC = new Set<number>(Object.values(PHOTOMETRIC));
+
+// Byte size of each field type
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8, 4];
+
+// NewSubfileType bits of directories that are not pages: reduced-resolution copies and transparency masks
+const REDUCED_IMAGE = 1;
+const MASK_IMAGE = 4;
+
+// Limits against damaged or hostile files
+const MAX_PAGES = 1000;
+const MAX_PIXELS = 100_000_000;
+
+// Long side of preview thumbnails in px
+const PREVIEW_SIZE = 96;
+
+/**
+ * Whether data starts with a TIFF header (classic or BigTIFF, either byte order)
+ */
+export function isTiff(bytes: Uint8Array): boolean {
+   return (bytes[0] === 0x49 && bytes[1] === 0x49 && (bytes[2] === 42 || bytes[2] === 43) && bytes[3] === 0)
+      || (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && (bytes[3] === 42 || bytes[3] === 43));
+}
+
+/**
+ * Read the values of one directory entry
+ */
+function readValues(view: DataView, type: number, count: number, offset: number, little: boolean): number[] {
+   const values: number[] = [];
+   for (let i = 0; i < count; i++) {
+      const at = offset + i * TYPE_SIZES[type];
+      switch (type) {
+         case 3:
+            values.push(view.getUint16(at, little));
+            break;
+         case 4:
+         case 13:
+            values.push(view.getUint32(at, little));
+            break;
+         case 5:
+            values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1));
+            break;
+         case 8:
+            values.push(view.getInt16(at, little));
+            break;
+         case 9:
+            values.push(view.getInt32(at, little));
+            break;
+         case 6:
+            values.push(view.getInt8(at));
+            break;
+         default:
+            values.push(view.getUint8(at));
+      }
+   }
+   return values;
+}
+
+/**
+ * Read the tags of the directory at an offset, and the offset of the next one (0 at the end)
+ */
+function readDirectory(view: DataView, offset: number, little: boolean): { tags: Map<number, number[]>; next: number } {
+   const tags = new Map<number, number[]>();
+   const count = view.getUint16(offset, little);
+
+   for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const type = view.getUint16(entry + 2, little);
+      const valueCount = view.getUint32(entry + 4, little);
+      const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+      // Unknown types and values past the end of the file are skipped
+      if (size === 0) continue;
+
+      const valueOffset = size > 4 ? view.getUint32(entry + 8, little) : entry + 8;
+      if (valueOffset + size > view.byteLength) continue;
+      tags.set(view.getUint16(entry, little), readValues(view, type, valueCount, valueOffset, little));
+   }
+
+   const nextAt = offset + 2 + count * 12;
+   return { tags, next: nextAt + 4 <= view.byteLength ? view.getUint32(nextAt, little) : 0 };
+}
+
+/**
+ * First value of a tag, or a default
+ */
+function tagValue(page: TiffPage, tag: number, fallback: number): number {
+   return page.tags.get(tag)?.[0] ?? fallback;
+}
+
+/**
+ * Read the pages of a TIFF file, skipping reduced-resolution copies and masks
+ */
+export function readTiffPages(data: ArrayBuffer): TiffPage[] {
+   const view = new DataView(data);
+   const bytes = new Uint8Array(data);
+   if (!isTiff(bytes)) {
+      throw new ConversionError('image-decode-failed', 'The file is not a TIFF image');
+   }
+
+   const little = bytes[0] === 0x49;
+   if (view.getUint16(2, little) === 43) {
+      throw new ConversionError('image-decode-failed', 'BigTIFF files are not supported');
+   }
+
+   const pages: TiffPage[] = [];
+   const visited = new Set<number>();
+   let offset = view.getUint32(4, little);
+
+   while (offset !== 0 && offset + 2 <= data.byteLength && !visited.has(offset)) {
+      if (pages.length >= MAX_PAGES) {
+         throw new ConversionError('image-decode-failed', `The TIFF has more than ${MAX_PAGES} pages`);
+      }
+
+      visited.add(offset);
+      const { tags, next } = readDirectory(view, offset, little);
+      offset = next;
+
+      const subfileType = tags.get(TAG.NEW_SUBFILE_TYPE)?.[0] ?? 0;
+      const width = tags.get(TAG.WIDTH)?.[0] ?? 0;
+      const height = tags.get(TAG.HEIGHT)?.[0] ?? 0;
+      if (subfileType & (REDUCED_IMAGE | MASK_IMAGE) || width <= 0 || height <= 0) continue;
+
+      const page: TiffPage = { width, height, orientation: 1, bilevel: false, littleEndian: little, tags };
+      const orientation = tagValue(page, TAG.ORIENTATION, 1);
+      page.orientation = orientation >= 1 && orientation <= 8 ? orientation : 1;
+      page.bilevel = tagValue(page, TAG.SAMPLES_PER_PIXEL, 1) === 1 && tagValue(page, TAG.BITS_PER_SAMPLE, 1) === 1
+         && tagValue(page, TAG.PHOTOMETRIC, PHOTOMETRIC.WHITE_IS_ZERO) !== PHOTOMETRIC.PALETTE;
+      pages.push(page);
+   }
+
+   if (pages.length === 0) {
+      throw new ConversionError('image-decode-failed', 'The TIFF contains no images');
+   }
+   return pages;
+}
+
+/**
+ * Decompress LZW data (TIFF variant: most significant bit first, code width
+ * growing one code early)
+ */
+export function decodeLzw(data: Uint8Array, expected: number): Uint8Array {
+   const CLEAR = 256;
+   const END = 257;
+   const output = new Uint8Array(expected);
+   const prefix = new Uint16Array(4096);
+   const suffix = new Uint8Array(4096);
+   const first = new Uint8Array(4096);
+   const lengths = new Uint16Array(4096);
+   for (let i = 0; i < 256; i++) {
+      suffix[i] = i;
+      first[i] = i;
+      lengths[i] = 1;
+   }
+
+   let written = 0;
+   let bitPosition = 0;
+   let codeWidth = 9;
+   let next = 258;
+   let previous = -1;
+   const totalBits = data.length * 8;
+
+   while (bitPosition + codeWidth <= totalBits && written < expected) {
+      // Read the next code, up to 12 bits spanning up to three bytes
+      const byte = bitPosition >> 3;
+      const window = (data[byte] << 16) | ((data[byte + 1] ?? 0) << 8) | (data[byte + 2] ?? 0);
+      const code = (window >> (24 - (bitPosition & 7) - codeWidth)) & ((1 << codeWidth) - 1);
+      bitPosition += codeWidth;
+
+      if (code === END) break;
+      if (code === CLEAR) {
+         codeWidth = 9;
+         next = 258;
+         previous = -1;
+         continue;
+      }
+
+      // Each code after the first defines the previous string plus the first byte of this one;
+      // a code may be the one it defines, whose first byte is then the previous string's
+      if (code > next || (code === next && (previous < 0 || next >= 4096))) break;
+      if (previous >= 0 && next < 4096) {
+         prefix[next] = previous;
+         suffix[next] = first[code === next ? previous : code];
+         first[next] = first[previous];
+         lengths[next] = lengths[previous] + 1;
+         next++;
+      }
+
+      // Write the string backwards from its last byte
+      const length = lengths[code];
+      let at = written + length - 1;
+      for (let c = code; at >= written; c = prefix[c], at--) {
+         if (at < expected) output[at] = suffix[c];
+      }
+      written += length;
+      previous = code;
+
+      if (next >= (1 << codeWidth) - 1 && codeWidth < 12) codeWidth++;
+   }
+
+   return output;
+}
+
+/**
+ * Decompress PackBits run-length data
+ */
+export function decodePackBits(data: Uint8Array, expected: number): Uint8Array {
+   const output = new Uint8Array(expected);
+   let written = 0;
+   let i = 0;
+
+   while (i < data.length && written < expected) {
+      const header = (data[i++] << 24) >> 24;
+      if (header >= 0) {
+         const literal = data.subarray(i, i + header + 1);
+         output.set(literal.subarray(0, expected - written), written);
+         written += literal.length;
+         i += header + 1;
+      } else if (header !== -128) {
+         const run = Math.min(1 - header, expected - written);
+         output.fill(data[i++], written, written + run);
+         written += run;
+      }
+   }
+
+   return output;
+}
+
+/**
+ * Decompress zlib (Deflate) data
+ */
+async function decodeDeflate(data: Uint8Array, expected: number): Promise<Uint8Array> {
+   const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+   const inflated = new Uint8Array(await new Response(stream).arrayBuffer());
+   const output = new Uint8Array(expected);
+   output.set(inflated.subarray(0, expected));
+   return output;
+}
+
+/**
+ * Reverse the bit order of every byte, for data stored least significant bit first
+ */
+function reverseBits(data: Uint8Array): Uint8Array {
+   const output = new Uint8Array(data.length);
+   for (let i = 0; i < data.length; i++) {
+      let byte = data[i];
+      byte = ((byte & 0xf0) >> 4) | ((byte & 0x0f) << 4);
+      byte = ((byte & 0xcc) >> 2) | ((byte & 0x33) << 2);
+      output[i] = ((byte & 0xaa) >> 1) | ((byte & 0x55) << 1);
+   }
+   return output;
+}
+
+/**
+ * A strip or tile of the image, and where it goes
+ */
+interface Chunk {
+   x: number;
+   y: number;
+   width: number;
+   rows: number;
+}
+
+/**
+ * Split a page into the strips or tiles its data is stored in, with their offsets and sizes per plane
+ */
+function pageChunks(page: TiffPage): { chunks: Chunk[]; offsets: number[]; byteCounts: number[] } {
+   const tileWidth = tagValue(page, TAG.TILE_WIDTH, 0);
+   const tileLength = tagValue(page, TAG.TILE_LENGTH, 0);
+   const chunks: Chunk[] = [];
+
+   if (tileWidth > 0 && tileLength > 0) {
+      for (let y = 0; y < page.height; y += tileLength) {
+         for (let x = 0; x < page.width; x += tileWidth) {
+            chunks.push({ x, y, width: tileWidth, rows: tileLength });
+         }
+      }
+      return {
+         chunks,
+         offsets: page.tags.get(TAG.TILE_OFFSETS) ?? [],
+         byteCounts: page.tags.get(TAG.TILE_BYTE_COUNTS) ?? [],
+      };
+   }
+
+   const rowsPerStrip = Math.min(tagValue(page, TAG.ROWS_PER_STRIP, page.height), page.height) || page.height;
+   for (let y = 0; y < page.height; y += rowsPerStrip) {
+      chunks.push({ x: 0, y, width: page.width, rows: Math.min(rowsPerStrip, page.height - y) });
+   }
+   return {
+      chunks,
+      offsets: page.tags.get(TAG.STRIP_OFFSETS) ?? [],
+      byteCounts: page.tags.get(TAG.STRIP_BYTE_COUNTS) ?? [],
+   };
+}
+
+/**
+ * Undo horizontal differencing (Predictor 2) in place
+ */
+function undoPredictor(raw: Uint8Array, chunk: Chunk, samples: number, bits: number, little: boolean): void {
+   if (bits === 8) {
+      const rowLength = chunk.width * samples;
+      for (let row = 0; row < chunk.rows; row++) {
+         const start = row * rowLength;
+         for (let i = start + samples; i < start + rowLength; i++) raw[i] = (raw[i] + raw[i - samples]) & 0xff;
+      }
+   } else if (bits === 16) {
+      const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+      const rowLength = chunk.width * samples * 2;
+      for (let row = 0; row < chunk.rows; row++) {
+         const start = row * rowLength;
+         for (let i = start + samples * 2; i + 1 < Math.min(start + rowLength, raw.length); i += 2) {
+            view.setUint16(i, (view.getUint16(i, little) + view.getUint16(i - samples * 2, little)) & 0xffff, little);
+         }
+      }
+   } else {
+      throw new ConversionError('image-decode-failed', `TIFF prediction is not supported at ${bits} bits per sample`);
+   }
+}
+
+/**
+ * Unpack the samples of a chunk's rows; rows of fewer than 8 bits per sample start on a byte
+ */
+function unpackSamples(raw: Uint8Array, chunk: Chunk, samples: number, bits: number, little: boolean): Uint16Array {
+   const perRow = chunk.width * samples;
+   const output = new Uint16Array(perRow * chunk.rows);
+
+   if (bits === 8) {
+      output.set(raw.subarray(0, output.length));
+   } else if (bits === 16) {
+      for (let i = 0; i < output.length && i * 2 + 1 < raw.length; i++) {
+         output[i] = little ? raw[i * 2] | (raw[i * 2 + 1] << 8) : (raw[i * 2] << 8) | raw[i * 2 + 1];
+      }
+   } else if (bits === 1 || bits === 2 || bits === 4) {
+      const rowBytes = Math.ceil((perRow * bits) / 8);
+      const mask = (1 << bits) - 1;
+      for (let row = 0; row < chunk.rows; row++) {
+         for (let i = 0; i < perRow; i++) {
+            const bit = i * bits;
+            const byte = raw[row * rowBytes + (bit >> 3)] ?? 0;
+            output[row * perRow + i] = (byte >> (8 - bits - (bit & 7))) & mask;
+         }
+      }
+   } else {
+      throw new ConversionError('image-decode-failed', `TIFF images with ${bits} bits per sample are not supported`);
+   }
+
+   return output;
+}
+
+/**
+ * Turn a chunk's samples into RGBA pixels
+ */
+function samplesToPixels(
+   values: Uint16Array,
+   chunk: Chunk,
+   page: TiffPage,
+   photometric: number,
+   samples: number,
+   bits: number
+): ImageData {
+   const pixels = new ImageData(chunk.width, chunk.rows);
+   const rgba = pixels.data;
+   const max = (1 << bits) - 1;
+   const scale = (value: number) => Math.round((value * 255) / max);
+   const colorMap = page.tags.get(TAG.COLOR_MAP);
+   const extra = page.tags.get(TAG.EXTRA_SAMPLES) ?? [];
+   const colors = photometric === PHOTOMETRIC.RGB ? 3 : photometric === PHOTOMETRIC.CMYK ? 4 : 1;
+   // An extra sample after the color ones is alpha when marked as such
+   const alphaType = samples > colors ? extra[0] : 0;
+   const hasAlpha = alphaType === 1 || alphaType === 2;
+
+   for (let p = 0, v = 0; p < rgba.length; p += 4, v += samples) {
+      switch (photometric) {
+         case PHOTOMETRIC.WHITE_IS_ZERO:
+            rgba[p] = rgba[p + 1] = rgba[p + 2] = 255 - scale(values[v]);
+            break;
+         case PHOTOMETRIC.BLACK_IS_ZERO:
+            rgba[p] = rgba[p + 1] = rgba[p + 2] = scale(values[v]);
+            break;
+         case PHOTOMETRIC.RGB:
+            rgba[p] = scale(values[v]);
+            rgba[p + 1] = scale(values[v + 1]);
+            rgba[p + 2] = scale(values[v + 2]);
+            break;
+         case PHOTOMETRIC.PALETTE: {
+            // The color map holds all reds, then greens, then blues, at 16 bits
+            const entries = max + 1;
+            const index = values[v];
+            rgba[p] = (colorMap?.[index] ?? 0) >> 8;
+            rgba[p + 1] = (colorMap?.[entries + index] ?? 0) >> 8;
+            rgba[p + 2] = (colorMap?.[entries * 2 + index] ?? 0) >> 8;
+            break;
+         }
+         case PHOTOMETRIC.CMYK: {
+            const k = 255 - scale(values[v + 3]);
+            rgba[p] = ((255 - scale(values[v])) * k) / 255;
+            rgba[p + 1] = ((255 - scale(values[v + 1])) * k) / 255;
+            rgba[p + 2] = ((255 - scale(values[v + 2])) * k) / 255;
+            break;
+         }
+      }
+
+      const alpha = hasAlpha ? scale(values[v + colors]) : 255;
+      rgba[p + 3] = alpha;
+      // Associated alpha is premultiplied into the colors
+      if (alphaType === 1 && alpha > 0 && alpha < 255) {
+         for (let c = 0; c < 3; c++) rgba[p + c] = Math.min(255, (rgba[p + c] * 255) / alpha);
+      }
+   }
+
+   return pixels;
+}
+
+/**
+ * Join a JPEG-compressed chunk with the tables shared by all chunks into a
+ * complete JPEG. RGB data is marked as such so that decoders do not treat it as YCbCr.
+ */
+function completeJpeg(chunk: Uint8Array, tables: number[] | undefined, rgb: boolean): Uint8Array {
+   const parts: Uint8Array[] = [chunk.subarray(0, 2)];
+   if (rgb) {
+      // Adobe APP14 segment with color transform 0 (none)
+      parts.push(Uint8Array.of(0xff, 0xee, 0x00, 0x0e, 0x41, 0x64, 0x6f, 0x62, 0x65, 0x00, 0x64, 0, 0, 0, 0, 0));
+   }
+   // The tables are a JPEG of their own; leave out its start and end markers
+   if (tables && tables.length > 4) parts.push(Uint8Array.from(tables.slice(2, -2)));
+   parts.push(chunk.subarray(2));
+
+   const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+   let at = 0;
+   for (const part of parts) {
+      output.set(part, at);
+      at += part.length;
+   }
+   return output;
+}
+
+/**
+ * Decode one TIFF page onto a canvas of its stored size (not yet turned by its orientation).
+ * Transparent areas are left transparent.
+ */
+export async function decodeTiffPage(data: ArrayBuffer, page: TiffPage): Promise<AnyCanvas> {
+   const compression = tagValue(page, TAG.COMPRESSION, COMPRESSION.NONE);
+   const samples = tagValue(page, TAG.SAMPLES_PER_PIXEL, 1);
+   const bits = tagValue(page, TAG.BITS_PER_SAMPLE, 1);
+   const planar = tagValue(page, TAG.PLANAR_CONFIG, 1) === 2 && samples > 1;
+   const predictor = tagValue(page, TAG.PREDICTOR, 1);
+   const fillReversed = tagValue(page, TAG.FILL_ORDER, 1) === 2;
+   const little = page.littleEndian;
+   const fax = compression === COMPRESSION.CCITT_RLE || compression === COMPRESSION.CCITT_T4 || compression === COMPRESSION.CCITT_T6;
+
+   // Fax data always codes black as 1
+   const photometric = fax
+      ? PHOTOMETRIC.WHITE_IS_ZERO
+      : tagValue(page, TAG.PHOTOMETRIC, samples >= 3 ? PHOTOMETRIC.RGB : bits === 1 ? PHOTOMETRIC.WHITE_IS_ZERO : PHOTOMETRIC.BLACK_IS_ZERO);
+
+   if (compression === COMPRESSION.OLD_JPEG) {
+      throw new ConversionError('image-decode-failed', 'TIFF files with old-style JPEG compression are not supported');
+   }
+   if (compression !== COMPRESSION.JPEG && !SUPPORTED_PHOTOMETRIC.has(photometric)) {
+      throw new ConversionError('image-decode-failed', 'The TIFF uses a color space that is not supported');
+   }
+   if (page.width * page.height > MAX_PIXELS) {
+      throw new ConversionError('image-decode-failed', 'The TIFF page is too large to convert');
+   }
+
+   const { chunks, offsets, byteCounts } = pageChunks(page);
+   const planes = planar ? samples : 1;
+   const canvas = createCanvas(page.width, page.height);
+   const ctx = getContext2d(canvas);
+
+   // Compressed bytes of a chunk in one plane, bit order corrected
+   const chunkData = (index: number): Uint8Array => {
+      const offset = offsets[index] ?? 0;
+      const length = byteCounts[index] ?? data.byteLength - offset;
+      const bytes = new Uint8Array(data, Math.min(offset, data.byteLength), Math.max(0, Math.min(length, data.byteLength - offset)));
+      return fillReversed ? reverseBits(bytes) : bytes;
+   };
+
+   // Decompressed bytes of a chunk in one plane
+   const decompress = async (bytes: Uint8Array, chunk: Chunk, planeSamples: number): Promise<Uint8Array> => {
+      const expected = Math.ceil((chunk.width * planeSamples * bits) / 8) * chunk.rows;
+      switch (compression) {
+         case COMPRESSION.NONE: {
+            const output = new Uint8Array(expected);
+            output.set(bytes.subarray(0, expected));
+            return output;
+         }
+         case COMPRESSION.LZW:
+            return decodeLzw(bytes, expected);
+         case COMPRESSION.PACKBITS:
+            return decodePackBits(bytes, expected);
+         case COMPRESSION.DEFLATE:
+         case COMPRESSION.ADOBE_DEFLATE:
+            return decodeDeflate(bytes, expected);
+         case COMPRESSION.CCITT_RLE:
+            return decodeCcitt(bytes, chunk.width, chunk.rows, 'mh');
+         case COMPRESSION.CCITT_T4:
+            return decodeCcitt(bytes, chunk.width, chunk.rows, tagValue(page, TAG.T4_OPTIONS, 0) & 1 ? 'g3-2d' : 'g3');
+         case COMPRESSION.CCITT_T6:
+            return decodeCcitt(bytes, chunk.width, chunk.rows, 'g4');
+         default:
+            throw new ConversionError('image-decode-failed', `TIFF compression ${compression} is not supported`);
+      }
+   };
+
+   for (const [index, chunk] of chunks.entries()) {
+      if (compression === COMPRESSION.JPEG) {
+         const jpeg = completeJpeg(chunkData(index), page.tags.get(TAG.JPEG_TABLES), photometric === PHOTOMETRIC.RGB);
+         const bitmap = await createImageBitmap(new Blob([jpeg], { type: 'image/jpeg' }));
+         ctx.drawImage(bitmap, chunk.x, chunk.y);
+         bitmap.close();
+         continue;
+      }
+
+      // Each plane holds one sample of every pixel; interleave them
+      let values: Uint16Array | null = null;
+      for (let plane = 0; plane < planes; plane++) {
+         const planeSamples = planar ? 1 : samples;
+         const raw = await decompress(chunkData(index + plane * chunks.length), chunk, planeSamples);
+         if (predictor === 2) undoPredictor(raw, chunk, planeSamples, bits, little);
+         const planeValues = unpackSamples(raw, chunk, planeSamples, bits, little);
+
+         if (!planar) {
+            values = planeValues;
+         } else {
+            values ??= new Uint16Array(planeValues.length * samples);
+            for (let i = 0; i < planeValues.length; i++) values[i * samples + plane] = planeValues[i];
+         }
+      }
+
+      if (values) ctx.putImageData(samplesToPixels(values, chunk, page, photometric, samples, bits), chunk.x, chunk.y);
+   }
+
+   return canvas;
+}
+
+/**
+ * Thumbnail of the first page of a TIFF as a PNG data URL, since most browsers cannot show TIFF themselves
+ */
+export async function tiffPreview(file: Blob): Promise<string> {
+   const data = await file.arrayBuffer();
+   const [page] = readTiffPages(data);
+   const source = await decodeTiffPage(data, page);
+
+   const scale = Math.min(1, PREVIEW_SIZE / Math.max(page.width, page.height));
+   const stored = { width: Math.max(1, Math.round(page.width * scale)), height: Math.max(1, Math.round(page.height * scale)) };
+   const turned = swapsDimensions(page.orientation) ? { width: stored.height, height: stored.width } : stored;
+   const canvas = createCanvas(turned.width, turned.height);
+
+   try {
+      const ctx = getContext2d(canvas);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, turned.width, turned.height);
+      applyOrientation(ctx, page.orientation, stored.width, stored.height);
+      ctx.drawImage(source, 0, 0, stored.width, stored.height);
+      return await readAsDataURL(new File([await canvasToPng(canvas)], 'preview.png', { type: 'image/png' }));
+   } finally {
+      releaseCanvas(canvas);
+      releaseCanvas(source);
+   }
+}
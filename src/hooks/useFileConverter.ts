@@ -1,20 +1,55 @@
-import { useState, useCallback } from 'react';
-import type { ConvertibleFile, ConversionOptions, ConversionResult, FileType } from '../types';
-import { validateFiles, detectFileType, generateId, readAsDataURL, isImageFile } from '../utils';
-import { imagesToPdf, textToPdf, textsToSinglePdf, htmlToPdf, htmlsToSinglePdf, docxToPdf, docxsToSinglePdf } from '../converters';
+import { useState, useCallback, useRef } from 'react';
+import type { ConvertibleFile, ConversionOptions, ConversionResult, FileUpdate, SortKey } from '../types';
+import {
+   validateFiles,
+   detectFileType,
+   generateId,
+   readExif,
+   type ExifData,
+   detectFileEncoding,
+   isImageFile,
+   isTextFile,
+   isAbortError,
+   sortFiles as sortQueue,
+   moveItem,
+   downloadBlob,
+   createZip,
+} from '../utils';
+import { convertToSinglePdf, convertToSeparatePdfs, readFontFile, imagePreview } from '../converters';
 
 export interface FileConverterState {
    files: ConvertibleFile[];
    isConverting: boolean;
    overallProgress: number;
-   result: ConversionResult | null;
+   result: ConversionResult | null; // single combined PDF
+   results: ConversionResult[] | null; // one PDF per file
+   archive: Blob | null; // ZIP of the per-file results
    error: string | null;
 }
 
+const ARCHIVE_FILENAME = 'converted-pdfs.zip';
+
 const defaultOptions: ConversionOptions = {
    pageSize: 'A4',
+   orientation: 'portrait',
+   customSize: { width: 210, height: 297, unit: 'mm' },
    quality: 0.9,
-   margin: 10,
+   margins: { top: 10, right: 10, bottom: 10, left: 10 },
+   gutter: 0,
+   mirrorMargins: false,
+   imageLayout: 'single',
+   imageGrid: { rows: 2, columns: 3 },
+   imageGutter: 5,
+   imageCaptions: false,
+   animationFrames: false,
+   photoMetadata: 'strip',
+   skipFailed: false,
+   outputMode: 'single',
+   renderMode: 'raster',
+   codeTheme: 'light',
+   revisions: 'accept',
+   comments: 'hide',
+   lineNumbers: true,
 };
 
 export function useFileConverter() {
@@ -23,10 +58,13 @@ export function useFileConverter() {
       isConverting: false,
       overallProgress: 0,
       result: null,
+      results: null,
+      archive: null,
       error: null,
    });
 
    const [options, setOptions] = useState<ConversionOptions>(defaultOptions);
+   const abortRef = useRef<AbortController | null>(null);
 
    /**
     * Add files to the conversion queue
@@ -46,15 +84,30 @@ export function useFileConverter() {
          newFiles.map(async (file) => {
             const type = detectFileType(file);
             let preview: string | null = null;
+            let exif: ExifData | null = null;
+            let detectedEncoding: string | undefined;
 
-            // Generate preview for images
-            if (isImageFile(type)) {
+            // Generate preview and read photo metadata for images. SVG previews are
+            // shown as <img>, which runs no scripts and loads nothing external.
+            if (isImageFile(type) || type === 'svg') {
                try {
-                  preview = await readAsDataURL(file);
+                  preview = await imagePreview(file);
                } catch {
                   // Preview failed, continue without it
                }
             }
+            if (isImageFile(type)) {
+               exif = await readExif(file);
+            }
+
+            // Detect the character encoding of text files, so it can be shown and overridden
+            if (isTextFile(type)) {
+               try {
+                  detectedEncoding = await detectFileEncoding(file);
+               } catch {
+                  // Detection failed; the encoding is detected again when converting
+               }
+            }
 
             return {
                id: generateId(),
@@ -63,6 +116,10 @@ export function useFileConverter() {
                preview,
                status: 'pending',
                progress: 0,
+               captureDate: exif?.captureDate?.getTime(),
+               camera: exif?.camera,
+               location: exif?.location,
+               detectedEncoding,
             };
          })
       );
@@ -72,6 +129,8 @@ export function useFileConverter() {
          files: [...prev.files, ...convertibleFiles],
          error: null,
          result: null,
+         results: null,
+         archive: null,
       }));
    }, []);
 
@@ -85,6 +144,52 @@ export function useFileConverter() {
       }));
    }, []);
 
+   /**
+    * Move a file to a new position in the queue (page order follows the queue)
+    */
+   const moveFile = useCallback((id: string, toIndex: number) => {
+      setState(prev => {
+         const fromIndex = prev.files.findIndex(f => f.id === id);
+         if (fromIndex === -1 || fromIndex === toIndex) return prev;
+         return { ...prev, files: moveItem(prev.files, fromIndex, toIndex) };
+      });
+   }, []);
+
+   /**
+    * Override the character encoding of a text file (undefined goes back to the detected one)
+    */
+   const setFileEncoding = useCallback((id: string, encoding: string | undefined) => {
+      setState(prev => ({
+         ...prev,
+         files: prev.files.map(f => (f.id === id ? { ...f, encoding } : f)),
+      }));
+   }, []);
+
+   /**
+    * Use an uploaded TTF/OTF font for plain text (null goes back to Courier)
+    */
+   const setCustomFont = useCallback(async (file: File | null) => {
+      if (!file) {
+         setOptions(prev => ({ ...prev, customFont: undefined }));
+         return;
+      }
+
+      try {
+         const customFont = await readFontFile(file);
+         setOptions(prev => ({ ...prev, customFont }));
+         setState(prev => ({ ...prev, error: null }));
+      } catch (error) {
+         setState(prev => ({ ...prev, error: error instanceof Error ? error.message : 'The font could not be read' }));
+      }
+   }, []);
+
+   /**
+    * Sort the queue by name, date or size
+    */
+   const sortFiles = useCallback((key: SortKey) => {
+      setState(prev => ({ ...prev, files: sortQueue(prev.files, key) }));
+   }, []);
+
    /**
     * Clear all files
     */
@@ -93,6 +198,8 @@ export function useFileConverter() {
          ...prev,
          files: [],
          result: null,
+         results: null,
+         archive: null,
          error: null,
       }));
    }, []);
@@ -106,129 +213,121 @@ export function useFileConverter() {
          return;
       }
 
+      const controller = new AbortController();
+      abortRef.current = controller;
+
       setState(prev => ({
          ...prev,
          isConverting: true,
          overallProgress: 0,
          result: null,
+         results: null,
+         archive: null,
          error: null,
+         files: prev.files.map(f => ({ ...f, status: 'pending', progress: 0, error: undefined, errorCode: undefined })),
       }));
 
-      try {
-         // Group files by type
-         const imageFiles = state.files.filter(f => f.type === 'image').map(f => f.file);
-         const textFiles = state.files.filter(f => f.type === 'text').map(f => f.file);
-         const htmlFiles = state.files.filter(f => f.type === 'html' || f.type === 'markdown').map(f => f.file);
-         const docxFiles = state.files.filter(f => f.type === 'docx').map(f => f.file);
-
-         let result: ConversionResult;
-
-         // Determine which converter to use based on file types
-         const types = new Set(state.files.map(f => f.type));
-
-         if (types.size === 1) {
-            // Single file type - use appropriate converter
-            const type = types.values().next().value as FileType;
-
-            switch (type) {
-               case 'image':
-                  result = await imagesToPdf(imageFiles, options, p => {
-                     setState(prev => ({ ...prev, overallProgress: p }));
-                  });
-                  break;
-               case 'text':
-                  if (textFiles.length === 1) {
-                     result = await textToPdf(textFiles[0], options, p => {
-                        setState(prev => ({ ...prev, overallProgress: p }));
-                     });
-                  } else {
-                     result = await textsToSinglePdf(textFiles, options, p => {
-                        setState(prev => ({ ...prev, overallProgress: p }));
-                     });
-                  }
-                  break;
-               case 'html':
-               case 'markdown':
-                  if (htmlFiles.length === 1) {
-                     result = await htmlToPdf(htmlFiles[0], options, p => {
-                        setState(prev => ({ ...prev, overallProgress: p }));
-                     });
-                  } else {
-                     result = await htmlsToSinglePdf(htmlFiles, options, p => {
-                        setState(prev => ({ ...prev, overallProgress: p }));
-                     });
-                  }
-                  break;
-               case 'docx':
-                  if (docxFiles.length === 1) {
-                     result = await docxToPdf(docxFiles[0], options, p => {
-                        setState(prev => ({ ...prev, overallProgress: p }));
-                     });
-                  } else {
-                     result = await docxsToSinglePdf(docxFiles, options, p => {
-                        setState(prev => ({ ...prev, overallProgress: p }));
-                     });
-                  }
-                  break;
-               default:
-                  throw new Error('Unsupported file type');
-            }
-         } else {
-            // Mixed file types - convert images first (most common use case)
-            // For simplicity, prioritize by: images > text > html > docx
-            if (imageFiles.length > 0) {
-               result = await imagesToPdf(imageFiles, options, p => {
-                  setState(prev => ({ ...prev, overallProgress: p }));
-               });
-            } else if (textFiles.length > 0) {
-               result = await textsToSinglePdf(textFiles, options, p => {
-                  setState(prev => ({ ...prev, overallProgress: p }));
-               });
-            } else if (htmlFiles.length > 0) {
-               result = await htmlsToSinglePdf(htmlFiles, options, p => {
-                  setState(prev => ({ ...prev, overallProgress: p }));
-               });
-            } else {
-               result = await docxsToSinglePdf(docxFiles, options, p => {
-                  setState(prev => ({ ...prev, overallProgress: p }));
-               });
-            }
+      const onProgress = (p: number) => {
+         if (!controller.signal.aborted) {
+            setState(prev => ({ ...prev, overallProgress: p }));
          }
-
-         // Mark all files as done
+      };
+      const onFileUpdate = (id: string, update: FileUpdate) => {
          setState(prev => ({
             ...prev,
-            isConverting: false,
-            overallProgress: 100,
-            result,
-            files: prev.files.map(f => ({ ...f, status: 'done', progress: 100 })),
+            files: prev.files.map(f => (f.id === id ? { ...f, ...update } : f)),
          }));
+      };
+
+      try {
+         // Every file goes through its own converter, pages stay in queue order.
+         // Per-file statuses are reported by the pipeline.
+         if (options.outputMode === 'perFile') {
+            const results = await convertToSeparatePdfs(state.files, options, onProgress, controller.signal, onFileUpdate);
+            const archive = await createZip(results);
+
+            setState(prev => ({
+               ...prev,
+               isConverting: false,
+               overallProgress: 100,
+               results,
+               archive,
+            }));
+         } else {
+            const result = await convertToSinglePdf(state.files, options, onProgress, controller.signal, onFileUpdate);
+
+            setState(prev => ({
+               ...prev,
+               isConverting: false,
+               overallProgress: 100,
+               result,
+            }));
+         }
       } catch (error) {
+         if (isAbortError(error)) {
+            // Cancelled: put the queue back as it was
+            setState(prev => ({
+               ...prev,
+               isConverting: false,
+               overallProgress: 0,
+               files: prev.files.map(f => ({
+                  ...f,
+                  status: 'pending',
+                  progress: 0,
+                  stage: undefined,
+                  error: undefined,
+                  errorCode: undefined,
+               })),
+            }));
+            return;
+         }
+
+         // Only the files that failed keep their error; the rest return to the queue
          setState(prev => ({
             ...prev,
             isConverting: false,
             error: error instanceof Error ? error.message : 'Conversion failed',
-            files: prev.files.map(f => ({ ...f, status: 'error' })),
+            files: prev.files.map(f => (
+               f.status === 'error' ? f : { ...f, status: 'pending', progress: 0, stage: undefined }
+            )),
          }));
+      } finally {
+         if (abortRef.current === controller) {
+            abortRef.current = null;
+         }
       }
    }, [state.files, options]);
 
+   /**
+    * Cancel the conversion in progress
+    */
+   const cancel = useCallback(() => {
+      abortRef.current?.abort();
+   }, []);
+
    /**
     * Download the result PDF
     */
    const download = useCallback(() => {
       if (!state.result) return;
-
-      const url = URL.createObjectURL(state.result.blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = state.result.filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(state.result.blob, state.result.filename);
    }, [state.result]);
 
+   /**
+    * Download one PDF from the per-file results
+    */
+   const downloadResult = useCallback((result: ConversionResult) => {
+      downloadBlob(result.blob, result.filename);
+   }, []);
+
+   /**
+    * Download all per-file results as a ZIP
+    */
+   const downloadArchive = useCallback(() => {
+      if (!state.archive) return;
+      downloadBlob(state.archive, ARCHIVE_FILENAME);
+   }, [state.archive]);
+
    /**
     * Get auto-detected conversion suggestion
     */
@@ -239,6 +338,10 @@ export function useFileConverter() {
       const typeCount = types.size;
       const fileCount = state.files.length;
 
+      if (options.outputMode === 'perFile') {
+         return `Convert ${fileCount} file${fileCount > 1 ? 's' : ''} to separate PDFs (ZIP)`;
+      }
+
       if (typeCount === 1) {
          const type = types.values().next().value;
          if (type === 'image') {
@@ -248,7 +351,7 @@ export function useFileConverter() {
       }
 
       return `Convert ${fileCount} files (mixed types) to PDF`;
-   }, [state.files]);
+   }, [state.files, options.outputMode]);
 
    return {
       ...state,
@@ -256,9 +359,16 @@ export function useFileConverter() {
       setOptions,
       addFiles,
       removeFile,
+      moveFile,
+      setFileEncoding,
+      setCustomFont,
+      sortFiles,
       clearFiles,
       convert,
+      cancel,
       download,
+      downloadResult,
+      downloadArchive,
       getSuggestion,
    };
 }
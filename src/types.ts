@@ -1,9 +1,22 @@
 // Core type definitions for the file converter
 
-export type FileType = 'image' | 'text' | 'html' | 'markdown' | 'docx' | 'unknown';
+export type FileType = 'image' | 'svg' | 'text' | 'html' | 'markdown' | 'docx' | 'code' | 'unknown';
 
 export type ConversionStatus = 'pending' | 'converting' | 'done' | 'error';
 
+// What a file is currently doing while its status is 'converting'
+export type ConversionStage = 'reading' | 'decoding' | 'extracting' | 'layout' | 'rendering';
+
+// Machine-readable failure reasons, so the UI can suggest a targeted fix
+export type ConversionErrorCode =
+   | 'read-failed'
+   | 'image-decode-failed'
+   | 'corrupt-docx'
+   | 'invalid-svg'
+   | 'render-failed'
+   | 'unsupported-type'
+   | 'unknown';
+
 export interface ConvertibleFile {
    id: string;
    file: File;
@@ -11,21 +24,115 @@ export interface ConvertibleFile {
    preview: string | null;
    status: ConversionStatus;
    progress: number;
+   stage?: ConversionStage;
    error?: string;
+   errorCode?: ConversionErrorCode;
+   captureDate?: number; // EXIF capture time (ms) for photos
+   camera?: string; // EXIF camera make and model
+   location?: GeoLocation; // EXIF GPS position
+   detectedEncoding?: string; // character encoding found in text, HTML and Markdown files
+   encoding?: string; // user override of the detected encoding
+}
+
+export interface GeoLocation {
+   latitude: number; // degrees, north positive
+   longitude: number; // degrees, east positive
 }
 
+// One-click queue orderings
+export type SortKey = 'name' | 'modified' | 'captureDate' | 'size';
+
+// Per-file changes reported by the conversion pipeline
+export type FileUpdate = Partial<Pick<ConvertibleFile, 'status' | 'progress' | 'stage' | 'error' | 'errorCode'>>;
+
 export interface ConversionResult {
    blob: Blob;
    filename: string;
    pageCount: number;
+   skippedFiles?: string[]; // files left out because they failed to convert
+   replacedChars?: string[]; // characters (such as emoji) the PDF shows as U+FFFD
 }
 
 export interface ConversionOptions {
-   pageSize: 'A4' | 'letter' | 'fit';
+   pageSize: PaperSize;
+   orientation: Orientation;
+   customSize: CustomPageSize; // paper used when pageSize is 'custom'
    quality: number; // 0.1 to 1.0
-   margin: number; // in mm
+   margins: PageMargins; // in mm
+   gutter: number; // extra margin on the bound edge, in mm
+   mirrorMargins: boolean; // swap left and right margins on even pages, for double-sided printing
+   imageLayout: ImageLayout; // how many images share a page
+   imageGrid: ImageGrid; // grid used when imageLayout is 'custom'
+   imageGutter: number; // space between images on a shared page, in mm
+   imageCaptions: boolean; // print each image's filename under it
+   animationFrames: boolean; // every frame of an animated GIF or WebP becomes a page, not just the first
+   photoMetadata: PhotoMetadata; // EXIF data of JPEG photos in the PDF
+   skipFailed: boolean; // leave out files that fail instead of failing the batch
+   outputMode: OutputMode;
+   renderMode: RenderMode; // how HTML, Markdown and DOCX are drawn
+   codeTheme: CodeTheme; // colors for highlighted code blocks
+   revisions: RevisionMode; // tracked changes in DOCX files
+   comments: CommentMode; // review comments in DOCX files
+   lineNumbers: boolean; // number the lines of source code files
+   customFont?: EmbeddedFont; // uploaded font for plain text, in place of Courier
 }
 
+/**
+ * A TrueType font embedded into the PDF. Only the glyphs the text uses are written.
+ */
+export interface EmbeddedFont {
+   name: string; // name that page items refer to the font by
+   data: Uint8Array; // TTF bytes
+}
+
+// 'custom' uses the dimensions in customSize; 'fit' sizes each image's or SVG drawing's page to its shape (A4 for documents)
+export type PaperSize = 'A3' | 'A4' | 'A5' | 'B5' | 'letter' | 'legal' | 'tabloid' | 'custom' | 'fit';
+
+// 'auto' turns the page to match the content: images by their shape, source code by its longest line
+export type Orientation = 'portrait' | 'landscape' | 'auto';
+
+export interface CustomPageSize {
+   width: number;
+   height: number;
+   unit: 'mm' | 'in';
+}
+
+export interface PageMargins {
+   top: number;
+   right: number;
+   bottom: number;
+   left: number;
+}
+
+// 'single' gives each image its own page; the others share pages in a grid
+// ('2up' is two rows, '4up' 2×2, '9up' 3×3, 'custom' the rows and columns in imageGrid)
+export type ImageLayout = 'single' | '2up' | '4up' | '9up' | 'custom';
+
+export interface ImageGrid {
+   rows: number;
+   columns: number;
+}
+
+// Images are re-encoded, which drops their EXIF data: 'strip' leaves it out, 'keep' copies it
+// into the PDF without the GPS position, 'keepLocation' copies it all
+export type PhotoMetadata = 'strip' | 'keep' | 'keepLocation';
+
+// 'vector' emits real, selectable text; 'raster' embeds screenshots of the rendered page
+export type RenderMode = 'vector' | 'raster';
+
+// 'light' colors code like an editor; 'print' uses dark shades and font styles that survive greyscale printing
+export type CodeTheme = 'light' | 'print';
+
+// 'accept' shows the document with all tracked changes applied, 'reject' as it was before them,
+// 'markup' keeps both with insertions underlined and deletions struck through
+export type RevisionMode = 'accept' | 'reject' | 'markup';
+
+// 'margin' shows each comment beside the text it is on, 'endnotes' lists them after the document
+export type CommentMode = 'hide' | 'margin' | 'endnotes';
+
+// 'single' merges everything into one PDF, 'perFile' makes one PDF per input
+export type OutputMode = 'single' | 'perFile';
+
 export interface ValidationResult {
    valid: boolean;
    error?: string;
@@ -40,9 +147,24 @@ export const SUPPORTED_MIME_TYPES: Record<string, FileType> = {
    'image/gif': 'image',
    'image/tiff': 'image',
    'image/webp': 'image',
+   'image/heic': 'image',
+   'image/heif': 'image',
+   'image/avif': 'image',
+   'image/bmp': 'image',
+   'image/x-ms-bmp': 'image',
+   'image/x-icon': 'image',
+   'image/vnd.microsoft.icon': 'image',
+   'image/svg+xml': 'svg',
    'text/plain': 'text',
    'text/html': 'html',
    'text/markdown': 'markdown',
+   'text/javascript': 'code',
+   'application/javascript': 'code',
+   'application/json': 'code',
+   'application/sql': 'code',
+   'application/x-yaml': 'code',
+   'text/x-python': 'code',
+   'text/css': 'code',
    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
 };
 
@@ -55,12 +177,60 @@ export const EXTENSION_TO_TYPE: Record<string, FileType> = {
    '.tiff': 'image',
    '.tif': 'image',
    '.webp': 'image',
+   '.heic': 'image',
+   '.heif': 'image',
+   '.avif': 'image',
+   '.bmp': 'image',
+   '.ico': 'image',
+   '.svg': 'svg',
    '.txt': 'text',
    '.html': 'html',
    '.htm': 'html',
    '.md': 'markdown',
    '.markdown': 'markdown',
    '.docx': 'docx',
+   // Source code; the language is detected from the extension
+   '.js': 'code',
+   '.jsx': 'code',
+   '.mjs': 'code',
+   '.cjs': 'code',
+   '.ts': 'code',
+   '.tsx': 'code',
+   '.py': 'code',
+   '.json': 'code',
+   '.yaml': 'code',
+   '.yml': 'code',
+   '.sql': 'code',
+   '.sh': 'code',
+   '.bash': 'code',
+   '.c': 'code',
+   '.h': 'code',
+   '.cpp': 'code',
+   '.cc': 'code',
+   '.hpp': 'code',
+   '.cs': 'code',
+   '.css': 'code',
+   '.diff': 'code',
+   '.patch': 'code',
+   '.go': 'code',
+   '.ini': 'code',
+   '.toml': 'code',
+   '.java': 'code',
+   '.kt': 'code',
+   '.php': 'code',
+   '.rb': 'code',
+   '.rs': 'code',
+   '.swift': 'code',
+   '.xml': 'code',
+   '.dockerfile': 'code',
+};
+
+// Source files known by their whole (lower-case) name rather than an extension
+export const FILENAME_TO_TYPE: Record<string, FileType> = {
+   dockerfile: 'code',
+   containerfile: 'code',
+   makefile: 'code',
+   gnumakefile: 'code',
 };
 
 // Size limits
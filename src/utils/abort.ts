@@ -0,0 +1,51 @@
+/**
+ * Cancellation helpers built on AbortSignal
+ */
+
+/**
+ * Error thrown when a conversion is cancelled
+ */
+export function createAbortError(): DOMException {
+   return new DOMException('Conversion cancelled', 'AbortError');
+}
+
+/**
+ * Throw if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+   if (signal?.aborted) {
+      throw createAbortError();
+   }
+}
+
+/**
+ * Check whether an error came from cancellation
+ */
+export function isAbortError(error: unknown): boolean {
+   return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts.
+ * The underlying work keeps running; callers clean up its result themselves.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+   if (!signal) return promise;
+   throwIfAborted(signal);
+
+   return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(createAbortError());
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      promise.then(
+         value => {
+            signal.removeEventListener('abort', onAbort);
+            resolve(value);
+         },
+         error => {
+            signal.removeEventListener('abort', onAbort);
+            reject(error);
+         }
+      );
+   });
+}
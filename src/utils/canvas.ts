@@ -0,0 +1,65 @@
+/**
+ * Canvas helpers shared by the main thread and conversion workers
+ */
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * Create a canvas, preferring OffscreenCanvas (the only kind available in workers)
+ */
+export function createCanvas(width: number, height: number): AnyCanvas {
+   if (typeof OffscreenCanvas !== 'undefined') {
+      return new OffscreenCanvas(width, height);
+   }
+   const canvas = document.createElement('canvas');
+   canvas.width = width;
+   canvas.height = height;
+   return canvas;
+}
+
+/**
+ * Get a 2D context for either canvas kind
+ */
+export function getContext2d(canvas: AnyCanvas): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D {
+   const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+   if (!ctx) throw new Error('Failed to get canvas context');
+   return ctx;
+}
+
+/**
+ * Encode canvas contents in an image format
+ */
+async function encodeCanvas(canvas: AnyCanvas, type: string, quality?: number): Promise<Uint8Array> {
+   let blob: Blob | null;
+
+   if ('convertToBlob' in canvas) {
+      blob = await canvas.convertToBlob({ type, quality });
+   } else {
+      blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+   }
+
+   if (!blob) throw new Error('Failed to encode image');
+   return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Encode canvas contents as JPEG bytes
+ */
+export function canvasToJpeg(canvas: AnyCanvas, quality: number): Promise<Uint8Array> {
+   return encodeCanvas(canvas, 'image/jpeg', quality);
+}
+
+/**
+ * Encode canvas contents as PNG bytes, losslessly
+ */
+export function canvasToPng(canvas: AnyCanvas): Promise<Uint8Array> {
+   return encodeCanvas(canvas, 'image/png');
+}
+
+/**
+ * Release canvas memory
+ */
+export function releaseCanvas(canvas: AnyCanvas): void {
+   canvas.width = 0;
+   canvas.height = 0;
+}
@@ -0,0 +1,25 @@
+import type { ConversionErrorCode } from '../types';
+
+/**
+ * Error raised by a converter, tagged with a code the UI can act on
+ */
+export class ConversionError extends Error {
+   readonly code: ConversionErrorCode;
+
+   constructor(code: ConversionErrorCode, message: string) {
+      super(message);
+      this.name = 'ConversionError';
+      this.code = code;
+   }
+}
+
+/**
+ * Wrap any thrown value as a ConversionError, keeping an existing code
+ */
+export function toConversionError(error: unknown, fallbackCode: ConversionErrorCode): ConversionError {
+   if (error instanceof ConversionError) {
+      return error;
+   }
+   const message = error instanceof Error ? error.message : 'Conversion failed';
+   return new ConversionError(fallbackCode, message);
+}
@@ -0,0 +1,27 @@
+import JSZip from 'jszip';
+
+/**
+ * Save a blob to the user's device
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+   const url = URL.createObjectURL(blob);
+   const a = document.createElement('a');
+   a.href = url;
+   a.download = filename;
+   document.body.appendChild(a);
+   a.click();
+   document.body.removeChild(a);
+   URL.revokeObjectURL(url);
+}
+
+/**
+ * Bundle several files into a ZIP archive
+ */
+export async function createZip(entries: { filename: string; blob: Blob }[]): Promise<Blob> {
+   const zip = new JSZip();
+   for (const { filename, blob } of entries) {
+      zip.file(filename, blob);
+   }
+   // PDFs are already compressed, storing them is faster and barely larger
+   return zip.generateAsync({ type: 'blob', compression: 'STORE' });
+}
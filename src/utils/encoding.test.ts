@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { decodeText, detectEncoding } from './encoding';
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+// "こんにちは、今日はいい天気ですね。" in Shift_JIS
+const SHIFT_JIS_TEXT = new Uint8Array([
+   0x82, 0xb1, 0x82, 0xf1, 0x82, 0xc9, 0x82, 0xbf, 0x82, 0xcd, 0x81, 0x41, 0x8d, 0xa1, 0x93, 0xfa, 0x82, 0xcd,
+   0x82, 0xa2, 0x82, 0xa2, 0x93, 0x56, 0x8b, 0x43, 0x82, 0xc5, 0x82, 0xb7, 0x82, 0xcb, 0x81, 0x42,
+]);
+
+// "我们的国家是一个大国，这是中文。" in GBK
+const GBK_TEXT = new Uint8Array([
+   0xce, 0xd2, 0xc3, 0xc7, 0xb5, 0xc4, 0xb9, 0xfa, 0xbc, 0xd2, 0xca, 0xc7, 0xd2, 0xbb, 0xb8, 0xf6,
+   0xb4, 0xf3, 0xb9, 0xfa, 0xa3, 0xac, 0xd5, 0xe2, 0xca, 0xc7, 0xd6, 0xd0, 0xce, 0xc4, 0xa1, 0xa3,
+]);
+
+describe('detectEncoding', () => {
+   it('follows a byte order mark', () => {
+      expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]))).toBe('utf-8');
+      expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le');
+      expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x41]))).toBe('utf-16be');
+   });
+
+   it('reads the charset an HTML meta tag declares', () => {
+      expect(detectEncoding(ascii('<html><head><meta charset="Shift_JIS"></head>'))).toBe('shift_jis');
+      expect(detectEncoding(ascii('<meta http-equiv="Content-Type" content="text/html; charset=windows-1251">')))
+         .toBe('windows-1251');
+   });
+
+   it('treats a meta tag declaring UTF-16 in ASCII as UTF-8', () => {
+      expect(detectEncoding(ascii('<meta charset="utf-16">'))).toBe('utf-8');
+   });
+
+   it('ignores a meta tag naming an unknown charset', () => {
+      expect(detectEncoding(ascii('<meta charset="x-made-up">hello'))).toBe('utf-8');
+   });
+
+   it('recognises UTF-16 without a byte order mark', () => {
+      expect(detectEncoding(new Uint8Array([0x48, 0x00, 0x69, 0x00, 0x21, 0x00, 0x0a, 0x00]))).toBe('utf-16le');
+      expect(detectEncoding(new Uint8Array([0x00, 0x48, 0x00, 0x69, 0x00, 0x21, 0x00, 0x0a]))).toBe('utf-16be');
+   });
+
+   it('prefers UTF-8 when the bytes are valid UTF-8', () => {
+      expect(detectEncoding(ascii('naïve café — 日本語'))).toBe('utf-8');
+   });
+
+   it('recognises Shift_JIS and GBK text', () => {
+      expect(detectEncoding(SHIFT_JIS_TEXT)).toBe('shift_jis');
+      expect(detectEncoding(GBK_TEXT)).toBe('gbk');
+   });
+
+   it('falls back to Windows-1252', () => {
+      expect(detectEncoding(new Uint8Array([0x63, 0x61, 0x66, 0xe9, 0x20, 0x63, 0x72, 0xe8, 0x6d, 0x65]))).toBe('windows-1252');
+   });
+});
+
+describe('decodeText', () => {
+   it('drops the byte order mark', () => {
+      expect(decodeText(new Uint8Array([0xef, 0xbb, 0xbf, 0x68, 0x69]), 'utf-8')).toBe('hi');
+   });
+
+   it('decodes legacy encodings', () => {
+      expect(decodeText(SHIFT_JIS_TEXT, 'shift_jis')).toBe('こんにちは、今日はいい天気ですね。');
+      expect(decodeText(GBK_TEXT, 'gbk')).toBe('我们的国家是一个大国，这是中文。');
+   });
+});
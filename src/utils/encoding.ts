@@ -0,0 +1,134 @@
+/**
+ * Character encoding detection for text, HTML and Markdown files
+ */
+
+// Encodings offered for manual override, by WHATWG encoding label
+export const TEXT_ENCODINGS: { value: string; label: string }[] = [
+   { value: 'utf-8', label: 'UTF-8' },
+   { value: 'utf-16le', label: 'UTF-16 LE' },
+   { value: 'utf-16be', label: 'UTF-16 BE' },
+   { value: 'windows-1252', label: 'Western (Windows-1252)' },
+   { value: 'iso-8859-2', label: 'Central European (ISO-8859-2)' },
+   { value: 'windows-1251', label: 'Cyrillic (Windows-1251)' },
+   { value: 'shift_jis', label: 'Japanese (Shift_JIS)' },
+   { value: 'euc-jp', label: 'Japanese (EUC-JP)' },
+   { value: 'gbk', label: 'Chinese Simplified (GBK)' },
+   { value: 'big5', label: 'Chinese Traditional (Big5)' },
+   { value: 'euc-kr', label: 'Korean (EUC-KR)' },
+];
+
+// Only the start of a file is needed to detect its encoding
+export const ENCODING_SCAN_BYTES = 64 * 1024;
+
+// <meta charset> must appear within the first 1024 bytes of an HTML document
+const META_SCAN_BYTES = 1024;
+
+// Multi-byte legacy encodings, each with characters that are common in its language.
+// A decoding that produces many of them is likely the right one; a wrong decoding
+// produces valid but unrelated characters.
+const LEGACY_CANDIDATES: { encoding: string; common: RegExp }[] = [
+   { encoding: 'shift_jis', common: /[぀-ヿ]/g },
+   { encoding: 'euc-jp', common: /[぀-ヿ]/g },
+   { encoding: 'gbk', common: /[的一是不了在人有我他这个们中来上大为和国地到以说时要就出会可也你对生能而子那得于着下自之年过发后作里]/g },
+   { encoding: 'big5', common: /[的一是不了在人有我他這個們中來上大為和國地到以說時要就出會可也你對生能而子那得於著下自之年過發後作裡]/g },
+   { encoding: 'euc-kr', common: /[이다는에의하고를을가지서한로기도으사인대있것수그들보아나리게시내]/g },
+];
+
+// Smallest share of common characters for a legacy decoding to be trusted
+const MIN_COMMON_SHARE = 0.1;
+
+/**
+ * Read the encoding a byte order mark announces
+ */
+function encodingFromBom(bytes: Uint8Array): string | null {
+   if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+   if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+   if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+   return null;
+}
+
+/**
+ * Find the charset declared by an HTML <meta charset> or http-equiv Content-Type tag
+ */
+function encodingFromMeta(bytes: Uint8Array): string | null {
+   const head = new TextDecoder('windows-1252').decode(bytes.subarray(0, META_SCAN_BYTES));
+   const match = head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i);
+   if (!match || !isSupportedEncoding(match[1])) return null;
+
+   // A document that could declare UTF-16 in readable ASCII is not UTF-16 (HTML spec)
+   return /^utf-16/i.test(match[1]) ? 'utf-8' : match[1].toLowerCase();
+}
+
+/**
+ * Recognise UTF-16 without a byte order mark by the zero bytes of ASCII characters
+ */
+function encodingFromZeroBytes(bytes: Uint8Array): string | null {
+   let evenZeros = 0;
+   let oddZeros = 0;
+   for (let i = 0; i + 1 < bytes.length; i += 2) {
+      if (bytes[i] === 0) evenZeros++;
+      if (bytes[i + 1] === 0) oddZeros++;
+   }
+
+   const pairs = Math.floor(bytes.length / 2);
+   if (pairs === 0) return null;
+   if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+   if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+   return null;
+}
+
+/**
+ * Decode strictly, returning null when the bytes are not valid in the encoding.
+ * A character cut off at the end of a scanned prefix does not count as invalid.
+ */
+function tryDecode(bytes: Uint8Array, encoding: string): string | null {
+   try {
+      return new TextDecoder(encoding, { fatal: true }).decode(bytes, { stream: true });
+   } catch {
+      return null;
+   }
+}
+
+/**
+ * Whether the browser can decode an encoding label
+ */
+export function isSupportedEncoding(label: string): boolean {
+   try {
+      new TextDecoder(label);
+      return true;
+   } catch {
+      return false;
+   }
+}
+
+/**
+ * Detect the encoding of text: a byte order mark first, then an HTML <meta charset>,
+ * then UTF-8 or UTF-16 if the bytes fit, and finally the legacy encoding whose
+ * decoding looks most like real text. Windows-1252 is the fallback.
+ */
+export function detectEncoding(data: Uint8Array): string {
+   const bytes = data.subarray(0, ENCODING_SCAN_BYTES);
+   const declared = encodingFromBom(bytes) ?? encodingFromMeta(bytes) ?? encodingFromZeroBytes(bytes);
+   if (declared) return declared;
+
+   if (tryDecode(bytes, 'utf-8') !== null) return 'utf-8';
+
+   let best = { encoding: 'windows-1252', share: MIN_COMMON_SHARE };
+   for (const { encoding, common } of LEGACY_CANDIDATES) {
+      const text = tryDecode(bytes, encoding);
+      if (text === null) continue;
+
+      const nonAscii = text.replace(/[\x00-\x7f]/g, '').length;
+      const share = nonAscii > 0 ? (text.match(common)?.length ?? 0) / nonAscii : 0;
+      if (share > best.share) best = { encoding, share };
+   }
+
+   return best.encoding;
+}
+
+/**
+ * Decode text in an encoding, dropping its byte order mark
+ */
+export function decodeText(bytes: Uint8Array, encoding: string): string {
+   return new TextDecoder(encoding).decode(bytes);
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { copyExif, parseExif } from './exif';
+
+/**
+ * A little-endian TIFF block: IFD0 with make, model, orientation 6 (turn right)
+ * and pointers to an EXIF IFD (capture date) and a GPS IFD (48.5 N, 2.25 W)
+ */
+function exifTiff(): Uint8Array {
+   const bytes = new Uint8Array(308);
+   const view = new DataView(bytes.buffer);
+   const text = (at: number, value: string) => bytes.set([...value].map(c => c.charCodeAt(0)), at);
+   const entry = (at: number, tag: number, type: number, count: number, value: number) => {
+      view.setUint16(at, tag, true);
+      view.setUint16(at + 2, type, true);
+      view.setUint32(at + 4, count, true);
+      if (type === 3) view.setUint16(at + 8, value, true);
+      else view.setUint32(at + 8, value, true);
+   };
+   const rationals = (at: number, values: number[]) => values.forEach((value, i) => {
+      view.setUint32(at + i * 8, value, true);
+      view.setUint32(at + i * 8 + 4, 1, true);
+   });
+
+   text(0, 'II');
+   view.setUint16(2, 42, true);
+   view.setUint32(4, 8, true);
+
+   view.setUint16(8, 5, true);
+   entry(10, 0x010f, 2, 6, 200); // Make
+   entry(22, 0x0110, 2, 13, 210); // Model
+   entry(34, 0x0112, 3, 1, 6); // Orientation
+   entry(46, 0x8769, 4, 1, 100); // EXIF IFD
+   entry(58, 0x8825, 4, 1, 130); // GPS IFD
+
+   view.setUint16(100, 1, true);
+   entry(102, 0x9003, 2, 20, 230); // DateTimeOriginal
+
+   view.setUint16(130, 4, true);
+   entry(132, 0x0001, 2, 2, 0); // GPSLatitudeRef
+   text(140, 'N');
+   entry(144, 0x0002, 5, 3, 260); // GPSLatitude
+   entry(156, 0x0003, 2, 2, 0); // GPSLongitudeRef
+   text(164, 'W');
+   entry(168, 0x0004, 5, 3, 284); // GPSLongitude
+
+   text(200, 'Canon');
+   text(210, 'Canon EOS 5D');
+   text(230, '2024:05:06 07:08:09');
+   rationals(260, [48, 30, 0]);
+   rationals(284, [2, 15, 0]);
+   return bytes;
+}
+
+/**
+ * A JPEG holding a TIFF block in an APP1 "Exif" segment
+ */
+function jpegWithExif(tiff: Uint8Array): ArrayBuffer {
+   const length = 2 + 6 + tiff.length;
+   const header = [0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff, 0x45, 0x78, 0x69, 0x66, 0, 0];
+   const bytes = new Uint8Array([...header, ...tiff, 0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]);
+   return bytes.buffer;
+}
+
+// A re-encoded JPEG as a canvas produces it: SOI, a JFIF APP0 segment, then the image
+const ENCODED_JPEG = new Uint8Array([
+   0xff, 0xd8,
+   0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+   0xff, 0xda, 0x00, 0x02, 0xff, 0xd9,
+]);
+
+const arrayBuffer = (bytes: Uint8Array) => bytes.slice().buffer;
+
+describe('parseExif', () => {
+   it('reads orientation, camera, capture date and location from a JPEG', () => {
+      expect(parseExif(jpegWithExif(exifTiff()))).toEqual({
+         orientation: 6,
+         camera: 'Canon EOS 5D',
+         captureDate: new Date(2024, 4, 6, 7, 8, 9),
+         location: { latitude: 48.5, longitude: -2.25 },
+      });
+   });
+
+   it('reads a plain TIFF file', () => {
+      expect(parseExif(arrayBuffer(exifTiff()))?.orientation).toBe(6);
+   });
+
+   it('returns null without EXIF', () => {
+      expect(parseExif(arrayBuffer(ENCODED_JPEG))).toBeNull();
+      expect(parseExif(arrayBuffer(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])))).toBeNull();
+   });
+});
+
+describe('copyExif', () => {
+   it('inserts the EXIF block after the JFIF segment, reset to upright and without GPS', () => {
+      const output = copyExif(jpegWithExif(exifTiff()), ENCODED_JPEG, false);
+
+      expect([...output.subarray(0, 20)]).toEqual([...ENCODED_JPEG.subarray(0, 20)]);
+      expect([...output.subarray(20, 22)]).toEqual([0xff, 0xe1]);
+      expect([...output.subarray(output.length - 6)]).toEqual([...ENCODED_JPEG.subarray(20)]);
+
+      const exif = parseExif(arrayBuffer(output));
+      expect(exif?.orientation).toBe(1);
+      expect(exif?.location).toBeUndefined();
+      expect(exif?.camera).toBe('Canon EOS 5D');
+      expect(exif?.captureDate).toEqual(new Date(2024, 4, 6, 7, 8, 9));
+   });
+
+   it('keeps the GPS position when asked', () => {
+      const exif = parseExif(arrayBuffer(copyExif(jpegWithExif(exifTiff()), ENCODED_JPEG, true)));
+      expect(exif?.orientation).toBe(1);
+      expect(exif?.location).toEqual({ latitude: 48.5, longitude: -2.25 });
+   });
+
+   it('leaves the JPEG alone when the source has no EXIF block', () => {
+      expect(copyExif(arrayBuffer(ENCODED_JPEG), ENCODED_JPEG, false)).toBe(ENCODED_JPEG);
+   });
+});
@@ -0,0 +1,285 @@
+import type { GeoLocation } from '../types';
+
+/**
+ * Minimal EXIF reader for JPEG and TIFF files
+ */
+
+type ExifValue = number | number[] | string;
+type ExifTags = Map<number, ExifValue>;
+
+export interface ExifData {
+   captureDate?: Date;
+   orientation?: number; // 1 (upright) to 8, how the stored pixels must be turned to display
+   camera?: string; // make and model
+   location?: GeoLocation;
+}
+
+// Only the start of the file is needed to find the EXIF block
+export const EXIF_SCAN_BYTES = 256 * 1024;
+
+// Tag ids
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+// GPS IFD tag ids
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// Largest payload of a JPEG marker segment
+const MAX_SEGMENT_BYTES = 0xffff - 2;
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = {
+   1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8,
+};
+
+/**
+ * Locate the TIFF header inside a JPEG APP1 segment, or at the start of a TIFF file
+ */
+function findTiffStart(view: DataView): number | null {
+   if (view.byteLength < 8) return null;
+
+   // Plain TIFF ("II*\0" or "MM\0*")
+   const order = view.getUint16(0);
+   if ((order === 0x4949 && view.getUint16(2, true) === 42) || (order === 0x4d4d && view.getUint16(2) === 42)) {
+      return 0;
+   }
+
+   // JPEG: walk the marker segments looking for APP1 "Exif\0\0"
+   if (view.getUint16(0) !== 0xffd8) return null;
+
+   let offset = 2;
+   while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00) return null;
+
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+         return offset + 10;
+      }
+      // Start of scan: image data follows, no more metadata
+      if (marker === 0xffda) return null;
+
+      offset += 2 + length;
+   }
+
+   return null;
+}
+
+/**
+ * Where an IFD entry and its value are
+ */
+interface IfdEntry {
+   tag: number;
+   type: number;
+   count: number;
+   offset: number; // of the entry
+   valueOffset: number; // of its value, inside the entry or elsewhere
+   valueSize: number;
+}
+
+/**
+ * List the entries of an IFD whose values lie within the buffer
+ */
+function ifdEntries(view: DataView, tiffStart: number, ifdOffset: number, little: boolean): IfdEntry[] {
+   const entries: IfdEntry[] = [];
+   const base = tiffStart + ifdOffset;
+   if (base + 2 > view.byteLength) return entries;
+
+   const count = view.getUint16(base, little);
+
+   for (let i = 0; i < count; i++) {
+      const offset = base + 2 + i * 12;
+      if (offset + 12 > view.byteLength) break;
+
+      const tag = view.getUint16(offset, little);
+      const type = view.getUint16(offset + 2, little);
+      const valueCount = view.getUint32(offset + 4, little);
+      const size = TYPE_SIZES[type];
+      if (!size) continue;
+
+      // Values over 4 bytes live elsewhere, pointed to by the entry
+      const valueSize = size * valueCount;
+      const valueOffset = valueSize > 4 ? tiffStart + view.getUint32(offset + 8, little) : offset + 8;
+      if (valueOffset + valueSize > view.byteLength) continue;
+
+      entries.push({ tag, type, count: valueCount, offset, valueOffset, valueSize });
+   }
+
+   return entries;
+}
+
+/**
+ * Read a single IFD into a tag map
+ */
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, little: boolean): ExifTags {
+   const tags: ExifTags = new Map();
+
+   for (const { tag, type, count, valueOffset } of ifdEntries(view, tiffStart, ifdOffset, little)) {
+      const size = TYPE_SIZES[type];
+      const values: number[] = [];
+      let text = '';
+
+      for (let n = 0; n < count; n++) {
+         const at = valueOffset + n * size;
+         switch (type) {
+            case 1:
+            case 7:
+               values.push(view.getUint8(at));
+               break;
+            case 2:
+               text += String.fromCharCode(view.getUint8(at));
+               break;
+            case 3:
+               values.push(view.getUint16(at, little));
+               break;
+            case 4:
+               values.push(view.getUint32(at, little));
+               break;
+            case 9:
+               values.push(view.getInt32(at, little));
+               break;
+            case 5:
+               values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1));
+               break;
+            case 10:
+               values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1));
+               break;
+         }
+      }
+
+      tags.set(tag, type === 2 ? text.replace(/\0+$/, '') : values.length === 1 ? values[0] : values);
+   }
+
+   return tags;
+}
+
+/**
+ * Parse an EXIF date ("YYYY:MM:DD HH:MM:SS", local time)
+ */
+function parseExifDate(value: ExifValue | undefined): Date | undefined {
+   if (typeof value !== 'string') return undefined;
+
+   const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+   if (!match) return undefined;
+
+   const [, y, mo, d, h, mi, s] = match.map(Number);
+   const date = new Date(y, mo - 1, d, h, mi, s);
+   return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse a GPS coordinate: degrees, minutes and seconds, negative to the south or west
+ */
+function parseCoordinate(value: ExifValue | undefined, ref: ExifValue | undefined, negativeRef: string): number | undefined {
+   if (!Array.isArray(value) || value.length !== 3 || value.some(n => !isFinite(n))) return undefined;
+
+   const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+   return ref === negativeRef ? -degrees : degrees;
+}
+
+/**
+ * Parse the camera make and model, which often repeats the make
+ */
+function parseCamera(make: ExifValue | undefined, model: ExifValue | undefined): string | undefined {
+   const makeText = typeof make === 'string' ? make.trim() : '';
+   const modelText = typeof model === 'string' ? model.trim() : '';
+   if (!modelText) return makeText || undefined;
+   return modelText.toLowerCase().startsWith(makeText.toLowerCase()) ? modelText : `${makeText} ${modelText}`.trim();
+}
+
+/**
+ * Parse EXIF metadata from the start of an image file
+ */
+export function parseExif(buffer: ArrayBuffer): ExifData | null {
+   const view = new DataView(buffer);
+   const tiffStart = findTiffStart(view);
+   if (tiffStart === null || tiffStart + 8 > view.byteLength) return null;
+
+   const little = view.getUint16(tiffStart) === 0x4949;
+   const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+   const exifPointer = ifd0.get(TAG_EXIF_IFD);
+   const exifIfd = typeof exifPointer === 'number' ? readIfd(view, tiffStart, exifPointer, little) : new Map();
+   const gpsPointer = ifd0.get(TAG_GPS_IFD);
+   const gpsIfd = typeof gpsPointer === 'number' ? readIfd(view, tiffStart, gpsPointer, little) : new Map();
+
+   const orientation = ifd0.get(TAG_ORIENTATION);
+   const latitude = parseCoordinate(gpsIfd.get(TAG_GPS_LATITUDE), gpsIfd.get(TAG_GPS_LATITUDE_REF), 'S');
+   const longitude = parseCoordinate(gpsIfd.get(TAG_GPS_LONGITUDE), gpsIfd.get(TAG_GPS_LONGITUDE_REF), 'W');
+
+   return {
+      captureDate: parseExifDate(exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ?? parseExifDate(ifd0.get(TAG_DATE_TIME)),
+      orientation: typeof orientation === 'number' && orientation >= 1 && orientation <= 8 ? orientation : undefined,
+      camera: parseCamera(ifd0.get(TAG_MAKE), ifd0.get(TAG_MODEL)),
+      location: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+   };
+}
+
+/**
+ * Copy the EXIF block of a JPEG into a re-encoded version of it. The orientation is
+ * reset to upright, since the new pixels are already turned, and the GPS position is
+ * erased unless it is to be kept. Only JPEG sources carry EXIF this way; other
+ * sources leave the new JPEG as it is.
+ */
+export function copyExif(source: ArrayBuffer, jpeg: Uint8Array, keepLocation: boolean): Uint8Array {
+   const view = new DataView(source);
+   const tiffStart = findTiffStart(view);
+   if (!tiffStart || jpeg[0] !== 0xff || jpeg[1] !== 0xd8) return jpeg;
+
+   // The APP1 segment's length field sits before "Exif\0\0"
+   const segmentEnd = Math.min(tiffStart - 8 + view.getUint16(tiffStart - 8), view.byteLength);
+   const tiff = new Uint8Array(source.slice(tiffStart, segmentEnd));
+   if (tiff.length < 8 || tiff.length + 6 > MAX_SEGMENT_BYTES) return jpeg;
+
+   const tiffView = new DataView(tiff.buffer);
+   const little = tiffView.getUint16(0) === 0x4949;
+   const ifd0 = ifdEntries(tiffView, 0, tiffView.getUint32(4, little), little);
+
+   for (const entry of ifd0) {
+      if (entry.tag === TAG_ORIENTATION && entry.type === 3) {
+         tiffView.setUint16(entry.valueOffset, 1, little);
+      }
+      if (entry.tag === TAG_GPS_IFD && !keepLocation) {
+         // Zero the GPS values, then the IFD itself: no entries and no next IFD
+         const gpsOffset = tiffView.getUint32(entry.valueOffset, little);
+         for (const gps of ifdEntries(tiffView, 0, gpsOffset, little)) {
+            tiff.fill(0, gps.valueOffset, gps.valueOffset + gps.valueSize);
+         }
+         if (gpsOffset + 2 <= tiff.length) {
+            tiff.fill(0, gpsOffset, gpsOffset + 2 + tiffView.getUint16(gpsOffset, little) * 12 + 4);
+         }
+      }
+   }
+
+   // APP1 goes after the JFIF APP0 segment, which must come first
+   let insertAt = 2;
+   if (jpeg[2] === 0xff && jpeg[3] === 0xe0) insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+
+   const segmentLength = 2 + 6 + tiff.length;
+   const output = new Uint8Array(jpeg.length + 2 + segmentLength);
+   output.set(jpeg.subarray(0, insertAt));
+   output.set([0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff, 0x45, 0x78, 0x69, 0x66, 0, 0], insertAt);
+   output.set(tiff, insertAt + 10);
+   output.set(jpeg.subarray(insertAt), insertAt + 10 + tiff.length);
+   return output;
+}
+
+/**
+ * Read EXIF metadata from an image file, or null if it has none
+ */
+export async function readExif(file: Blob): Promise<ExifData | null> {
+   try {
+      const buffer = await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer();
+      return parseExif(buffer);
+   } catch {
+      return null;
+   }
+}
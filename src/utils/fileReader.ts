@@ -2,6 +2,9 @@
  * File reading utilities using FileReader API
  */
 
+import { ConversionError } from './conversionError';
+import { decodeText, detectEncoding, ENCODING_SCAN_BYTES } from './encoding';
+
 /**
  * Read file as DataURL (for images)
  */
@@ -9,7 +12,7 @@ export function readAsDataURL(file: File): Promise<string> {
    return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = () => resolve(reader.result as string);
-      reader.onerror = () => reject(new Error(`Failed to read file: ${file.name}`));
+      reader.onerror = () => reject(new ConversionError('read-failed', `Failed to read file: ${file.name}`));
       reader.readAsDataURL(file);
    });
 }
@@ -21,21 +24,28 @@ export function readAsArrayBuffer(file: File): Promise<ArrayBuffer> {
    return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = () => resolve(reader.result as ArrayBuffer);
-      reader.onerror = () => reject(new Error(`Failed to read file: ${file.name}`));
+      reader.onerror = () => reject(new ConversionError('read-failed', `Failed to read file: ${file.name}`));
       reader.readAsArrayBuffer(file);
    });
 }
 
 /**
- * Read file as text (for text/HTML/Markdown)
+ * Read file as text (for text/HTML/Markdown) in the given encoding, or the one detected from its content
  */
-export function readAsText(file: File): Promise<string> {
-   return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = () => reject(new Error(`Failed to read file: ${file.name}`));
-      reader.readAsText(file);
-   });
+export async function readAsText(file: File, encoding?: string): Promise<string> {
+   const bytes = new Uint8Array(await readAsArrayBuffer(file));
+   return decodeText(bytes, encoding ?? detectEncoding(bytes));
+}
+
+/**
+ * Detect the character encoding of a text file from its first bytes
+ */
+export async function detectFileEncoding(file: File): Promise<string> {
+   try {
+      return detectEncoding(new Uint8Array(await file.slice(0, ENCODING_SCAN_BYTES).arrayBuffer()));
+   } catch {
+      throw new ConversionError('read-failed', `Failed to read file: ${file.name}`);
+   }
 }
 
 /**
@@ -45,7 +55,7 @@ export function loadImage(dataUrl: string): Promise<HTMLImageElement> {
    return new Promise((resolve, reject) => {
       const img = new Image();
       img.onload = () => resolve(img);
-      img.onerror = () => reject(new Error('Failed to load image'));
+      img.onerror = () => reject(new ConversionError('image-decode-failed', 'Failed to load image'));
       img.src = dataUrl;
    });
 }
@@ -0,0 +1,44 @@
+import type { ConvertibleFile, SortKey } from '../types';
+
+// Natural order: "scan2" before "scan10", case-insensitive
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Compare two queued files by the given key; ties fall back to natural name order
+ */
+function compareFiles(a: ConvertibleFile, b: ConvertibleFile, key: SortKey): number {
+   let diff = 0;
+
+   switch (key) {
+      case 'modified':
+         diff = a.file.lastModified - b.file.lastModified;
+         break;
+      case 'captureDate':
+         // Files without EXIF capture date use their last-modified time
+         diff = (a.captureDate ?? a.file.lastModified) - (b.captureDate ?? b.file.lastModified);
+         break;
+      case 'size':
+         diff = a.file.size - b.file.size;
+         break;
+   }
+
+   return diff || collator.compare(a.file.name, b.file.name);
+}
+
+/**
+ * Return a new queue sorted by the given key (ascending)
+ */
+export function sortFiles(files: ConvertibleFile[], key: SortKey): ConvertibleFile[] {
+   return [...files].sort((a, b) => compareFiles(a, b, key));
+}
+
+/**
+ * Return a new queue with one item moved to another position
+ */
+export function moveItem<T>(items: T[], fromIndex: number, toIndex: number): T[] {
+   const result = [...items];
+   const target = Math.max(0, Math.min(result.length - 1, toIndex));
+   const [item] = result.splice(fromIndex, 1);
+   result.splice(target, 0, item);
+   return result;
+}
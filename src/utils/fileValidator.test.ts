@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { detectFileType } from './fileValidator';
+
+const file = (name: string, type = '') => new File([''], name, { type });
+
+describe('detectFileType', () => {
+   it('prefers the MIME type', () => {
+      expect(detectFileType(file('photo', 'image/png'))).toBe('image');
+   });
+
+   it('falls back to the extension', () => {
+      expect(detectFileType(file('notes.MD'))).toBe('markdown');
+      expect(detectFileType(file('main.rs'))).toBe('code');
+   });
+
+   it('recognises extensionless source files by name', () => {
+      expect(detectFileType(file('Dockerfile'))).toBe('code');
+      expect(detectFileType(file('Makefile'))).toBe('code');
+      expect(detectFileType(file('GNUmakefile'))).toBe('code');
+   });
+
+   it('rejects anything else', () => {
+      expect(detectFileType(file('README'))).toBe('unknown');
+      expect(detectFileType(file('archive.rar'))).toBe('unknown');
+   });
+});
@@ -3,12 +3,13 @@ import {
    type ValidationResult,
    SUPPORTED_MIME_TYPES,
    EXTENSION_TO_TYPE,
+   FILENAME_TO_TYPE,
    MAX_FILE_SIZE,
    MAX_TOTAL_SIZE,
 } from '../types';
 
 /**
- * Detect file type from MIME type or extension
+ * Detect file type from MIME type, extension or well-known file name
  */
 export function detectFileType(file: File): FileType {
    // Try MIME type first
@@ -22,6 +23,12 @@ export function detectFileType(file: File): FileType {
       return EXTENSION_TO_TYPE[ext];
    }
 
+   // Extensionless source files such as Dockerfile and Makefile
+   const name = file.name.toLowerCase();
+   if (FILENAME_TO_TYPE[name]) {
+      return FILENAME_TO_TYPE[name];
+   }
+
    return 'unknown';
 }
 
@@ -100,5 +107,5 @@ export function isImageFile(type: FileType): boolean {
  * Check if file is text-based
  */
 export function isTextFile(type: FileType): boolean {
-   return type === 'text' || type === 'html' || type === 'markdown';
+   return type === 'text' || type === 'html' || type === 'markdown' || type === 'code';
 }
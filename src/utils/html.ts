@@ -0,0 +1,10 @@
+/**
+ * Escape text for use in HTML markup or a quoted attribute value
+ */
+export function escapeHtml(text: string): string {
+   return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+}
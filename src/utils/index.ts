@@ -1,2 +1,11 @@
 export { detectFileType, validateFile, validateFiles, formatFileSize, generateId, isImageFile, isTextFile } from './fileValidator';
-export { readAsDataURL, readAsArrayBuffer, readAsText, loadImage, createObjectURL, revokeObjectURL } from './fileReader';
+export { readAsDataURL, readAsArrayBuffer, readAsText, detectFileEncoding, loadImage, createObjectURL, revokeObjectURL } from './fileReader';
+export { TEXT_ENCODINGS, detectEncoding, decodeText, isSupportedEncoding } from './encoding';
+export { type AnyCanvas, createCanvas, getContext2d, canvasToJpeg, canvasToPng, releaseCanvas } from './canvas';
+export { createAbortError, throwIfAborted, isAbortError, abortable } from './abort';
+export { ConversionError, toConversionError } from './conversionError';
+export { sortFiles, moveItem } from './fileSorter';
+export { type ExifData, EXIF_SCAN_BYTES, parseExif, readExif, copyExif } from './exif';
+export { decoderAppliesOrientation, swapsDimensions, applyOrientation } from './orientation';
+export { downloadBlob, createZip } from './download';
+export { escapeHtml } from './html';
@@ -0,0 +1,73 @@
+/**
+ * EXIF orientation: turning stored pixels the way the camera was held
+ */
+
+// A 2×1 JPEG tagged with orientation 6 (turn 90° clockwise); decoders that honour the tag produce 1×2
+const ORIENTATION_TEST_JPEG = '/9j/4QAiRXhpZgAATU0AKgAAAAgAAQESAAMAAAABAAYAAAAAAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkSEw8UHRofHh0a'
+   + 'HBwgJC4nICIsIxwcKDcpLDAxNDQ0Hyc5PTgyPC4zNDL/wAALCAABAAIBAREA/8QAHwAAAQUBAQEBAQEAAAAAAAAAAAECAwQFBgcICQoL/8QAtRAA'
+   + 'AgEDAwIEAwUFBAQAAAF9AQIDAAQRBRIhMUEGE1FhByJxFDKBkaEII0KxwRVS0fAkM2JyggkKFhcYGRolJicoKSo0NTY3ODk6Q0RFRkdISUpTVFVW'
+   + 'V1hZWmNkZWZnaGlqc3R1dnd4eXqDhIWGh4iJipKTlJWWl5iZmqKjpKWmp6ipqrKztLW2t7i5usLDxMXGx8jJytLT1NXW19jZ2uHi4+Tl5ufo6erx'
+   + '8vP09fb3+Pn6/9oACAEBAAA/ACv/2Q==';
+
+let appliesOrientation: Promise<boolean> | null = null;
+
+/**
+ * Whether createImageBitmap already turns images by their EXIF orientation.
+ * Browsers differ, so it is tested once per thread on a tiny tagged image.
+ */
+export function decoderAppliesOrientation(): Promise<boolean> {
+   appliesOrientation ??= (async () => {
+      try {
+         const bytes = Uint8Array.from(atob(ORIENTATION_TEST_JPEG), char => char.charCodeAt(0));
+         const bitmap = await createImageBitmap(new Blob([bytes], { type: 'image/jpeg' }));
+         const applied = bitmap.height > bitmap.width;
+         bitmap.close();
+         return applied;
+      } catch {
+         return true;
+      }
+   })();
+   return appliesOrientation;
+}
+
+/**
+ * Whether an orientation turns the image a quarter turn, swapping width and height
+ */
+export function swapsDimensions(orientation: number): boolean {
+   return orientation >= 5 && orientation <= 8;
+}
+
+/**
+ * Set up a context so that drawing an image of the given (stored) size at 0,0
+ * comes out turned upright. The canvas must be the turned size.
+ */
+export function applyOrientation(
+   ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+   orientation: number,
+   width: number,
+   height: number
+): void {
+   switch (orientation) {
+      case 2: // mirrored
+         ctx.transform(-1, 0, 0, 1, width, 0);
+         break;
+      case 3: // upside down
+         ctx.transform(-1, 0, 0, -1, width, height);
+         break;
+      case 4: // upside down, mirrored
+         ctx.transform(1, 0, 0, -1, 0, height);
+         break;
+      case 5: // transposed
+         ctx.transform(0, 1, 1, 0, 0, 0);
+         break;
+      case 6: // turned a quarter clockwise
+         ctx.transform(0, 1, -1, 0, height, 0);
+         break;
+      case 7: // transversed
+         ctx.transform(0, -1, -1, 0, height, width);
+         break;
+      case 8: // turned a quarter counter-clockwise
+         ctx.transform(0, -1, 1, 0, 0, width);
+         break;
+   }
+}
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+// libheif-js ships no types for its WebAssembly bundle
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+   const createLibheif: () => unknown;
+   export default createLibheif;
+}
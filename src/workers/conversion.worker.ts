@@ -0,0 +1,22 @@
+/**
+ * Conversion worker: runs decode, layout and assembly tasks off the main thread
+ */
+import { ConversionError } from '../utils';
+import { executeTask, getTransferables, type WorkerTask, type WorkerResponse } from './tasks';
+
+self.addEventListener('message', async (e: MessageEvent<WorkerTask>) => {
+   let response: WorkerResponse;
+
+   try {
+      const result = await executeTask(e.data);
+      response = { ok: true, result };
+   } catch (error) {
+      response = {
+         ok: false,
+         error: error instanceof Error ? error.message : 'Worker task failed',
+         code: error instanceof ConversionError ? error.code : undefined,
+      };
+   }
+
+   self.postMessage(response, { transfer: response.ok ? getTransferables(response.result) : [] });
+});
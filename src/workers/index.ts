@@ -0,0 +1,2 @@
+export { runTask, assemblePdfInWorker } from './workerPool';
+export type { WorkerTask, WorkerTaskResults, DecodedImage } from './tasks';
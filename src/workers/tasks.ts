@@ -0,0 +1,282 @@
+import type { ConversionOptions, ConversionErrorCode, EmbeddedFont, PhotoMetadata } from '../types';
+import {
+   createCanvas,
+   getContext2d,
+   canvasToJpeg,
+   canvasToPng,
+   releaseCanvas,
+   ConversionError,
+   EXIF_SCAN_BYTES,
+   parseExif,
+   copyExif,
+   decoderAppliesOrientation,
+   swapsDimensions,
+   applyOrientation,
+} from '../utils';
+import { assemblePdf, type PageImage, type PdfPage } from '../converters/pdfAssembler';
+import { layoutTextPages } from '../converters/textLayout';
+import { isTiff, readTiffPages, decodeTiffPage } from '../converters/tiff';
+import { BRAND_SCAN_BYTES, isHeif, isAvif, decodeHeif, decodeAvif } from '../converters/heif';
+
+/**
+ * Work that can run on a conversion worker (or inline as a fallback)
+ */
+export type WorkerTask =
+   | { type: 'decodeImage'; file: Blob; quality: number; maxDimension: number; metadata: PhotoMetadata; frames: boolean }
+   | { type: 'layoutText'; text: string; options: ConversionOptions; header?: string }
+   | { type: 'assemble'; pages: PdfPage[]; customFont?: EmbeddedFont };
+
+export interface DecodedImage {
+   data: Uint8Array; // JPEG or PNG bytes
+   format: PageImage['format'];
+   width: number;
+   height: number;
+}
+
+export interface WorkerTaskResults {
+   decodeImage: DecodedImage[]; // one per page or frame
+   layoutText: PdfPage[];
+   assemble: Blob;
+}
+
+export type WorkerResponse =
+   | { ok: true; result: WorkerTaskResults[WorkerTask['type']] }
+   | { ok: false; error: string; code?: ConversionErrorCode };
+
+/**
+ * The parts of the WebCodecs ImageDecoder used to read animation frames
+ * (not in TypeScript's DOM types yet)
+ */
+interface FrameDecoder {
+   readonly tracks: { readonly ready: Promise<void>; readonly selectedTrack: { readonly frameCount: number } | null };
+   readonly completed: Promise<void>;
+   decode(options: { frameIndex: number }): Promise<{ image: VideoFrame }>;
+   close(): void;
+}
+
+type FrameDecoderConstructor = new (init: { data: BufferSource; type: string }) => FrameDecoder;
+
+// Most frames of one animation that become pages
+const MAX_FRAMES = 300;
+
+/**
+ * Resize image dimensions to fit within max size while maintaining aspect ratio
+ */
+function constrainDimensions(width: number, height: number, maxDimension: number): { width: number; height: number } {
+   if (width <= maxDimension && height <= maxDimension) {
+      return { width, height };
+   }
+
+   const ratio = Math.min(maxDimension / width, maxDimension / height);
+   return {
+      width: Math.floor(width * ratio),
+      height: Math.floor(height * ratio),
+   };
+}
+
+/**
+ * Draw an image onto a white canvas, scaled down to fit maxDimension and turned
+ * by an EXIF orientation, and encode it
+ */
+async function encodeImage(
+   source: CanvasImageSource,
+   size: { width: number; height: number },
+   turn: number,
+   format: PageImage['format'],
+   quality: number,
+   maxDimension: number
+): Promise<DecodedImage> {
+   const stored = constrainDimensions(size.width, size.height, maxDimension);
+   const { width, height } = swapsDimensions(turn) ? { width: stored.height, height: stored.width } : stored;
+   const canvas = createCanvas(width, height);
+
+   try {
+      const ctx = getContext2d(canvas);
+
+      // The PDF shows no transparency, flatten it onto white
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+      applyOrientation(ctx, turn, stored.width, stored.height);
+      ctx.drawImage(source, 0, 0, stored.width, stored.height);
+
+      const data = format === 'PNG' ? await canvasToPng(canvas) : await canvasToJpeg(canvas, quality);
+      return { data, format, width, height };
+   } finally {
+      releaseCanvas(canvas);
+   }
+}
+
+/**
+ * Decode every page of a TIFF. Black and white pages are kept lossless as PNG.
+ */
+async function decodeTiff(data: ArrayBuffer, quality: number, maxDimension: number): Promise<DecodedImage[]> {
+   const images: DecodedImage[] = [];
+
+   try {
+      for (const page of readTiffPages(data)) {
+         const canvas = await decodeTiffPage(data, page);
+         try {
+            images.push(await encodeImage(canvas, page, page.orientation, page.bilevel ? 'PNG' : 'JPEG', quality, maxDimension));
+         } finally {
+            releaseCanvas(canvas);
+         }
+      }
+   } catch (error) {
+      if (error instanceof ConversionError) throw error;
+      throw new ConversionError('image-decode-failed', 'The TIFF image is damaged and could not be decoded');
+   }
+
+   return images;
+}
+
+/**
+ * Decode a HEIF or AVIF photo with the bundled decoder, for browsers that cannot
+ */
+async function decodeBundled(file: Blob, avif: boolean, quality: number, maxDimension: number): Promise<DecodedImage> {
+   const data = await file.arrayBuffer();
+   const canvas = avif ? await decodeAvif(data) : await decodeHeif(data);
+   try {
+      return await encodeImage(canvas, canvas, 1, 'JPEG', quality, maxDimension);
+   } finally {
+      releaseCanvas(canvas);
+   }
+}
+
+/**
+ * MIME type of an animated image format (GIF or WebP) from its first bytes, or null
+ */
+function animationType(bytes: Uint8Array): string | null {
+   const tag = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+   if (tag(0, 4) === 'GIF8') return 'image/gif';
+   if (tag(0, 4) === 'RIFF' && tag(8, 12) === 'WEBP') return 'image/webp';
+   return null;
+}
+
+/**
+ * Decode every frame of an animation with ImageDecoder. Null where the browser
+ * has no ImageDecoder or cannot read the format, to fall back to the first frame.
+ */
+async function decodeFrames(data: ArrayBuffer, type: string, quality: number, maxDimension: number): Promise<DecodedImage[] | null> {
+   const ImageDecoder = (globalThis as { ImageDecoder?: FrameDecoderConstructor }).ImageDecoder;
+   if (!ImageDecoder) return null;
+
+   let decoder: FrameDecoder;
+   try {
+      decoder = new ImageDecoder({ data, type });
+      await decoder.tracks.ready;
+      await decoder.completed;
+   } catch {
+      return null;
+   }
+
+   try {
+      const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1;
+      if (frameCount > MAX_FRAMES) {
+         throw new ConversionError('image-decode-failed', `The animation has ${frameCount} frames; at most ${MAX_FRAMES} can become pages`);
+      }
+
+      const images: DecodedImage[] = [];
+      for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+         const { image } = await decoder.decode({ frameIndex });
+         try {
+            const size = { width: image.displayWidth, height: image.displayHeight };
+            images.push(await encodeImage(image, size, 1, 'JPEG', quality, maxDimension));
+         } finally {
+            image.close();
+         }
+      }
+      return images;
+   } finally {
+      decoder.close();
+   }
+}
+
+/**
+ * Decode an image file and re-encode it for the PDF: every page of a TIFF,
+ * every frame of an animation when frames is set, and otherwise the image
+ * as JPEG, turned upright by its EXIF orientation. HEIF and AVIF photos the
+ * browser cannot read are decoded with libheif and libavif. The EXIF block is copied
+ * over unless metadata is stripped.
+ */
+async function decodeImage(
+   file: Blob,
+   quality: number,
+   maxDimension: number,
+   metadata: PhotoMetadata,
+   frames: boolean
+): Promise<DecodedImage[]> {
+   const head = await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer().catch(() => new ArrayBuffer(0));
+   const magic = new Uint8Array(head, 0, Math.min(head.byteLength, 12));
+
+   if (isTiff(magic)) {
+      return decodeTiff(await file.arrayBuffer(), quality, maxDimension);
+   }
+
+   const animation = frames ? animationType(magic) : null;
+   if (animation) {
+      const images = await decodeFrames(await file.arrayBuffer(), animation, quality, maxDimension);
+      if (images) return images;
+   }
+
+   const orientation = parseExif(head)?.orientation ?? 1;
+
+   // Turn the pixels here only where the browser's decoder does not
+   const turn = orientation !== 1 && !(await decoderAppliesOrientation()) ? orientation : 1;
+
+   let bitmap: ImageBitmap;
+   try {
+      bitmap = await createImageBitmap(file);
+   } catch {
+      // HEIF and AVIF photos fall back to the bundled decoders; libheif applies the container's rotation
+      const brands = new Uint8Array(head, 0, Math.min(head.byteLength, BRAND_SCAN_BYTES));
+      if (isHeif(brands) || isAvif(brands)) return [await decodeBundled(file, isAvif(brands), quality, maxDimension)];
+      throw new ConversionError('image-decode-failed', 'The image could not be decoded');
+   }
+
+   try {
+      const image = await encodeImage(bitmap, bitmap, turn, 'JPEG', quality, maxDimension);
+      if (metadata !== 'strip') image.data = copyExif(head, image.data, metadata === 'keepLocation');
+      return [image];
+   } finally {
+      bitmap.close();
+   }
+}
+
+/**
+ * Execute a task and return its result
+ */
+export async function executeTask<T extends WorkerTask>(task: T): Promise<WorkerTaskResults[T['type']]> {
+   type Result = WorkerTaskResults[T['type']];
+
+   switch (task.type) {
+      case 'decodeImage':
+         return await decodeImage(task.file, task.quality, task.maxDimension, task.metadata, task.frames) as Result;
+      case 'layoutText':
+         return await layoutTextPages(task.text, task.options, task.header) as Result;
+      case 'assemble':
+         return await assemblePdf(task.pages, task.customFont) as Result;
+   }
+   throw new Error('Unknown worker task');
+}
+
+/**
+ * Collect the buffers that can be transferred (not copied) with a result or task
+ */
+export function getTransferables(value: WorkerTask | WorkerTaskResults[WorkerTask['type']]): Transferable[] {
+   if (value instanceof Blob) return [];
+
+   const buffers = new Set<ArrayBuffer>();
+   const entries = Array.isArray(value) ? value : 'pages' in value ? value.pages : [];
+
+   for (const entry of entries) {
+      if ('items' in entry) {
+         for (const item of entry.items) {
+            if (item.kind === 'image') buffers.add(item.data.buffer as ArrayBuffer);
+         }
+      } else {
+         buffers.add(entry.data.buffer as ArrayBuffer);
+      }
+   }
+
+   return Array.from(buffers);
+}
@@ -0,0 +1,162 @@
+import type { PdfPage } from '../converters/pdfAssembler';
+import type { EmbeddedFont } from '../types';
+import { createAbortError, throwIfAborted, ConversionError } from '../utils';
+import {
+   executeTask,
+   getTransferables,
+   type WorkerTask,
+   type WorkerTaskResults,
+   type WorkerResponse,
+} from './tasks';
+
+interface QueuedTask {
+   task: WorkerTask;
+   resolve: (result: WorkerTaskResults[WorkerTask['type']]) => void;
+   reject: (error: Error) => void;
+   signal?: AbortSignal;
+   onAbort?: () => void;
+}
+
+// One worker per available CPU core
+const POOL_SIZE = Math.max(1, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 2);
+
+const workers: Worker[] = [];
+const idleWorkers: Worker[] = [];
+const activeTasks = new Map<Worker, QueuedTask>();
+const queue: QueuedTask[] = [];
+
+/**
+ * Check whether tasks can run on workers; image decoding there needs OffscreenCanvas
+ */
+function supportsWorkers(): boolean {
+   return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+/**
+ * Create a worker and wire it to the pool
+ */
+function spawnWorker(): Worker {
+   const worker = new Worker(new URL('./conversion.worker.ts', import.meta.url), { type: 'module' });
+
+   worker.addEventListener('message', (e: MessageEvent<WorkerResponse>) => {
+      const current = activeTasks.get(worker);
+      activeTasks.delete(worker);
+
+      if (current) {
+         current.signal?.removeEventListener('abort', current.onAbort!);
+         if (e.data.ok) {
+            current.resolve(e.data.result);
+         } else {
+            current.reject(e.data.code ? new ConversionError(e.data.code, e.data.error) : new Error(e.data.error));
+         }
+      }
+
+      idleWorkers.push(worker);
+      dispatch();
+   });
+
+   worker.addEventListener('error', (e) => {
+      // A crashed worker is dropped from the pool and its task fails
+      const current = activeTasks.get(worker);
+      removeWorker(worker);
+
+      if (current) {
+         current.signal?.removeEventListener('abort', current.onAbort!);
+         current.reject(new Error(e.message || 'Conversion worker crashed'));
+      }
+      dispatch();
+   });
+
+   workers.push(worker);
+   return worker;
+}
+
+/**
+ * Terminate a worker and forget about it
+ */
+function removeWorker(worker: Worker): void {
+   activeTasks.delete(worker);
+   workers.splice(workers.indexOf(worker), 1);
+   const idleIndex = idleWorkers.indexOf(worker);
+   if (idleIndex !== -1) idleWorkers.splice(idleIndex, 1);
+   worker.terminate();
+}
+
+/**
+ * Cancel a task: drop it from the queue, or stop the worker running it
+ */
+function abortTask(queued: QueuedTask): void {
+   const queueIndex = queue.indexOf(queued);
+   if (queueIndex !== -1) {
+      queue.splice(queueIndex, 1);
+   }
+
+   for (const [worker, active] of activeTasks) {
+      if (active === queued) {
+         // Work cannot be interrupted inside a worker, so replace the worker
+         removeWorker(worker);
+         break;
+      }
+   }
+
+   queued.reject(createAbortError());
+   dispatch();
+}
+
+/**
+ * Hand queued tasks to idle workers, spawning new ones up to the pool size
+ */
+function dispatch(): void {
+   while (queue.length > 0) {
+      let worker = idleWorkers.pop();
+      if (!worker) {
+         if (workers.length >= POOL_SIZE) return;
+         worker = spawnWorker();
+      }
+
+      const next = queue.shift()!;
+      activeTasks.set(worker, next);
+      worker.postMessage(next.task, getTransferables(next.task));
+   }
+}
+
+/**
+ * Run a task on the worker pool, or inline when workers are unavailable.
+ * Aborting the signal rejects with an AbortError and stops the worker.
+ */
+export async function runTask<T extends WorkerTask>(
+   task: T,
+   signal?: AbortSignal
+): Promise<WorkerTaskResults[T['type']]> {
+   throwIfAborted(signal);
+
+   if (!supportsWorkers()) {
+      const result = await executeTask(task);
+      throwIfAborted(signal);
+      return result;
+   }
+
+   return new Promise((resolve, reject) => {
+      const queued: QueuedTask = {
+         task,
+         resolve: resolve as QueuedTask['resolve'],
+         reject,
+         signal,
+      };
+
+      if (signal) {
+         queued.onAbort = () => abortTask(queued);
+         signal.addEventListener('abort', queued.onAbort, { once: true });
+      }
+
+      queue.push(queued);
+      dispatch();
+   });
+}
+
+/**
+ * Assemble pages into a PDF on the worker pool, embedding the uploaded font if pages use it
+ */
+export function assemblePdfInWorker(pages: PdfPage[], signal?: AbortSignal, customFont?: EmbeddedFont): Promise<Blob> {
+   return runTask({ type: 'assemble', pages, customFont }, signal);
+}
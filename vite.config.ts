@@ -29,8 +29,26 @@ export default defineConfig({
             ]
          },
          workbox: {
-            globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}']
+            globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2,ttf}'],
+            // The CJK fallback fonts and the HEIC and AVIF decoders are too large to precache; they are cached on first use
+            globIgnores: ['**/NotoSans*.ttf', '**/libheif-bundle-*.js'],
+            runtimeCaching: [
+               {
+                  urlPattern: /\/NotoSans[^/]*\.ttf$/,
+                  handler: 'CacheFirst',
+                  options: { cacheName: 'fonts' }
+               },
+               {
+                  urlPattern: /\/(libheif-bundle-[^/]*\.js|avif_dec-[^/]*\.wasm)$/,
+                  handler: 'CacheFirst',
+                  options: { cacheName: 'decoders' }
+               }
+            ]
          }
       })
-   ]
+   ],
+   worker: {
+      // Workers import jsPDF, which code-splits; that needs ES module output
+      format: 'es'
+   }
 })